@@ -0,0 +1,43 @@
+// Authentication for routes used by both the dashboard and API clients.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VercelRequest } from '@vercel/node';
+
+export interface CallerProfile {
+  id: string;
+  status: string;
+  webhook_secret: string | null;
+}
+
+type AuthResult = { profile: CallerProfile } | { status: number; error: string };
+
+// The active profile calling a route, from the dashboard's Bearer session
+// token or an API client's X-API-Key header
+export async function authenticateCaller(supabase: SupabaseClient, req: VercelRequest): Promise<AuthResult> {
+  const authHeader = req.headers.authorization;
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+
+  let query;
+  if (authHeader?.startsWith('Bearer ')) {
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return { status: 401, error: 'Invalid token' };
+    }
+    query = supabase.from('profiles').select('*').eq('id', user.id);
+  } else if (apiKey) {
+    query = supabase.from('profiles').select('*').eq('api_key', apiKey);
+  } else {
+    return { status: 401, error: 'API key is required in X-API-Key header' };
+  }
+
+  const { data: profile, error: profileError } = await query.single();
+  if (profileError || !profile) {
+    return { status: 401, error: apiKey && !authHeader ? 'Invalid API key' : 'Invalid token' };
+  }
+
+  if (profile.status !== 'active') {
+    return { status: 403, error: 'Account is not active' };
+  }
+
+  return { profile: profile as CallerProfile };
+}
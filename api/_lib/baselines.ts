@@ -0,0 +1,52 @@
+// Shared baseline helpers for the API routes.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getDeviceType, isPdfJob, type JobDeviceOptions } from './diffs.js';
+
+interface BaselineJob {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  url: string;
+  status: string;
+  screenshot_url: string | null;
+  options: JobDeviceOptions | null;
+}
+
+// Validate that a job can become a baseline, returning an error message or null
+export function validateBaselineJob(job: BaselineJob): string | null {
+  if (!job.project_id) {
+    return 'Screenshot does not belong to a project';
+  }
+  if (job.status !== 'completed' || !job.screenshot_url) {
+    return 'Screenshot is not completed';
+  }
+  if (isPdfJob(job)) {
+    return 'PDF captures cannot be baselines';
+  }
+  return null;
+}
+
+// Make a screenshot the approved baseline for its project, URL and viewport,
+// replacing the previous baseline if there was one
+export async function setBaseline(supabase: SupabaseClient, job: BaselineJob) {
+  const { data: baseline, error } = await supabase
+    .from('screenshot_baselines')
+    .upsert(
+      {
+        user_id: job.user_id,
+        project_id: job.project_id,
+        url: job.url,
+        device_type: getDeviceType(job),
+        job_id: job.id,
+        approved_at: new Date().toISOString(),
+      },
+      { onConflict: 'project_id,url,device_type' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return baseline;
+}
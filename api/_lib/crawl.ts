@@ -0,0 +1,86 @@
+// Shared crawl job options for the API routes.
+
+export type CrawlEngine = 'auto' | 'screaming_frog' | 'native';
+
+export const CRAWL_ENGINES: CrawlEngine[] = ['auto', 'screaming_frog', 'native'];
+
+interface CrawlRules {
+  maxUrls: unknown;
+  crawlDepth: unknown;
+  includePatterns: unknown;
+  excludePatterns: unknown;
+}
+
+// Validate the crawler selection, returning an error message or null
+export function validateCrawlEngine(engine: unknown, render: unknown, rules: CrawlRules): string | null {
+  if (!CRAWL_ENGINES.includes(engine as CrawlEngine)) {
+    return `Crawl engine must be one of: ${CRAWL_ENGINES.join(', ')}`;
+  }
+  if (typeof render !== 'boolean') {
+    return 'render must be a boolean';
+  }
+  if (render && engine === 'screaming_frog') {
+    return 'render is only supported by the native crawl engine';
+  }
+  // The Screaming Frog CLI only reads crawl limits from a saved config
+  if (engine === 'screaming_frog' && hasCrawlRules(rules)) {
+    return 'Crawl rules other than the defaults are only supported by the native crawl engine';
+  }
+  return null;
+}
+
+export const MAX_CRAWL_URLS = 10000;
+export const MAX_CRAWL_DEPTH = 20;
+// The crawl_jobs column defaults; jobs keeping them have no crawl rules
+export const DEFAULT_CRAWL_MAX_URLS = 500;
+export const DEFAULT_CRAWL_DEPTH = 3;
+const MAX_CRAWL_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 500;
+
+function validatePatterns(patterns: unknown, field: string): string | null {
+  if (!Array.isArray(patterns) || !patterns.every((pattern) => typeof pattern === 'string')) {
+    return `${field} must be an array of strings`;
+  }
+  if (patterns.length > MAX_CRAWL_PATTERNS) {
+    return `${field} can have at most ${MAX_CRAWL_PATTERNS} patterns`;
+  }
+  for (const pattern of patterns) {
+    if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+      return `${field} patterns must be 1-${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `Invalid regular expression in ${field}: ${pattern}`;
+    }
+  }
+  return null;
+}
+
+// Whether a crawl sets limits or patterns other than the defaults, which only
+// the built-in crawler applies while crawling
+export function hasCrawlRules(rules: CrawlRules): boolean {
+  return rules.maxUrls !== DEFAULT_CRAWL_MAX_URLS
+    || rules.crawlDepth !== DEFAULT_CRAWL_DEPTH
+    || (Array.isArray(rules.includePatterns) && rules.includePatterns.length > 0)
+    || (Array.isArray(rules.excludePatterns) && rules.excludePatterns.length > 0);
+}
+
+// Source recorded on the sitemap job a crawl fills in. The worker corrects it
+// if an 'auto' job ends up on the built-in crawler, e.g. for a login flow.
+export function crawlSource(engine: CrawlEngine, render: boolean, rules: CrawlRules): 'crawler' | 'screaming_frog' {
+  return engine === 'native' || render || hasCrawlRules(rules) ? 'crawler' : 'screaming_frog';
+}
+
+// Validate the crawl limits and URL patterns, returning an error message or null
+export function validateCrawlRules(rules: CrawlRules): string | null {
+  const { maxUrls, crawlDepth } = rules;
+  if (typeof maxUrls !== 'number' || !Number.isInteger(maxUrls) || maxUrls < 1 || maxUrls > MAX_CRAWL_URLS) {
+    return `maxUrls must be an integer between 1 and ${MAX_CRAWL_URLS}`;
+  }
+  if (typeof crawlDepth !== 'number' || !Number.isInteger(crawlDepth) || crawlDepth < 0 || crawlDepth > MAX_CRAWL_DEPTH) {
+    return `crawlDepth must be an integer between 0 and ${MAX_CRAWL_DEPTH}`;
+  }
+  return validatePatterns(rules.includePatterns, 'includePatterns')
+    || validatePatterns(rules.excludePatterns, 'excludePatterns');
+}
@@ -0,0 +1,163 @@
+// Encrypted capture credentials for password-protected sites.
+//
+// Cookies, extra headers and basic auth are encrypted with AES-256-GCM under
+// CREDENTIALS_KEY (32 bytes, base64) and kept in capture_credentials, which
+// only the service role can read. Jobs and projects refer to a row by id, so
+// secrets never appear in job rows, API responses or the realtime feed; the
+// worker decrypts them with the same key (worker/capture-auth.js).
+
+import { createCipheriv, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface CaptureCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+}
+
+export interface BasicAuth {
+  username: string;
+  password: string;
+}
+
+export interface CaptureCredentials {
+  cookies?: CaptureCookie[];
+  extraHeaders?: Record<string, string>;
+  basicAuth?: BasicAuth;
+}
+
+// What can be shown back to the user: names only, never values
+export interface CredentialsSummary {
+  cookies: string[];
+  headers: string[];
+  basicAuth: boolean;
+}
+
+const MAX_COOKIES = 50;
+const MAX_HEADERS = 20;
+const MAX_VALUE_LENGTH = 4096;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+// Set by the browser for each request
+const RESERVED_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding'];
+
+function isShortString(value: unknown, maxLength = MAX_VALUE_LENGTH): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+// Pick the credential fields out of a request's screenshot options
+export function extractCredentials(options: CaptureCredentials = {}): CaptureCredentials | null {
+  const credentials: CaptureCredentials = {};
+  if (options.cookies?.length) credentials.cookies = options.cookies;
+  if (options.extraHeaders && Object.keys(options.extraHeaders).length > 0) {
+    credentials.extraHeaders = options.extraHeaders;
+  }
+  if (options.basicAuth) credentials.basicAuth = options.basicAuth;
+
+  return Object.keys(credentials).length > 0 ? credentials : null;
+}
+
+// Validate credential fields, returning an error message or null
+export function validateCredentials(credentials: unknown): string | null {
+  if (typeof credentials !== 'object' || credentials === null || Array.isArray(credentials)) {
+    return 'credentials must be an object';
+  }
+
+  const { cookies, extraHeaders, basicAuth } = credentials as CaptureCredentials;
+
+  if (cookies !== undefined) {
+    if (!Array.isArray(cookies) || cookies.length > MAX_COOKIES) {
+      return `cookies must be an array of at most ${MAX_COOKIES} cookies`;
+    }
+    for (const [index, cookie] of cookies.entries()) {
+      if (
+        typeof cookie !== 'object' ||
+        cookie === null ||
+        !isShortString(cookie.name) ||
+        cookie.name.trim() === '' ||
+        !isShortString(cookie.value) ||
+        (cookie.domain !== undefined && !isShortString(cookie.domain, 253)) ||
+        (cookie.path !== undefined && !isShortString(cookie.path))
+      ) {
+        return `cookies[${index}] must have a name and value, and optionally a domain and path`;
+      }
+    }
+  }
+
+  if (extraHeaders !== undefined) {
+    if (typeof extraHeaders !== 'object' || extraHeaders === null || Array.isArray(extraHeaders)) {
+      return 'extraHeaders must be an object of header names to values';
+    }
+    const entries = Object.entries(extraHeaders);
+    if (entries.length > MAX_HEADERS) {
+      return `extraHeaders can have at most ${MAX_HEADERS} headers`;
+    }
+    for (const [name, value] of entries) {
+      if (!HEADER_NAME_PATTERN.test(name) || RESERVED_HEADERS.includes(name.toLowerCase())) {
+        return `extraHeaders: "${name}" is not a header that can be set`;
+      }
+      if (!isShortString(value) || /[\r\n]/.test(value)) {
+        return `extraHeaders: the value of "${name}" must be a single-line string`;
+      }
+    }
+  }
+
+  if (basicAuth !== undefined) {
+    if (
+      typeof basicAuth !== 'object' ||
+      basicAuth === null ||
+      !isShortString(basicAuth.username, 256) ||
+      basicAuth.username === '' ||
+      basicAuth.username.includes(':') ||
+      !isShortString(basicAuth.password, 256)
+    ) {
+      return 'basicAuth must have a username (without ":") and a password';
+    }
+  }
+
+  return null;
+}
+
+export function summarizeCredentials(credentials: CaptureCredentials): CredentialsSummary {
+  return {
+    cookies: (credentials.cookies || []).map((cookie) => cookie.name),
+    headers: Object.keys(credentials.extraHeaders || {}),
+    basicAuth: Boolean(credentials.basicAuth),
+  };
+}
+
+function getKey(): Buffer {
+  const key = Buffer.from(process.env.CREDENTIALS_KEY || '', 'base64');
+  if (key.length !== 32) {
+    throw new Error('CREDENTIALS_KEY must be set to 32 bytes, base64 encoded, to store capture credentials');
+  }
+  return key;
+}
+
+// Encrypt a JSON value as "iv:tag:ciphertext", each base64
+export function encryptSecret(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+// Store a request's credentials for its jobs, returning the row id
+export async function saveJobCredentials(
+  supabase: SupabaseClient,
+  userId: string,
+  credentials: CaptureCredentials
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('capture_credentials')
+    .insert({
+      user_id: userId,
+      credentials: encryptSecret(credentials),
+      summary: summarizeCredentials(credentials),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
@@ -0,0 +1,142 @@
+// Device emulation profiles for screenshot jobs.
+//
+// A job's deviceType picks a profile; its viewport (with pixel ratio, mobile
+// and touch flags) and user agent are resolved here and stored on the job, so
+// the worker captures exactly what the job records. 'custom' takes the size
+// and pixel ratio from the request's viewport, with desktop defaults.
+
+export interface DeviceViewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+export interface DeviceProfile extends DeviceViewport {
+  label: string;
+  category: 'desktop' | 'phone' | 'tablet';
+  userAgent: string;
+}
+
+// Viewport sent with a request; unset fields come from the device profile
+export interface ViewportInput {
+  width?: number;
+  height?: number;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+}
+
+const CHROME_WINDOWS_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_MAC_UA =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const IPHONE_UA =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPAD_UA =
+  'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const androidUa = (model: string) =>
+  `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36`;
+
+const desktop = { deviceScaleFactor: 1, isMobile: false, hasTouch: false, category: 'desktop' } as const;
+const phone = { isMobile: true, hasTouch: true, category: 'phone' } as const;
+const tablet = { isMobile: true, hasTouch: true, category: 'tablet' } as const;
+
+export const DEVICE_PROFILES = {
+  desktop: { ...desktop, label: 'Desktop', width: 1920, height: 1080, userAgent: CHROME_WINDOWS_UA },
+  laptop: { ...desktop, label: 'Laptop', width: 1440, height: 900, deviceScaleFactor: 2, userAgent: CHROME_MAC_UA },
+  // Generic sizes kept from before the catalogue
+  tablet: { ...tablet, label: 'Tablet', width: 768, height: 1024, deviceScaleFactor: 2, userAgent: IPAD_UA },
+  mobile: { ...phone, label: 'Mobile', width: 375, height: 667, deviceScaleFactor: 2, userAgent: IPHONE_UA },
+  'iphone-se': { ...phone, label: 'iPhone SE', width: 375, height: 667, deviceScaleFactor: 2, userAgent: IPHONE_UA },
+  'iphone-15': { ...phone, label: 'iPhone 15', width: 393, height: 852, deviceScaleFactor: 3, userAgent: IPHONE_UA },
+  'iphone-15-pro-max': {
+    ...phone,
+    label: 'iPhone 15 Pro Max',
+    width: 430,
+    height: 932,
+    deviceScaleFactor: 3,
+    userAgent: IPHONE_UA,
+  },
+  'pixel-8': { ...phone, label: 'Pixel 8', width: 412, height: 915, deviceScaleFactor: 2.625, userAgent: androidUa('Pixel 8') },
+  'galaxy-s23': {
+    ...phone,
+    label: 'Galaxy S23',
+    width: 360,
+    height: 780,
+    deviceScaleFactor: 3,
+    userAgent: androidUa('SM-S911B'),
+  },
+  'ipad-air': { ...tablet, label: 'iPad Air', width: 820, height: 1180, deviceScaleFactor: 2, userAgent: IPAD_UA },
+  'ipad-pro-12': { ...tablet, label: 'iPad Pro 12.9"', width: 1024, height: 1366, deviceScaleFactor: 2, userAgent: IPAD_UA },
+} satisfies Record<string, DeviceProfile>;
+
+export type DeviceType = keyof typeof DEVICE_PROFILES | 'custom';
+
+const MIN_VIEWPORT_SIZE = 100;
+const MAX_VIEWPORT_SIZE = 4096;
+const MAX_DEVICE_SCALE_FACTOR = 4;
+const MAX_USER_AGENT_LENGTH = 500;
+
+export function isDeviceType(value: unknown): value is DeviceType {
+  return value === 'custom' || (typeof value === 'string' && Object.hasOwn(DEVICE_PROFILES, value));
+}
+
+// Validate deviceType, viewport and userAgent, returning an error message or null
+export function validateDevice(deviceType: unknown, viewport: unknown, userAgent: unknown): string | null {
+  if (deviceType !== undefined && !isDeviceType(deviceType)) {
+    return `deviceType must be one of ${[...Object.keys(DEVICE_PROFILES), 'custom'].join(', ')}`;
+  }
+
+  if (viewport !== undefined) {
+    if (typeof viewport !== 'object' || viewport === null || Array.isArray(viewport)) {
+      return 'viewport must be an object with width and height';
+    }
+    const { width, height, deviceScaleFactor, isMobile, hasTouch } = viewport as ViewportInput;
+    // Without a device type the viewport is a custom device and needs its size
+    const isCustom = deviceType === undefined || deviceType === 'custom';
+    for (const [name, value] of [['width', width], ['height', height]] as const) {
+      if (value === undefined && !isCustom) continue;
+      if (!Number.isInteger(value) || (value as number) < MIN_VIEWPORT_SIZE || (value as number) > MAX_VIEWPORT_SIZE) {
+        return `viewport ${name} must be an integer between ${MIN_VIEWPORT_SIZE} and ${MAX_VIEWPORT_SIZE}`;
+      }
+    }
+    if (
+      deviceScaleFactor !== undefined &&
+      (typeof deviceScaleFactor !== 'number' || !(deviceScaleFactor >= 1 && deviceScaleFactor <= MAX_DEVICE_SCALE_FACTOR))
+    ) {
+      return `viewport deviceScaleFactor must be between 1 and ${MAX_DEVICE_SCALE_FACTOR}`;
+    }
+    if ((isMobile !== undefined && typeof isMobile !== 'boolean') || (hasTouch !== undefined && typeof hasTouch !== 'boolean')) {
+      return 'viewport isMobile and hasTouch must be booleans';
+    }
+  } else if (deviceType === 'custom') {
+    return 'deviceType custom requires a viewport with width and height';
+  }
+
+  if (userAgent !== undefined && (typeof userAgent !== 'string' || userAgent.trim() === '' || userAgent.length > MAX_USER_AGENT_LENGTH)) {
+    return `userAgent must be a string of at most ${MAX_USER_AGENT_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+// The device type, emulated viewport and user agent stored on a job.
+// A viewport without a device type is a custom device.
+export function resolveDevice(deviceType: DeviceType | undefined, viewport?: ViewportInput, userAgent?: string) {
+  const type: DeviceType = deviceType ?? (viewport ? 'custom' : 'desktop');
+  const profile: DeviceProfile = type === 'custom' ? DEVICE_PROFILES.desktop : DEVICE_PROFILES[type];
+
+  return {
+    deviceType: type,
+    viewport: {
+      width: viewport?.width ?? profile.width,
+      height: viewport?.height ?? profile.height,
+      deviceScaleFactor: viewport?.deviceScaleFactor ?? profile.deviceScaleFactor,
+      isMobile: viewport?.isMobile ?? profile.isMobile,
+      hasTouch: viewport?.hasTouch ?? profile.hasTouch,
+    },
+    userAgent: userAgent ?? profile.userAgent,
+  };
+}
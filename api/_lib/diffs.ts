@@ -0,0 +1,154 @@
+// Shared visual diff helpers for the API routes.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+
+const LOOKUP_CHUNK_SIZE = 100;
+
+interface DiffJob {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  url: string;
+  status: string;
+  screenshot_url: string | null;
+  options: JobDeviceOptions | null;
+  created_at: string;
+}
+
+export interface JobDeviceOptions {
+  deviceType?: string;
+  viewport?: { width: number; height: number; deviceScaleFactor?: number };
+  format?: string;
+}
+
+// PDF captures have no pixels to compare, so they are never diffed or baselines
+export function isPdfJob(job: { options: JobDeviceOptions | null }): boolean {
+  return job.options?.format === 'pdf';
+}
+
+// Captures are compared per device; custom devices also by size and pixel ratio
+export function getDeviceType(job: { options: JobDeviceOptions | null }): string {
+  const deviceType = job.options?.deviceType || 'desktop';
+  const viewport = job.options?.viewport;
+  if (deviceType === 'custom' && viewport) {
+    return `custom-${viewport.width}x${viewport.height}@${viewport.deviceScaleFactor ?? 1}x`;
+  }
+  return deviceType;
+}
+
+// Validate a per-pixel threshold, returning an error message or null
+export function validateDiffThreshold(threshold: unknown): string | null {
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+    return 'threshold must be a number between 0 and 1';
+  }
+  return null;
+}
+
+// Two jobs can be compared once both have a screenshot of the same URL and viewport
+export function validateDiffPair(baseJob: DiffJob, compareJob: DiffJob): string | null {
+  if (baseJob.id === compareJob.id) {
+    return 'Cannot compare a screenshot with itself';
+  }
+  if (baseJob.status !== 'completed' || !baseJob.screenshot_url) {
+    return 'Base screenshot is not completed';
+  }
+  if (compareJob.status !== 'completed' || !compareJob.screenshot_url) {
+    return 'Compare screenshot is not completed';
+  }
+  if (baseJob.url !== compareJob.url) {
+    return 'Screenshots are of different URLs';
+  }
+  if (getDeviceType(baseJob) !== getDeviceType(compareJob)) {
+    return 'Screenshots use different viewports';
+  }
+  if (isPdfJob(baseJob) || isPdfJob(compareJob)) {
+    return 'PDF captures cannot be compared';
+  }
+  return null;
+}
+
+// Most recent completed capture of the same URL and viewport taken before `job`
+export async function findPreviousJob<T extends DiffJob>(supabase: SupabaseClient, job: T): Promise<T | null> {
+  const { data: jobs, error } = await supabase
+    .from('screenshot_jobs')
+    .select('*')
+    .eq('user_id', job.user_id)
+    .eq('url', job.url)
+    .eq('status', 'completed')
+    .lt('created_at', job.created_at)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+
+  return ((jobs || []) as T[]).find(
+    (candidate) => candidate.screenshot_url && !isPdfJob(candidate) && getDeviceType(candidate) === getDeviceType(job)
+  ) ?? null;
+}
+
+// Queue diffs for the given pairs. Pairs already diffed at the same threshold
+// keep their existing row, so re-running a comparison is free.
+export async function queueDiffs(
+  supabase: SupabaseClient,
+  pairs: { baseJob: DiffJob; compareJob: DiffJob }[],
+  threshold: number = DEFAULT_DIFF_THRESHOLD
+) {
+  if (pairs.length === 0) return [];
+
+  const { error } = await supabase
+    .from('screenshot_diffs')
+    .upsert(
+      pairs.map(({ baseJob, compareJob }) => ({
+        user_id: compareJob.user_id,
+        project_id: compareJob.project_id,
+        base_job_id: baseJob.id,
+        compare_job_id: compareJob.id,
+        url: compareJob.url,
+        device_type: getDeviceType(compareJob),
+        threshold,
+        status: 'pending',
+      })),
+      { onConflict: 'base_job_id,compare_job_id,threshold', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+
+  // Read the rows back in chunks to keep the request URL short
+  const compareJobIds = [...new Set(pairs.map(({ compareJob }) => compareJob.id))];
+  const diffs = [];
+  for (let i = 0; i < compareJobIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error: fetchError } = await supabase
+      .from('screenshot_diffs')
+      .select('*')
+      .in('compare_job_id', compareJobIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .eq('threshold', threshold);
+
+    if (fetchError) throw fetchError;
+    diffs.push(...(data || []));
+  }
+
+  // The lookup above can also match other base jobs for the same compare job
+  const wanted = new Set(pairs.map(({ baseJob, compareJob }) => `${baseJob.id}:${compareJob.id}`));
+  const queued = diffs.filter((diff) => wanted.has(`${diff.base_job_id}:${diff.compare_job_id}`));
+
+  // Failed diffs are retried when the comparison is requested again
+  const failedIds = queued.filter((diff) => diff.status === 'failed').map((diff) => diff.id);
+  if (failedIds.length > 0) {
+    const { error: retryError } = await supabase
+      .from('screenshot_diffs')
+      .update({ status: 'pending', error_message: null, started_at: null, completed_at: null })
+      .in('id', failedIds);
+
+    if (retryError) throw retryError;
+
+    for (const diff of queued) {
+      if (failedIds.includes(diff.id)) {
+        Object.assign(diff, { status: 'pending', error_message: null, started_at: null, completed_at: null });
+      }
+    }
+  }
+
+  return queued;
+}
@@ -0,0 +1,116 @@
+// Shared pause/resume/cancel helpers for the API routes.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type JobAction = 'pause' | 'resume' | 'cancel' | 'retry';
+
+const JOB_ACTIONS: JobAction[] = ['pause', 'resume', 'cancel', 'retry'];
+
+type JobType = 'screenshot' | 'crawl' | 'sitemap';
+
+// Statuses each action applies to, and the status it sets. Screenshots that
+// are already capturing are left to finish when a run is paused. Only
+// screenshots can be retried; a failed crawl is started again from the Generator.
+const TRANSITIONS: Record<JobType, Record<JobAction, { from: string[]; to: string }>> = {
+  screenshot: {
+    pause: { from: ['pending'], to: 'paused' },
+    resume: { from: ['paused'], to: 'pending' },
+    cancel: { from: ['pending', 'processing', 'paused'], to: 'cancelled' },
+    retry: { from: ['failed'], to: 'pending' },
+  },
+  // The crawl worker stops a running crawl that is paused or cancelled
+  crawl: {
+    pause: { from: ['pending', 'processing'], to: 'paused' },
+    resume: { from: ['paused'], to: 'pending' },
+    cancel: { from: ['pending', 'processing', 'paused'], to: 'cancelled' },
+    retry: { from: [], to: 'pending' },
+  },
+  // A sitemap job is only unfinished while it waits for its crawl
+  sitemap: {
+    pause: { from: ['pending', 'processing'], to: 'paused' },
+    resume: { from: ['paused'], to: 'processing' },
+    cancel: { from: ['pending', 'processing', 'paused'], to: 'cancelled' },
+    retry: { from: [], to: 'processing' },
+  },
+};
+
+export const ACTION_LABELS: Record<JobAction, string> = {
+  pause: 'paused',
+  resume: 'resumed',
+  cancel: 'cancelled',
+  retry: 'retried',
+};
+
+// Validate a job action, returning an error message or null
+export function validateJobAction(action: unknown): string | null {
+  if (!JOB_ACTIONS.includes(action as JobAction)) {
+    return 'action must be "pause", "resume", "cancel" or "retry"';
+  }
+  return null;
+}
+
+const TABLES: Record<JobType, string> = {
+  screenshot: 'screenshot_jobs',
+  crawl: 'crawl_jobs',
+  sitemap: 'sitemap_jobs',
+};
+
+async function transition(
+  supabase: SupabaseClient,
+  type: JobType,
+  column: string,
+  value: string,
+  action: JobAction
+): Promise<number> {
+  const { from, to } = TRANSITIONS[type][action];
+  if (from.length === 0) return 0;
+
+  // Resumed jobs start with a fresh attempt count; sitemap jobs have none
+  const updates: Record<string, unknown> = { status: to };
+  if (to === 'cancelled') updates.completed_at = new Date().toISOString();
+  if (to === 'pending') updates.attempts = 0;
+  // Retried screenshots start over without their last error or backoff
+  if (action === 'retry') {
+    Object.assign(updates, {
+      error_message: null,
+      error_code: null,
+      action_results: [],
+      next_attempt_at: null,
+      completed_at: null,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES[type])
+    .update(updates)
+    .eq(column, value)
+    .in('status', from)
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+// Apply an action to the screenshot jobs of a run, returning how many changed
+export function controlBatch(supabase: SupabaseClient, batchId: string, action: JobAction) {
+  return transition(supabase, 'screenshot', 'batch_id', batchId, action);
+}
+
+// Apply an action to a crawl job and the sitemap job waiting on it
+export async function controlCrawl(
+  supabase: SupabaseClient,
+  crawlJob: { id: string; sitemap_job_id: string | null },
+  action: JobAction
+): Promise<number> {
+  const updated = await transition(supabase, 'crawl', 'id', crawlJob.id, action);
+  if (updated > 0 && crawlJob.sitemap_job_id) {
+    await transition(supabase, 'sitemap', 'id', crawlJob.sitemap_job_id, action);
+  }
+  return updated;
+}
+
+// Apply an action to a sitemap job and the crawl it is waiting on
+export async function controlSitemap(supabase: SupabaseClient, sitemapJobId: string, action: JobAction): Promise<number> {
+  await transition(supabase, 'crawl', 'sitemap_job_id', sitemapJobId, action);
+  return transition(supabase, 'sitemap', 'id', sitemapJobId, action);
+}
@@ -0,0 +1,90 @@
+// Saved login flows for capturing pages behind a login form.
+//
+// A project's login flow is a recipe the workers follow to sign in: open
+// login_url, type the username and password into their fields, submit, and
+// wait for success_selector. The selectors are returned to the user for
+// editing; the username and password are encrypted (see credentials.ts) and
+// write-only. The session cookies the workers cache after logging in are
+// encrypted the same way.
+
+export interface LoginFlowInput {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  // Omitted to press Enter in the password field
+  submitSelector?: string | null;
+  successSelector: string;
+  // Required when the flow is first saved, kept when omitted later
+  username?: string;
+  password?: string;
+}
+
+export interface LoginFlowRow {
+  login_url: string;
+  username_selector: string;
+  password_selector: string;
+  submit_selector: string | null;
+  success_selector: string;
+  session_updated_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+const MAX_SELECTOR_LENGTH = 500;
+const MAX_SECRET_LENGTH = 256;
+
+function isSelector(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && value.length <= MAX_SELECTOR_LENGTH;
+}
+
+// Validate a login flow, returning an error message or null
+export function validateLoginFlow(input: unknown, { requireSecrets }: { requireSecrets: boolean }): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Login flow must be an object';
+  }
+
+  const flow = input as Partial<LoginFlowInput>;
+
+  try {
+    const parsed = new URL(flow.loginUrl as string);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error();
+  } catch {
+    return 'loginUrl must be a valid http(s) URL';
+  }
+
+  for (const field of ['usernameSelector', 'passwordSelector', 'successSelector'] as const) {
+    if (!isSelector(flow[field])) {
+      return `${field} must be a CSS selector of at most ${MAX_SELECTOR_LENGTH} characters`;
+    }
+  }
+
+  if (flow.submitSelector !== undefined && flow.submitSelector !== null && !isSelector(flow.submitSelector)) {
+    return `submitSelector must be a CSS selector of at most ${MAX_SELECTOR_LENGTH} characters`;
+  }
+
+  const hasSecrets = flow.username !== undefined || flow.password !== undefined;
+  if (requireSecrets || hasSecrets) {
+    if (typeof flow.username !== 'string' || flow.username === '' || flow.username.length > MAX_SECRET_LENGTH) {
+      return `username is required, at most ${MAX_SECRET_LENGTH} characters`;
+    }
+    if (typeof flow.password !== 'string' || flow.password.length > MAX_SECRET_LENGTH) {
+      return `password is required, at most ${MAX_SECRET_LENGTH} characters`;
+    }
+  }
+
+  return null;
+}
+
+// Shape a stored flow for the API, without secrets or the session itself
+export function formatLoginFlow(row: LoginFlowRow) {
+  return {
+    loginUrl: row.login_url,
+    usernameSelector: row.username_selector,
+    passwordSelector: row.password_selector,
+    submitSelector: row.submit_selector,
+    successSelector: row.success_selector,
+    sessionUpdatedAt: row.session_updated_at,
+    lastError: row.last_error,
+    updatedAt: row.updated_at,
+  };
+}
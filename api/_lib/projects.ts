@@ -0,0 +1,73 @@
+// Shared project lookup for the API routes.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// Reduce a domain or URL to the hostname a project is keyed on (no www.)
+export function normalizeProjectDomain(input: string): string | null {
+  try {
+    const trimmed = input.trim();
+    const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.hostname.replace(/^www\./, '').toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+// Resolve the project a new job belongs to. An explicit projectId must belong
+// to the user; otherwise the most recently updated project for the URL's
+// domain is used, and one is created if the user has none yet.
+export async function resolveProjectId(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: unknown,
+  url: string
+): Promise<{ projectId: string | null; error?: string }> {
+  if (projectId !== undefined && projectId !== null) {
+    if (!isUuid(projectId)) {
+      return { projectId: null, error: 'Project not found' };
+    }
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return project ? { projectId: project.id } : { projectId: null, error: 'Project not found' };
+  }
+
+  const domain = normalizeProjectDomain(url);
+  if (!domain) {
+    return { projectId: null };
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('domain', domain)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+  if (existing) {
+    return { projectId: existing.id };
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('projects')
+    .insert({ user_id: userId, name: domain, domain })
+    .select('id')
+    .single();
+
+  if (createError) throw createError;
+  return { projectId: created.id };
+}
@@ -0,0 +1,63 @@
+// Shared schedule validation for the API routes.
+
+import { CronExpressionParser } from 'cron-parser';
+
+export const MAX_SCHEDULE_URLS = 500;
+
+// Schedules may not fire more often than this
+const MIN_SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Next time the cron expression fires in the given timezone, as an ISO string
+export function getNextRunAt(cronExpression: string, timezone: string, from: Date = new Date()): string {
+  return CronExpressionParser.parse(cronExpression, { tz: timezone, currentDate: from })
+    .next()
+    .toDate()
+    .toISOString();
+}
+
+// Validate a cron expression, returning an error message or null
+export function validateCronExpression(cronExpression: unknown, timezone: string): string | null {
+  if (typeof cronExpression !== 'string' || cronExpression.trim().split(/\s+/).length !== 5) {
+    return 'cronExpression must have five fields (minute hour day month weekday)';
+  }
+
+  try {
+    const interval = CronExpressionParser.parse(cronExpression, { tz: timezone });
+    const first = interval.next().getTime();
+    const second = interval.next().getTime();
+    if (second - first < MIN_SCHEDULE_INTERVAL_MS) {
+      return 'Schedules can run at most once per hour';
+    }
+    return null;
+  } catch (error) {
+    return `Invalid cron expression: ${(error as Error).message}`;
+  }
+}
+
+// Validate a saved URL list, returning an error message or null
+export function validateScheduleUrls(urls: unknown): string | null {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return 'urls must be a non-empty array when urlMode is "saved"';
+  }
+  if (urls.length > MAX_SCHEDULE_URLS) {
+    return `Maximum ${MAX_SCHEDULE_URLS} URLs per schedule`;
+  }
+  for (const [index, url] of urls.entries()) {
+    try {
+      new URL(url);
+    } catch {
+      return `Invalid URL format at index ${index}`;
+    }
+  }
+  return null;
+}
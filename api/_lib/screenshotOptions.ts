@@ -0,0 +1,362 @@
+// Shared screenshot option handling for the API routes.
+
+import { validateCredentials, type BasicAuth, type CaptureCookie } from './credentials.js';
+import { resolveDevice, validateDevice, type DeviceType, type ViewportInput } from './devices.js';
+
+export interface ScreenshotOptions {
+  fullPage?: boolean;
+  scrollPage?: boolean;
+  fresh?: boolean;
+  noAds?: boolean;
+  noCookies?: boolean;
+  // Overrides the device's size, pixel ratio or flags; required for 'custom'
+  viewport?: ViewportInput;
+  // A profile from devices.ts, or 'custom'
+  deviceType?: DeviceType;
+  // Overrides the device's user agent
+  userAgent?: string;
+  // Capture on several devices, one job each; instead of deviceType and viewport
+  deviceTypes?: DeviceType[];
+  viewports?: ViewportInput[];
+  delay?: number;
+  format?: 'png' | 'jpeg' | 'pdf';
+  quality?: number;
+  // Page setup for the pdf format
+  pdf?: PdfOptions;
+  // Capture one element's bounding box
+  selector?: string;
+  // Capture every matching element, one image each
+  selectorAll?: string;
+  // Pixels added around a selector's bounding box
+  padding?: number;
+  // Capture a fixed region of the page, in page coordinates
+  clip?: ClipRegion;
+  // Stylesheet added to the page before capture
+  injectCss?: string;
+  // Script run in the page before capture, awaited if it returns a promise
+  injectJs?: string;
+  // Elements hidden before capture, e.g. chat widgets
+  hideSelectors?: string[];
+  // Interactions run in order before capture
+  actions?: ScreenshotAction[];
+  // Credentials for protected pages; stored encrypted, never kept in options
+  cookies?: CaptureCookie[];
+  extraHeaders?: Record<string, string>;
+  basicAuth?: BasicAuth;
+}
+
+export type ScreenshotAction =
+  | { type: 'click'; selector: string; timeout?: number }
+  | { type: 'type'; selector: string; text: string; timeout?: number }
+  | { type: 'press'; key: string }
+  | { type: 'hover'; selector: string; timeout?: number }
+  | { type: 'scrollTo'; selector: string; timeout?: number }
+  | { type: 'waitForSelector'; selector: string; timeout?: number }
+  | { type: 'waitForNetworkIdle'; timeout?: number }
+  | { type: 'wait'; ms: number };
+
+export type PaperSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
+
+export interface PdfOptions {
+  paperSize?: PaperSize;
+  landscape?: boolean;
+  // CSS lengths such as '10mm' or '0.5in'
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  printBackground?: boolean;
+  // Render with the page's screen styles, or its print stylesheet
+  media?: 'screen' | 'print';
+}
+
+export interface ClipRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MAX_SELECTOR_LENGTH = 500;
+const MAX_PADDING = 500;
+// Chromium cannot capture images larger than this in either dimension
+const MAX_CLIP_SIZE = 16384;
+const MAX_INJECT_CSS_LENGTH = 50_000;
+const MAX_INJECT_JS_LENGTH = 20_000;
+const MAX_HIDE_SELECTORS = 50;
+const MAX_ACTIONS = 20;
+const MAX_ACTION_TEXT_LENGTH = 1000;
+const MAX_ACTION_KEY_LENGTH = 50;
+// Longest a single action may wait, in milliseconds
+const MAX_ACTION_WAIT = 30_000;
+const MAX_DEVICES = 6;
+
+const FORMATS = ['png', 'jpeg', 'pdf'];
+const PAPER_SIZES: PaperSize[] = ['A3', 'A4', 'A5', 'Letter', 'Legal', 'Tabloid'];
+const MARGIN_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+// A CSS length in a unit Chromium's print settings accept
+const MARGIN_PATTERN = /^\d+(\.\d+)?(px|in|cm|mm)?$/;
+
+const SELECTOR_ACTIONS = ['click', 'type', 'hover', 'scrollTo', 'waitForSelector'];
+const ACTION_TYPES = [...SELECTOR_ACTIONS, 'press', 'waitForNetworkIdle', 'wait'];
+
+// Apply defaults and resolve the device, producing the options stored on the job
+export function resolveScreenshotOptions(options: ScreenshotOptions = {}) {
+  return {
+    fullPage: options.fullPage ?? true,
+    scrollPage: options.scrollPage ?? false,
+    fresh: options.fresh ?? false,
+    noAds: options.noAds ?? false,
+    noCookies: options.noCookies ?? false,
+    ...resolveDevice(options.deviceType, options.viewport, options.userAgent),
+    delay: options.delay ?? 2,
+    format: options.format ?? 'png',
+    quality: options.quality ?? 90,
+    ...(options.format === 'pdf' ? { pdf: resolvePdfOptions(options.pdf) } : {}),
+    // Region options are only stored when set
+    ...(options.selector ? { selector: options.selector } : {}),
+    ...(options.selectorAll ? { selectorAll: options.selectorAll } : {}),
+    ...((options.selector || options.selectorAll) && options.padding ? { padding: options.padding } : {}),
+    ...(options.clip ? { clip: options.clip } : {}),
+    ...(options.injectCss ? { injectCss: options.injectCss } : {}),
+    ...(options.injectJs ? { injectJs: options.injectJs } : {}),
+    ...(options.hideSelectors?.length ? { hideSelectors: options.hideSelectors } : {}),
+    ...(options.actions?.length ? { actions: options.actions } : {}),
+  };
+}
+
+function resolvePdfOptions(pdf: PdfOptions = {}) {
+  return {
+    paperSize: pdf.paperSize ?? 'A4',
+    landscape: pdf.landscape ?? false,
+    margin: {
+      top: pdf.margin?.top ?? '0',
+      right: pdf.margin?.right ?? '0',
+      bottom: pdf.margin?.bottom ?? '0',
+      left: pdf.margin?.left ?? '0',
+    },
+    printBackground: pdf.printBackground ?? true,
+    media: pdf.media ?? 'screen',
+  };
+}
+
+// Split options listing several devices into one set of options per device
+export function expandDevices(options: ScreenshotOptions = {}): ScreenshotOptions[] {
+  const { deviceTypes = [], viewports = [], ...rest } = options;
+  if (deviceTypes.length === 0 && viewports.length === 0) return [rest];
+
+  return [
+    ...deviceTypes.map((deviceType) => ({ ...rest, deviceType })),
+    ...viewports.map((viewport) => ({ ...rest, deviceType: 'custom' as const, viewport })),
+  ];
+}
+
+// Validate the device, output format, capture region, injection, action and credential options, returning an error message or null
+export function validateScreenshotOptions(options: unknown): string | null {
+  if (options === undefined || options === null) return null;
+  if (typeof options !== 'object' || Array.isArray(options)) {
+    return 'options must be an object';
+  }
+
+  const {
+    deviceType,
+    viewport,
+    userAgent,
+    deviceTypes,
+    viewports,
+    format,
+    pdf,
+    selector,
+    selectorAll,
+    padding,
+    clip,
+    injectCss,
+    injectJs,
+    hideSelectors,
+    actions,
+    cookies,
+    extraHeaders,
+    basicAuth,
+  } = options as ScreenshotOptions;
+
+  const deviceError = validateDevice(deviceType, viewport, userAgent);
+  if (deviceError) return deviceError;
+
+  if (deviceTypes !== undefined || viewports !== undefined) {
+    if (deviceType !== undefined || viewport !== undefined) {
+      return 'Use deviceType and viewport, or deviceTypes and viewports, not both';
+    }
+    if ((deviceTypes !== undefined && !Array.isArray(deviceTypes)) || (viewports !== undefined && !Array.isArray(viewports))) {
+      return 'deviceTypes and viewports must be arrays';
+    }
+    const count = (deviceTypes?.length ?? 0) + (viewports?.length ?? 0);
+    if (count === 0 || count > MAX_DEVICES) {
+      return `deviceTypes and viewports must list between 1 and ${MAX_DEVICES} devices`;
+    }
+    for (const [index, type] of (deviceTypes ?? []).entries()) {
+      if (type === 'custom') return `deviceTypes[${index}]: list custom sizes in viewports`;
+      const typeError = validateDevice(type, undefined, undefined);
+      if (typeError) return `deviceTypes[${index}]: ${typeError}`;
+    }
+    for (const [index, entry] of (viewports ?? []).entries()) {
+      const viewportError = validateDevice('custom', entry, undefined);
+      if (viewportError) return `viewports[${index}]: ${viewportError}`;
+    }
+  }
+
+  if (format !== undefined && !FORMATS.includes(format)) {
+    return `format must be one of ${FORMATS.join(', ')}`;
+  }
+
+  if (pdf !== undefined) {
+    if (format !== 'pdf') {
+      return 'pdf options require format pdf';
+    }
+    const pdfError = validatePdfOptions(pdf);
+    if (pdfError) return pdfError;
+  }
+
+  // A PDF prints the whole page
+  if (format === 'pdf' && (selector !== undefined || selectorAll !== undefined || clip !== undefined)) {
+    return 'selector, selectorAll and clip cannot be used with format pdf';
+  }
+
+  const regions = [selector, selectorAll, clip].filter((value) => value !== undefined);
+  if (regions.length > 1) {
+    return 'Only one of selector, selectorAll and clip can be set';
+  }
+
+  for (const [name, value] of [['selector', selector], ['selectorAll', selectorAll]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.trim() === '' || value.length > MAX_SELECTOR_LENGTH) {
+      return `${name} must be a CSS selector of at most ${MAX_SELECTOR_LENGTH} characters`;
+    }
+  }
+
+  if (padding !== undefined) {
+    if (selector === undefined && selectorAll === undefined) {
+      return 'padding requires selector or selectorAll';
+    }
+    if (!Number.isInteger(padding) || padding < 0 || padding > MAX_PADDING) {
+      return `padding must be an integer between 0 and ${MAX_PADDING}`;
+    }
+  }
+
+  if (clip !== undefined) {
+    if (typeof clip !== 'object' || clip === null) {
+      return 'clip must be an object with x, y, width and height';
+    }
+    const { x, y, width, height } = clip;
+    if (![x, y, width, height].every((value) => typeof value === 'number' && Number.isFinite(value))) {
+      return 'clip must be an object with numeric x, y, width and height';
+    }
+    if (x < 0 || y < 0) {
+      return 'clip x and y must not be negative';
+    }
+    if (width <= 0 || height <= 0 || width > MAX_CLIP_SIZE || height > MAX_CLIP_SIZE) {
+      return `clip width and height must be between 1 and ${MAX_CLIP_SIZE}`;
+    }
+  }
+
+  if (injectCss !== undefined && (typeof injectCss !== 'string' || injectCss.length > MAX_INJECT_CSS_LENGTH)) {
+    return `injectCss must be a string of at most ${MAX_INJECT_CSS_LENGTH} characters`;
+  }
+
+  if (injectJs !== undefined && (typeof injectJs !== 'string' || injectJs.length > MAX_INJECT_JS_LENGTH)) {
+    return `injectJs must be a string of at most ${MAX_INJECT_JS_LENGTH} characters`;
+  }
+
+  if (hideSelectors !== undefined) {
+    if (!Array.isArray(hideSelectors) || hideSelectors.length > MAX_HIDE_SELECTORS) {
+      return `hideSelectors must be an array of at most ${MAX_HIDE_SELECTORS} CSS selectors`;
+    }
+    const invalid = hideSelectors.find(
+      (value) => typeof value !== 'string' || value.trim() === '' || value.length > MAX_SELECTOR_LENGTH
+    );
+    if (invalid !== undefined) {
+      return `hideSelectors entries must be CSS selectors of at most ${MAX_SELECTOR_LENGTH} characters`;
+    }
+  }
+
+  if (actions !== undefined) {
+    if (!Array.isArray(actions) || actions.length > MAX_ACTIONS) {
+      return `actions must be an array of at most ${MAX_ACTIONS} steps`;
+    }
+    for (const [index, action] of actions.entries()) {
+      const actionError = validateAction(action);
+      if (actionError) {
+        return `actions[${index}]: ${actionError}`;
+      }
+    }
+  }
+
+  return validateCredentials({ cookies, extraHeaders, basicAuth });
+}
+
+// Validate the pdf page setup, returning an error message or null
+function validatePdfOptions(pdf: unknown): string | null {
+  if (typeof pdf !== 'object' || pdf === null || Array.isArray(pdf)) {
+    return 'pdf must be an object';
+  }
+  const { paperSize, landscape, margin, printBackground, media } = pdf as PdfOptions;
+
+  if (paperSize !== undefined && !PAPER_SIZES.includes(paperSize)) {
+    return `pdf paperSize must be one of ${PAPER_SIZES.join(', ')}`;
+  }
+
+  if ((landscape !== undefined && typeof landscape !== 'boolean') || (printBackground !== undefined && typeof printBackground !== 'boolean')) {
+    return 'pdf landscape and printBackground must be booleans';
+  }
+
+  if (margin !== undefined) {
+    if (typeof margin !== 'object' || margin === null || Array.isArray(margin)) {
+      return 'pdf margin must be an object with top, right, bottom and left';
+    }
+    for (const side of MARGIN_SIDES) {
+      const value = margin[side];
+      if (value !== undefined && (typeof value !== 'string' || !MARGIN_PATTERN.test(value))) {
+        return `pdf margin ${side} must be a length such as "10mm", "0.5in" or "20px"`;
+      }
+    }
+  }
+
+  if (media !== undefined && media !== 'screen' && media !== 'print') {
+    return 'pdf media must be screen or print';
+  }
+
+  return null;
+}
+
+// Validate one pre-capture action, returning an error message or null
+function validateAction(action: unknown): string | null {
+  if (typeof action !== 'object' || action === null) {
+    return 'must be an object';
+  }
+
+  const { type, selector, text, key, ms, timeout } = action as Record<string, unknown>;
+
+  if (typeof type !== 'string' || !ACTION_TYPES.includes(type)) {
+    return `type must be one of ${ACTION_TYPES.join(', ')}`;
+  }
+
+  if (SELECTOR_ACTIONS.includes(type)) {
+    if (typeof selector !== 'string' || selector.trim() === '' || selector.length > MAX_SELECTOR_LENGTH) {
+      return `selector must be a CSS selector of at most ${MAX_SELECTOR_LENGTH} characters`;
+    }
+  }
+
+  if (type === 'type' && (typeof text !== 'string' || text.length > MAX_ACTION_TEXT_LENGTH)) {
+    return `text must be a string of at most ${MAX_ACTION_TEXT_LENGTH} characters`;
+  }
+
+  if (type === 'press' && (typeof key !== 'string' || key === '' || key.length > MAX_ACTION_KEY_LENGTH)) {
+    return 'key must be a key name such as "Enter" or "Escape"';
+  }
+
+  if (type === 'wait' && (!Number.isInteger(ms) || (ms as number) < 0 || (ms as number) > MAX_ACTION_WAIT)) {
+    return `ms must be an integer between 0 and ${MAX_ACTION_WAIT}`;
+  }
+
+  if (timeout !== undefined && (!Number.isInteger(timeout) || (timeout as number) < 1 || (timeout as number) > MAX_ACTION_WAIT)) {
+    return `timeout must be an integer between 1 and ${MAX_ACTION_WAIT} milliseconds`;
+  }
+
+  return null;
+}
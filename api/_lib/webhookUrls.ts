@@ -0,0 +1,70 @@
+// Validation of the URLs webhooks are delivered to.
+//
+// Deliveries are signed POSTs sent from the workers, so endpoints and
+// callback URLs must be public: loopback, private, link-local and other
+// reserved addresses are rejected, whether given as an IP or resolved from a
+// hostname. worker/webhooks.js checks the address again before each delivery.
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not public
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Validate a webhook URL, returning an error message or null
+export async function validateWebhookUrl(url: unknown, name = 'url'): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url as string);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error();
+  } catch {
+    return `${name} must be a valid http(s) URL`;
+  }
+
+  // IPv6 hosts keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return `${name} must not point to a private address`;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `${name} host could not be resolved`;
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return `${name} must not point to a private address`;
+  }
+  return null;
+}
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify auth token
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { id } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Baseline not found' });
+    }
+
+    // Captures already waiting for review against this baseline keep their diff
+    const { data: deleted, error } = await supabase
+      .from('screenshot_baselines')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({ error: 'Baseline not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete baseline error:', error);
+    return res.status(500).json({
+      error: 'Failed to delete baseline',
+      message: (error as Error).message,
+    });
+  }
+}
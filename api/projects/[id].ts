@@ -0,0 +1,151 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid, normalizeProjectDomain } from '../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: project, error } = await supabase
+        .from('project_summaries')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      // Latest sitemap job carries the discovered URL list
+      const { data: sitemapJob, error: sitemapError } = await supabase
+        .from('sitemap_jobs')
+        .select('*')
+        .eq('project_id', id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (sitemapError) throw sitemapError;
+
+      return res.json({ project, sitemapJob });
+    } catch (error) {
+      console.error('Get project error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch project',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'PATCH') {
+    try {
+      const { name, domain, description, settings } = req.body;
+      const updates: Record<string, unknown> = {};
+
+      if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) {
+          return res.status(400).json({ error: 'name must be a non-empty string' });
+        }
+        updates.name = name.trim();
+      }
+
+      if (domain !== undefined) {
+        const normalizedDomain = typeof domain === 'string' ? normalizeProjectDomain(domain) : null;
+        if (!normalizedDomain) {
+          return res.status(400).json({ error: 'A valid domain is required' });
+        }
+        updates.domain = normalizedDomain;
+      }
+
+      if (description !== undefined) {
+        updates.description = typeof description === 'string' && description.trim() ? description.trim() : null;
+      }
+
+      if (settings !== undefined) {
+        if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+          return res.status(400).json({ error: 'settings must be an object' });
+        }
+        updates.settings = settings;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'No changes provided' });
+      }
+
+      const { data: project, error } = await supabase
+        .from('projects')
+        .update(updates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      return res.json({ project });
+    } catch (error) {
+      console.error('Update project error:', error);
+      return res.status(500).json({
+        error: 'Failed to update project',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      // Jobs are kept; their project_id is cleared by the foreign key
+      const { data: deleted, error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select('id');
+
+      if (error) throw error;
+
+      if (!deleted || deleted.length === 0) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Delete project error:', error);
+      return res.status(500).json({
+        error: 'Failed to delete project',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
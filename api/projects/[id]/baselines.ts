@@ -0,0 +1,100 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import { setBaseline, validateBaselineJob } from '../../_lib/baselines.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: baselines, error } = await supabase
+        .from('screenshot_baselines')
+        .select('*, job:screenshot_jobs!job_id(screenshot_url, created_at)')
+        .eq('project_id', id)
+        .order('url', { ascending: true });
+
+      if (error) throw error;
+
+      return res.json({ baselines: baselines || [] });
+    } catch (error) {
+      console.error('List baselines error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch baselines',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  // Approve a screenshot as the baseline for its URL and viewport
+  if (req.method === 'POST') {
+    try {
+      const { jobId } = req.body;
+      if (!isUuid(jobId)) {
+        return res.status(404).json({ error: 'Screenshot job not found' });
+      }
+
+      const { data: job, error: jobError } = await supabase
+        .from('screenshot_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (jobError) throw jobError;
+
+      if (!job) {
+        return res.status(404).json({ error: 'Screenshot job not found' });
+      }
+
+      const baselineError = validateBaselineJob(job);
+      if (baselineError) {
+        return res.status(400).json({ error: baselineError });
+      }
+
+      const baseline = await setBaseline(supabase, job);
+
+      return res.status(201).json({ baseline });
+    } catch (error) {
+      console.error('Set baseline error:', error);
+      return res.status(500).json({
+        error: 'Failed to set baseline',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import {
+  encryptSecret,
+  extractCredentials,
+  summarizeCredentials,
+  validateCredentials,
+} from '../../_lib/credentials.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Saved credentials are used by every capture in the project that brings none
+// of its own, including scheduled runs. Only their names are ever returned.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: saved, error } = await supabase
+        .from('capture_credentials')
+        .select('summary, updated_at')
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return res.json({
+        credentials: saved ? { ...saved.summary, updatedAt: saved.updated_at } : null,
+      });
+    } catch (error) {
+      console.error('Get project credentials error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch credentials',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'PUT') {
+    try {
+      const validationError = validateCredentials(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const credentials = extractCredentials(req.body);
+      if (!credentials) {
+        return res.status(400).json({ error: 'Provide cookies, extraHeaders or basicAuth' });
+      }
+
+      const summary = summarizeCredentials(credentials);
+      const { data: saved, error } = await supabase
+        .from('capture_credentials')
+        .upsert(
+          {
+            user_id: user.id,
+            project_id: id,
+            credentials: encryptSecret(credentials),
+            summary,
+          },
+          { onConflict: 'project_id' }
+        )
+        .select('updated_at')
+        .single();
+
+      if (error) throw error;
+
+      return res.json({ credentials: { ...summary, updatedAt: saved.updated_at } });
+    } catch (error) {
+      console.error('Save project credentials error:', error);
+      return res.status(500).json({
+        error: 'Failed to save credentials',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const { error } = await supabase
+        .from('capture_credentials')
+        .delete()
+        .eq('project_id', id);
+
+      if (error) throw error;
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Delete project credentials error:', error);
+      return res.status(500).json({
+        error: 'Failed to delete credentials',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
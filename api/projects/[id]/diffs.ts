@@ -0,0 +1,172 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import {
+  DEFAULT_DIFF_THRESHOLD,
+  getDeviceType,
+  isPdfJob,
+  queueDiffs,
+  validateDiffThreshold,
+} from '../../_lib/diffs.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface CompareRunRequest {
+  runId: string;
+  baseRunId?: string;
+  threshold?: number;
+}
+
+// Diffs whose compare screenshot belongs to the run
+async function getRunDiffs(projectId: string, runId: string) {
+  const { data: diffs, error } = await supabase
+    .from('screenshot_diffs')
+    // Empty embed: joins the compare job for filtering without returning it
+    .select('*, compare_job:screenshot_jobs!compare_job_id!inner()')
+    .eq('project_id', projectId)
+    .eq('compare_job.batch_id', runId)
+    .order('mismatch_percentage', { ascending: false, nullsFirst: false });
+
+  if (error) throw error;
+
+  return diffs || [];
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { runId } = req.query;
+      if (!isUuid(runId)) {
+        return res.status(400).json({ error: 'runId is required' });
+      }
+
+      return res.json({ diffs: await getRunDiffs(id, runId) });
+    } catch (error) {
+      console.error('List diffs error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch diffs',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  // Compare a run with the project's previous run (or baseRunId)
+  if (req.method === 'POST') {
+    try {
+      const { runId, baseRunId, threshold = DEFAULT_DIFF_THRESHOLD } = req.body as CompareRunRequest;
+
+      if (!isUuid(runId) || (baseRunId !== undefined && !isUuid(baseRunId))) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+
+      const thresholdError = validateDiffThreshold(threshold);
+      if (thresholdError) {
+        return res.status(400).json({ error: thresholdError });
+      }
+
+      const { data: run } = await supabase
+        .from('screenshot_batches')
+        .select('id, created_at')
+        .eq('id', runId)
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+
+      let baseRunQuery = supabase
+        .from('screenshot_batches')
+        .select('id')
+        .eq('project_id', id);
+
+      baseRunQuery = baseRunId
+        ? baseRunQuery.eq('id', baseRunId)
+        : baseRunQuery.lt('created_at', run.created_at).order('created_at', { ascending: false }).limit(1);
+
+      const { data: baseRuns, error: baseRunError } = await baseRunQuery;
+
+      if (baseRunError) throw baseRunError;
+
+      const baseRun = baseRuns?.[0];
+      if (!baseRun) {
+        return res.status(baseRunId ? 404 : 400).json({
+          error: baseRunId ? 'Run not found' : 'No previous run to compare with',
+        });
+      }
+
+      const { data: jobs, error: jobsError } = await supabase
+        .from('screenshot_jobs')
+        .select('*')
+        .in('batch_id', [run.id, baseRun.id])
+        .eq('status', 'completed')
+        .not('screenshot_url', 'is', null);
+
+      if (jobsError) throw jobsError;
+
+      // Pair screenshots of the same URL and viewport
+      const baseJobs = new Map();
+      const imageJobs = (jobs || []).filter((job) => !isPdfJob(job));
+      for (const job of imageJobs) {
+        if (job.batch_id === baseRun.id) {
+          baseJobs.set(`${job.url}|${getDeviceType(job)}`, job);
+        }
+      }
+
+      const pairs = imageJobs
+        .filter((job) => job.batch_id === run.id && baseJobs.has(`${job.url}|${getDeviceType(job)}`))
+        .map((compareJob) => ({ baseJob: baseJobs.get(`${compareJob.url}|${getDeviceType(compareJob)}`), compareJob }));
+
+      if (pairs.length === 0) {
+        return res.status(400).json({ error: 'The runs have no completed screenshots in common' });
+      }
+
+      await queueDiffs(supabase, pairs, threshold);
+
+      return res.status(201).json({
+        baseRunId: baseRun.id,
+        diffs: await getRunDiffs(id, run.id),
+      });
+    } catch (error) {
+      console.error('Compare runs error:', error);
+      return res.status(500).json({
+        error: 'Failed to compare runs',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
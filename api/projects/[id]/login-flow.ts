@@ -0,0 +1,141 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import { encryptSecret } from '../../_lib/credentials.js';
+import { formatLoginFlow, validateLoginFlow, type LoginFlowInput } from '../../_lib/loginFlows.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const LOGIN_FLOW_COLUMNS =
+  'login_url, username_selector, password_selector, submit_selector, success_selector, session_updated_at, last_error, updated_at';
+
+// A project's login flow is followed by the workers before capturing or
+// crawling its pages. The username and password are never returned.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: flow, error } = await supabase
+        .from('project_login_flows')
+        .select(LOGIN_FLOW_COLUMNS)
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return res.json({ loginFlow: flow ? formatLoginFlow(flow) : null });
+    } catch (error) {
+      console.error('Get login flow error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch login flow',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'PUT') {
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('project_login_flows')
+        .select('project_id')
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      // The username and password can be left out to keep the saved ones
+      const validationError = validateLoginFlow(req.body, { requireSecrets: !existing });
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const input = req.body as LoginFlowInput;
+      const row: Record<string, unknown> = {
+        project_id: id,
+        user_id: user.id,
+        login_url: input.loginUrl,
+        username_selector: input.usernameSelector,
+        password_selector: input.passwordSelector,
+        submit_selector: input.submitSelector || null,
+        success_selector: input.successSelector,
+        // A changed flow logs in again
+        session: null,
+        session_updated_at: null,
+        last_error: null,
+      };
+      if (input.username !== undefined) {
+        row.secrets = encryptSecret({ username: input.username, password: input.password });
+      }
+
+      // Updated in place so a flow saved without secrets keeps them
+      const { data: flow, error } = await (existing
+        ? supabase.from('project_login_flows').update(row).eq('project_id', id)
+        : supabase.from('project_login_flows').insert(row)
+      )
+        .select(LOGIN_FLOW_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      return res.json({ loginFlow: formatLoginFlow(flow) });
+    } catch (error) {
+      console.error('Save login flow error:', error);
+      return res.status(500).json({
+        error: 'Failed to save login flow',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const { error } = await supabase
+        .from('project_login_flows')
+        .delete()
+        .eq('project_id', id);
+
+      if (error) throw error;
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Delete login flow error:', error);
+      return res.status(500).json({
+        error: 'Failed to delete login flow',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,79 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify auth token
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { id } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (projectError) throw projectError;
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+    const from = (page - 1) * pageSize;
+
+    const { data: runs, count, error } = await supabase
+      .from('screenshot_runs')
+      .select('*', { count: 'exact' })
+      .eq('project_id', id)
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    return res.json({
+      runs: runs || [],
+      total: count ?? 0,
+      page,
+      pageSize,
+    });
+  } catch (error) {
+    console.error('List project runs error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch project runs',
+      message: (error as Error).message,
+    });
+  }
+}
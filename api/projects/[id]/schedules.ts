@@ -0,0 +1,171 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import { resolveScreenshotOptions, validateScreenshotOptions, type ScreenshotOptions } from '../../_lib/screenshotOptions.js';
+import { extractCredentials } from '../../_lib/credentials.js';
+import {
+  MAX_SCHEDULE_URLS,
+  getNextRunAt,
+  isValidTimezone,
+  validateCronExpression,
+  validateScheduleUrls,
+} from '../../_lib/schedules.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const MAX_SCHEDULES_PER_PROJECT = 10;
+
+interface ScheduleRequest {
+  name?: string;
+  cronExpression: string;
+  timezone?: string;
+  urlMode?: 'saved' | 'rediscover';
+  urls?: string[];
+  maxUrls?: number;
+  options?: ScreenshotOptions;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const { data: schedules, error } = await supabase
+        .from('project_schedules')
+        .select('*')
+        .eq('project_id', id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return res.json({ schedules: schedules || [] });
+    } catch (error) {
+      console.error('List schedules error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch schedules',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const {
+        name,
+        cronExpression,
+        timezone = 'UTC',
+        urlMode = 'saved',
+        urls,
+        maxUrls = 100,
+        options = {},
+      } = req.body as ScheduleRequest;
+
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ error: 'Invalid timezone' });
+      }
+
+      const cronError = validateCronExpression(cronExpression, timezone);
+      if (cronError) {
+        return res.status(400).json({ error: cronError });
+      }
+
+      if (urlMode !== 'saved' && urlMode !== 'rediscover') {
+        return res.status(400).json({ error: 'urlMode must be "saved" or "rediscover"' });
+      }
+
+      if (urlMode === 'saved') {
+        const urlsError = validateScheduleUrls(urls);
+        if (urlsError) {
+          return res.status(400).json({ error: urlsError });
+        }
+      }
+
+      if (!Number.isInteger(maxUrls) || maxUrls < 1 || maxUrls > MAX_SCHEDULE_URLS) {
+        return res.status(400).json({ error: `maxUrls must be between 1 and ${MAX_SCHEDULE_URLS}` });
+      }
+
+      const optionsError = validateScreenshotOptions(options);
+      if (optionsError) {
+        return res.status(400).json({ error: optionsError });
+      }
+
+      // Scheduled captures use the project's saved credentials
+      if (extractCredentials(options)) {
+        return res.status(400).json({ error: 'Save credentials on the project instead of the schedule' });
+      }
+      // Each scheduled capture is a single device
+      if (options.deviceTypes !== undefined || options.viewports !== undefined) {
+        return res.status(400).json({ error: 'Schedules capture one device; use deviceType or viewport' });
+      }
+
+      const { count } = await supabase
+        .from('project_schedules')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', id);
+
+      if ((count ?? 0) >= MAX_SCHEDULES_PER_PROJECT) {
+        return res.status(400).json({ error: `Maximum ${MAX_SCHEDULES_PER_PROJECT} schedules per project` });
+      }
+
+      const { data: schedule, error } = await supabase
+        .from('project_schedules')
+        .insert({
+          user_id: user.id,
+          project_id: id,
+          name: typeof name === 'string' && name.trim() ? name.trim() : null,
+          cron_expression: cronExpression.trim(),
+          timezone,
+          url_mode: urlMode,
+          urls: urlMode === 'saved' ? urls : [],
+          max_urls: maxUrls,
+          options: resolveScreenshotOptions(options),
+          is_active: true,
+          next_run_at: getNextRunAt(cronExpression.trim(), timezone),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return res.status(201).json({ schedule });
+    } catch (error) {
+      console.error('Create schedule error:', error);
+      return res.status(500).json({
+        error: 'Failed to create schedule',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
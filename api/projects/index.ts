@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { normalizeProjectDomain } from '../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(
+        MAX_PAGE_SIZE,
+        Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+      );
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+
+      let query = supabase
+        .from('project_summaries')
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id);
+
+      if (search) {
+        // Strip characters that would break the PostgREST or() filter
+        const term = search.replace(/[%,()*]/g, '');
+        query = query.or(`name.ilike.%${term}%,domain.ilike.%${term}%`);
+      }
+
+      const from = (page - 1) * pageSize;
+      const { data: projects, count, error } = await query
+        .order('last_activity_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      return res.json({
+        projects: projects || [],
+        total: count ?? 0,
+        page,
+        pageSize,
+      });
+    } catch (error) {
+      console.error('List projects error:', error);
+      return res.status(500).json({
+        error: 'Failed to fetch projects',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const { name, domain, description, settings } = req.body;
+
+      const normalizedDomain = typeof domain === 'string' ? normalizeProjectDomain(domain) : null;
+      if (!normalizedDomain) {
+        return res.status(400).json({ error: 'A valid domain is required' });
+      }
+
+      if (settings !== undefined && (typeof settings !== 'object' || settings === null || Array.isArray(settings))) {
+        return res.status(400).json({ error: 'settings must be an object' });
+      }
+
+      const { data: project, error } = await supabase
+        .from('projects')
+        .insert({
+          user_id: user.id,
+          name: typeof name === 'string' && name.trim() ? name.trim() : normalizedDomain,
+          domain: normalizedDomain,
+          description: typeof description === 'string' && description.trim() ? description.trim() : null,
+          settings: settings ?? {},
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return res.status(201).json({ project });
+    } catch (error) {
+      console.error('Create project error:', error);
+      return res.status(500).json({
+        error: 'Failed to create project',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -0,0 +1,118 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../_lib/projects.js';
+import { setBaseline, validateBaselineJob } from '../_lib/baselines.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Approve (promote the capture to the new baseline) or reject a reviewed change
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify auth token
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { id } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const { action } = req.body;
+    if (action !== 'approve' && action !== 'reject') {
+      return res.status(400).json({ error: 'action must be "approve" or "reject"' });
+    }
+
+    const { data: diff, error: diffError } = await supabase
+      .from('screenshot_diffs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .not('review_status', 'is', null)
+      .maybeSingle();
+
+    if (diffError) throw diffError;
+
+    if (!diff) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    if (diff.review_status !== 'pending') {
+      return res.status(409).json({ error: `Change was already ${diff.review_status}` });
+    }
+
+    // Approving a change made against an older baseline would roll the baseline back
+    if (!diff.baseline_id) {
+      return res.status(409).json({ error: 'The baseline has changed since this capture was compared' });
+    }
+
+    const { data: baseline, error: baselineLookupError } = await supabase
+      .from('screenshot_baselines')
+      .select('id, job_id')
+      .eq('id', diff.baseline_id)
+      .maybeSingle();
+
+    if (baselineLookupError) throw baselineLookupError;
+
+    if (!baseline || baseline.job_id !== diff.base_job_id) {
+      return res.status(409).json({ error: 'The baseline has changed since this capture was compared' });
+    }
+
+    if (action === 'approve') {
+      const { data: job, error: jobError } = await supabase
+        .from('screenshot_jobs')
+        .select('*')
+        .eq('id', diff.compare_job_id)
+        .single();
+
+      if (jobError) throw jobError;
+
+      const baselineError = validateBaselineJob(job);
+      if (baselineError) {
+        return res.status(400).json({ error: baselineError });
+      }
+
+      await setBaseline(supabase, job);
+    }
+
+    const { data: reviewed, error } = await supabase
+      .from('screenshot_diffs')
+      .update({
+        review_status: action === 'approve' ? 'approved' : 'rejected',
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('review_status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!reviewed) {
+      return res.status(409).json({ error: 'Change was already reviewed' });
+    }
+
+    return res.json({ review: reviewed });
+  } catch (error) {
+    console.error('Review diff error:', error);
+    return res.status(500).json({
+      error: 'Failed to review change',
+      message: (error as Error).message,
+    });
+  }
+}
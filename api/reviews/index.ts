@@ -0,0 +1,87 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const REVIEW_STATUSES = ['pending', 'approved', 'rejected'];
+
+// Review queue: captures whose diff against the project baseline found changes
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify auth token
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const status = (req.query.status as string) || 'pending';
+    if (!REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    }
+
+    const { projectId } = req.query;
+    if (projectId !== undefined && !isUuid(projectId)) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+    const from = (page - 1) * pageSize;
+
+    let query = supabase
+      .from('screenshot_diffs')
+      .select(
+        `*,
+        project:projects(id, name, domain),
+        base_job:screenshot_jobs!base_job_id(screenshot_url, created_at),
+        compare_job:screenshot_jobs!compare_job_id(screenshot_url, created_at, batch_id)`,
+        { count: 'exact' }
+      )
+      .eq('user_id', user.id)
+      .eq('status', 'completed')
+      .eq('review_status', status);
+
+    if (projectId) {
+      query = query.eq('project_id', projectId);
+    }
+
+    const { data: reviews, count, error } = await query
+      .order(status === 'pending' ? 'created_at' : 'reviewed_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    return res.json({
+      reviews: reviews || [],
+      total: count ?? 0,
+      page,
+      pageSize,
+    });
+  } catch (error) {
+    console.error('List reviews error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch review queue',
+      message: (error as Error).message,
+    });
+  }
+}
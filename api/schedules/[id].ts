@@ -0,0 +1,170 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../_lib/projects.js';
+import { resolveScreenshotOptions, validateScreenshotOptions } from '../_lib/screenshotOptions.js';
+import { extractCredentials } from '../_lib/credentials.js';
+import {
+  MAX_SCHEDULE_URLS,
+  getNextRunAt,
+  isValidTimezone,
+  validateCronExpression,
+  validateScheduleUrls,
+} from '../_lib/schedules.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify auth token
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { id } = req.query;
+  if (!isUuid(id)) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+
+  const { data: schedule, error: scheduleError } = await supabase
+    .from('project_schedules')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (scheduleError || !schedule) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+
+  if (req.method === 'PATCH') {
+    try {
+      const { name, cronExpression, timezone, urlMode, urls, maxUrls, options, isActive } = req.body;
+      const updates: Record<string, unknown> = {};
+
+      if (name !== undefined) {
+        updates.name = typeof name === 'string' && name.trim() ? name.trim() : null;
+      }
+
+      const nextTimezone = timezone ?? schedule.timezone;
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return res.status(400).json({ error: 'Invalid timezone' });
+      }
+
+      const nextCron = typeof cronExpression === 'string' ? cronExpression.trim() : schedule.cron_expression;
+      if (cronExpression !== undefined) {
+        const cronError = validateCronExpression(cronExpression, nextTimezone);
+        if (cronError) {
+          return res.status(400).json({ error: cronError });
+        }
+        updates.cron_expression = nextCron;
+      }
+      if (timezone !== undefined) {
+        updates.timezone = timezone;
+      }
+
+      const nextUrlMode = urlMode ?? schedule.url_mode;
+      if (nextUrlMode !== 'saved' && nextUrlMode !== 'rediscover') {
+        return res.status(400).json({ error: 'urlMode must be "saved" or "rediscover"' });
+      }
+      if (urlMode !== undefined) {
+        updates.url_mode = urlMode;
+      }
+
+      if (urls !== undefined || (urlMode === 'saved' && schedule.url_mode !== 'saved')) {
+        const urlsError = validateScheduleUrls(urls);
+        if (urlsError) {
+          return res.status(400).json({ error: urlsError });
+        }
+        updates.urls = urls;
+      }
+
+      if (maxUrls !== undefined) {
+        if (!Number.isInteger(maxUrls) || maxUrls < 1 || maxUrls > MAX_SCHEDULE_URLS) {
+          return res.status(400).json({ error: `maxUrls must be between 1 and ${MAX_SCHEDULE_URLS}` });
+        }
+        updates.max_urls = maxUrls;
+      }
+
+      if (options !== undefined) {
+        const optionsError = validateScreenshotOptions(options);
+        if (optionsError) {
+          return res.status(400).json({ error: optionsError });
+        }
+        // Scheduled captures use the project's saved credentials
+        if (extractCredentials(options)) {
+          return res.status(400).json({ error: 'Save credentials on the project instead of the schedule' });
+        }
+        // Each scheduled capture is a single device
+        if (options.deviceTypes !== undefined || options.viewports !== undefined) {
+          return res.status(400).json({ error: 'Schedules capture one device; use deviceType or viewport' });
+        }
+        updates.options = resolveScreenshotOptions(options);
+      }
+
+      if (isActive !== undefined) {
+        updates.is_active = Boolean(isActive);
+      }
+
+      // Recompute the next run when the timing changes or a paused schedule resumes
+      if (
+        updates.cron_expression !== undefined ||
+        updates.timezone !== undefined ||
+        (updates.is_active === true && !schedule.is_active)
+      ) {
+        updates.next_run_at = getNextRunAt(nextCron, nextTimezone);
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'No changes provided' });
+      }
+
+      const { data: updated, error } = await supabase
+        .from('project_schedules')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return res.json({ schedule: updated });
+    } catch (error) {
+      console.error('Update schedule error:', error);
+      return res.status(500).json({
+        error: 'Failed to update schedule',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const { error } = await supabase
+        .from('project_schedules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Delete schedule error:', error);
+      return res.status(500).json({
+        error: 'Failed to delete schedule',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -1,5 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
 import { createClient } from '@supabase/supabase-js';
+import {
+  expandDevices,
+  resolveScreenshotOptions,
+  validateScreenshotOptions,
+  type ScreenshotOptions,
+} from '../_lib/screenshotOptions.js';
+import { extractCredentials, saveJobCredentials } from '../_lib/credentials.js';
+import { resolveProjectId } from '../_lib/projects.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -23,28 +32,6 @@ async function trackUsage(userId: string, endpoint: string, count: number = 1) {
   }
 }
 
-interface ScreenshotOptions {
-  fullPage?: boolean;
-  scrollPage?: boolean;
-  fresh?: boolean;
-  noAds?: boolean;
-  noCookies?: boolean;
-  viewport?: {
-    width: number;
-    height: number;
-  };
-  deviceType?: 'desktop' | 'tablet' | 'mobile';
-  delay?: number;
-  format?: 'png' | 'jpeg';
-  quality?: number;
-}
-
-const viewportPresets = {
-  desktop: { width: 1920, height: 1080 },
-  tablet: { width: 768, height: 1024 },
-  mobile: { width: 375, height: 667 },
-};
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -64,9 +51,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    const { urls, sitemapJobId, options = {} } = req.body as {
+    const { urls, sitemapJobId, projectId, options = {} } = req.body as {
       urls: string[];
       sitemapJobId?: string;
+      projectId?: string;
       options?: ScreenshotOptions;
     };
 
@@ -78,34 +66,61 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Maximum 100 URLs per batch' });
     }
 
-    // Resolve viewport from device type
-    let viewport = options.viewport;
-    if (!viewport && options.deviceType) {
-      viewport = viewportPresets[options.deviceType];
+    const optionsError = validateScreenshotOptions(options);
+    if (optionsError) {
+      return res.status(400).json({ error: optionsError });
+    }
+
+    // One job per URL and device; a URL's jobs share a device group
+    const deviceOptions = expandDevices(options).map((device) => resolveScreenshotOptions(device));
+    const isMultiDevice = deviceOptions.length > 1;
+    const totalJobs = urls.length * deviceOptions.length;
+    if (totalJobs > 100) {
+      return res.status(400).json({ error: 'Maximum 100 screenshots per batch (URLs x devices)' });
     }
-    if (!viewport) {
-      viewport = viewportPresets.desktop;
+
+    const project = await resolveProjectId(supabase, user.id, projectId, urls[0]);
+    if (project.error) {
+      return res.status(404).json({ error: project.error });
     }
 
+    // Credentials are stored encrypted, apart from the jobs
+    const credentials = extractCredentials(options);
+    const credentialsId = credentials ? await saveJobCredentials(supabase, user.id, credentials) : null;
+
+    // Record the run so it can be browsed and downloaded later
+    const { data: run, error: runError } = await supabase
+      .from('screenshot_batches')
+      .insert({
+        user_id: user.id,
+        sitemap_job_id: sitemapJobId || null,
+        project_id: project.projectId,
+        options: isMultiDevice
+          ? { ...deviceOptions[0], deviceTypes: deviceOptions.map((device) => device.deviceType) }
+          : deviceOptions[0],
+        total_jobs: totalJobs,
+        source: 'dashboard',
+      })
+      .select()
+      .single();
+
+    if (runError) throw runError;
+
     // Create screenshot jobs
-    const screenshotJobs = urls.map((url) => ({
-      user_id: user.id,
-      sitemap_job_id: sitemapJobId || null,
-      url,
-      status: 'pending' as const,
-      options: {
-        fullPage: options.fullPage ?? true,
-        scrollPage: options.scrollPage ?? false,
-        fresh: options.fresh ?? false,
-        noAds: options.noAds ?? false,
-        noCookies: options.noCookies ?? false,
-        viewport,
-        deviceType: options.deviceType ?? 'desktop',
-        delay: options.delay ?? 2,
-        format: options.format ?? 'png',
-        quality: options.quality ?? 90,
-      },
-    }));
+    const screenshotJobs = urls.flatMap((url) => {
+      const deviceGroupId = isMultiDevice ? randomUUID() : null;
+      return deviceOptions.map((resolvedOptions) => ({
+        user_id: user.id,
+        batch_id: run.id,
+        sitemap_job_id: sitemapJobId || null,
+        project_id: project.projectId,
+        url,
+        status: 'pending' as const,
+        credentials_id: credentialsId,
+        device_group_id: deviceGroupId,
+        options: resolvedOptions,
+      }));
+    });
 
     const { data: jobs, error: jobsError } = await supabase
       .from('screenshot_jobs')
@@ -115,13 +130,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (jobsError) throw jobsError;
 
     // Track usage - one entry per screenshot
-    await trackUsage(user.id, 'screenshot', urls.length);
+    await trackUsage(user.id, 'screenshot', totalJobs);
 
     return res.json({
       success: true,
       jobIds: jobs?.map((j) => j.id) || [],
-      totalJobs: urls.length,
-      message: `Queued ${urls.length} screenshot jobs for processing`,
+      projectId: project.projectId,
+      runId: run.id,
+      totalJobs,
+      message: `Queued ${totalJobs} screenshot jobs for processing`,
     });
   } catch (error) {
     console.error('Generate screenshots error:', error);
@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { resolveProjectId } from '../_lib/projects.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -184,7 +185,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Track usage
     await trackUsage(user.id, 'sitemap_discovery');
 
-    const { domain } = req.body;
+    const { domain, projectId } = req.body;
     if (!domain) {
       return res.status(400).json({ error: 'Domain is required' });
     }
@@ -196,11 +197,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
     baseUrl = baseUrl.replace(/\/+$/, '');
 
+    const project = await resolveProjectId(supabase, user.id, projectId, baseUrl);
+    if (project.error) {
+      return res.status(404).json({ error: project.error });
+    }
+
     // Create sitemap job
     const { data: job, error: jobError } = await supabase
       .from('sitemap_jobs')
       .insert({
         user_id: user.id,
+        project_id: project.projectId,
         domain: baseUrl,
         status: 'processing',
         urls: [],
@@ -278,6 +285,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.json({
         success: true,
         jobId: job.id,
+        projectId: project.projectId,
         urls: foundUrls,
         groups,
         source,
@@ -298,6 +306,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.json({
       success: false,
       jobId: job.id,
+      projectId: project.projectId,
       urls: [],
       groups: [],
       source: null,
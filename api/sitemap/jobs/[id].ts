@@ -0,0 +1,69 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+import { ACTION_LABELS, controlSitemap, validateJobAction } from '../../_lib/jobControl.js';
+import type { JobAction } from '../../_lib/jobControl.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Pause, resume or cancel a sitemap job waiting on a crawl, along with the crawl
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify auth token
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { id } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Sitemap job not found' });
+    }
+
+    const { action } = req.body;
+    const actionError = validateJobAction(action);
+    if (actionError) {
+      return res.status(400).json({ error: actionError });
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('sitemap_jobs')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job) {
+      return res.status(404).json({ error: 'Sitemap job not found' });
+    }
+
+    const updated = await controlSitemap(supabase, job.id, action);
+    if (updated === 0) {
+      return res.status(409).json({ error: `Sitemap job cannot be ${ACTION_LABELS[action as JobAction]} in its current state` });
+    }
+
+    return res.json({ success: true, sitemapJobId: job.id, action });
+  } catch (error) {
+    console.error('Sitemap job control error:', error);
+    return res.status(500).json({
+      error: 'Failed to update sitemap job',
+      message: (error as Error).message,
+    });
+  }
+}
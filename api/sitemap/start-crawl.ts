@@ -1,5 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { resolveProjectId } from '../_lib/projects.js';
+import {
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_CRAWL_MAX_URLS,
+  crawlSource,
+  validateCrawlEngine,
+  validateCrawlRules,
+} from '../_lib/crawl.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -25,22 +33,53 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    const { sitemapJobId, domain, maxUrls = 500, crawlDepth = 3 } = req.body;
+    const {
+      sitemapJobId,
+      projectId,
+      domain,
+      maxUrls = DEFAULT_CRAWL_MAX_URLS,
+      crawlDepth = DEFAULT_CRAWL_DEPTH,
+      includePatterns = [],
+      excludePatterns = [],
+      engine = 'auto',
+      render = false,
+    } = req.body;
 
     if (!domain) {
       return res.status(400).json({ error: 'Domain is required' });
     }
 
+    const crawlRules = { maxUrls, crawlDepth, includePatterns, excludePatterns };
+    const engineError = validateCrawlEngine(engine, render, crawlRules);
+    if (engineError) {
+      return res.status(400).json({ error: engineError });
+    }
+
+    const rulesError = validateCrawlRules(crawlRules);
+    if (rulesError) {
+      return res.status(400).json({ error: rulesError });
+    }
+
+    const project = await resolveProjectId(supabase, user.id, projectId, domain);
+    if (project.error) {
+      return res.status(404).json({ error: project.error });
+    }
+
     // Create crawl job
     const { data: crawlJob, error: crawlError } = await supabase
       .from('crawl_jobs')
       .insert({
         user_id: user.id,
         sitemap_job_id: sitemapJobId,
+        project_id: project.projectId,
         domain,
         status: 'pending',
         max_urls: maxUrls,
         crawl_depth: crawlDepth,
+        include_patterns: includePatterns,
+        exclude_patterns: excludePatterns,
+        engine,
+        render,
         discovered_urls: [],
       })
       .select()
@@ -54,7 +93,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         .from('sitemap_jobs')
         .update({
           status: 'processing',
-          source: 'screaming_frog',
+          source: crawlSource(engine, render, crawlRules),
         })
         .eq('id', sitemapJobId);
     }
@@ -62,7 +101,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.json({
       success: true,
       crawlJobId: crawlJob.id,
-      message: 'Crawl job queued. The Screaming Frog worker will process it shortly.',
+      projectId: project.projectId,
+      message: 'Crawl job queued. The crawl worker will process it shortly.',
       estimatedTime: '2-5 minutes depending on site size',
     });
   } catch (error) {
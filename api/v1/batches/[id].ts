@@ -0,0 +1,127 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ACTION_LABELS, controlBatch, validateJobAction } from '../../_lib/jobControl.js';
+import type { JobAction } from '../../_lib/jobControl.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify API key
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is required in X-API-Key header' });
+    }
+
+    // Look up user by API key
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (profile.status !== 'active') {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    const { id } = req.query;
+    if (typeof id !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const { data: batch, error: batchError } = await supabase
+      .from('screenshot_batches')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (batchError) throw batchError;
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    // POST pauses, resumes, cancels or retries the batch's jobs
+    if (req.method === 'POST') {
+      const { action } = req.body;
+      const actionError = validateJobAction(action);
+      if (actionError) {
+        return res.status(400).json({ error: actionError });
+      }
+
+      const updated = await controlBatch(supabase, batch.id, action);
+      if (updated === 0) {
+        return res.status(409).json({ error: `No jobs in this batch can be ${ACTION_LABELS[action as JobAction]}` });
+      }
+
+      return res.json({ success: true, batchId: batch.id, action, updated });
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('screenshot_jobs')
+      .select('id, url, status, screenshot_url, screenshot_urls, thumbnail_url, error_message, error_code, attempts, action_results, options, device_group_id, created_at, started_at, completed_at')
+      .eq('batch_id', id)
+      .order('created_at', { ascending: true });
+
+    if (jobsError) throw jobsError;
+
+    // Aggregate progress
+    const counts = { pending: 0, processing: 0, completed: 0, failed: 0, paused: 0, cancelled: 0 };
+    for (const job of jobs || []) {
+      if (job.status in counts) {
+        counts[job.status as keyof typeof counts]++;
+      }
+    }
+    const total = jobs?.length ?? 0;
+    const finished = counts.completed + counts.failed + counts.cancelled;
+
+    let status = 'pending';
+    if (finished === total) {
+      status = counts.cancelled > 0 ? 'cancelled' : 'completed';
+    } else if (counts.processing > 0) {
+      status = 'processing';
+    } else if (counts.paused > 0) {
+      status = 'paused';
+    } else if (finished > 0) {
+      status = 'processing';
+    }
+
+    return res.json({
+      success: true,
+      batchId: batch.id,
+      status,
+      progress: {
+        total,
+        ...counts,
+        percent: total > 0 ? Math.round((finished / total) * 100) : 100,
+      },
+      options: batch.options,
+      sitemap_job_id: batch.sitemap_job_id,
+      created_at: batch.created_at,
+      jobs: jobs || [],
+    });
+  } catch (error) {
+    console.error('API batch status error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch batch',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../_lib/projects.js';
+import {
+  DEFAULT_DIFF_THRESHOLD,
+  findPreviousJob,
+  isPdfJob,
+  queueDiffs,
+  validateDiffPair,
+  validateDiffThreshold,
+} from '../_lib/diffs.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface DiffRequest {
+  compareJobId: string;
+  baseJobId?: string;
+  threshold?: number;
+  maxMismatch?: number;
+  sync?: boolean;
+  timeout?: number;
+}
+
+// Synchronous mode limits (seconds). Must stay below the function's maxDuration.
+const SYNC_DEFAULT_TIMEOUT = 30;
+const SYNC_MAX_TIMEOUT = 55;
+const SYNC_POLL_INTERVAL = 1000;
+
+// Wait for the worker to finish a diff; returns the last seen row on timeout
+async function waitForDiff(diffId: string, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const { data: diff, error } = await supabase
+      .from('screenshot_diffs')
+      .select('*')
+      .eq('id', diffId)
+      .single();
+
+    if (error) throw error;
+
+    if (diff.status === 'completed' || diff.status === 'failed' || Date.now() >= deadline) {
+      return diff;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, Math.min(SYNC_POLL_INTERVAL, deadline - Date.now())));
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify API key
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is required in X-API-Key header' });
+    }
+
+    // Look up user by API key
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (profile.status !== 'active') {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    // Track API usage
+    const today = new Date().toISOString().split('T')[0];
+    await supabase.from('api_usage').upsert(
+      {
+        user_id: profile.id,
+        api_key: apiKey,
+        endpoint: '/api/v1/diff',
+        date: today,
+        request_count: 1,
+      },
+      {
+        onConflict: 'user_id,date,endpoint',
+        ignoreDuplicates: false,
+      }
+    );
+
+    // Increment request count
+    await supabase.rpc('increment_api_usage', {
+      p_user_id: profile.id,
+      p_date: today,
+      p_endpoint: '/api/v1/diff',
+    });
+
+    const {
+      compareJobId,
+      baseJobId,
+      threshold = DEFAULT_DIFF_THRESHOLD,
+      maxMismatch,
+      ...body
+    } = req.body as DiffRequest;
+
+    // Synchronous mode: ?wait=true or "sync": true
+    const sync = req.query.wait === 'true' || body.sync === true;
+    const requestedTimeout = Number(req.query.timeout ?? body.timeout ?? SYNC_DEFAULT_TIMEOUT);
+    if (sync && (!Number.isFinite(requestedTimeout) || requestedTimeout <= 0)) {
+      return res.status(400).json({ error: 'timeout must be a positive number of seconds' });
+    }
+    const syncTimeout = Math.min(requestedTimeout, SYNC_MAX_TIMEOUT);
+
+    if (!compareJobId) {
+      return res.status(400).json({ error: 'compareJobId is required' });
+    }
+
+    const thresholdError = validateDiffThreshold(threshold);
+    if (thresholdError) {
+      return res.status(400).json({ error: thresholdError });
+    }
+
+    if (
+      maxMismatch !== undefined &&
+      (typeof maxMismatch !== 'number' || !Number.isFinite(maxMismatch) || maxMismatch < 0 || maxMismatch > 100)
+    ) {
+      return res.status(400).json({ error: 'maxMismatch must be a percentage between 0 and 100' });
+    }
+
+    if (!isUuid(compareJobId) || (baseJobId !== undefined && !isUuid(baseJobId))) {
+      return res.status(404).json({ error: 'Screenshot job not found' });
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('screenshot_jobs')
+      .select('*')
+      .in('id', baseJobId ? [compareJobId, baseJobId] : [compareJobId])
+      .eq('user_id', profile.id);
+
+    if (jobsError) throw jobsError;
+
+    const compareJob = jobs?.find((job) => job.id === compareJobId);
+    if (!compareJob) {
+      return res.status(404).json({ error: 'Screenshot job not found' });
+    }
+
+    if (isPdfJob(compareJob)) {
+      return res.status(400).json({ error: 'PDF captures cannot be compared' });
+    }
+
+    // Without a base job, compare against the previous capture of the same page
+    const baseJob = baseJobId
+      ? jobs?.find((job) => job.id === baseJobId)
+      : await findPreviousJob(supabase, compareJob);
+
+    if (!baseJob) {
+      return res.status(404).json({
+        error: baseJobId ? 'Screenshot job not found' : 'No previous screenshot of this URL to compare with',
+      });
+    }
+
+    const pairError = validateDiffPair(baseJob, compareJob);
+    if (pairError) {
+      return res.status(400).json({ error: pairError });
+    }
+
+    let [diff] = await queueDiffs(supabase, [{ baseJob, compareJob }], threshold);
+
+    if (sync && diff.status !== 'completed' && diff.status !== 'failed') {
+      diff = await waitForDiff(diff.id, syncTimeout * 1000);
+    }
+
+    const finished = diff.status === 'completed' || diff.status === 'failed';
+
+    return res.status(finished ? 200 : 202).json({
+      success: true,
+      diffId: diff.id,
+      status: diff.status,
+      baseJobId: diff.base_job_id,
+      compareJobId: diff.compare_job_id,
+      url: diff.url,
+      device_type: diff.device_type,
+      threshold: diff.threshold,
+      mismatch_percentage: diff.mismatch_percentage,
+      mismatch_pixels: diff.mismatch_pixels,
+      total_pixels: diff.total_pixels,
+      width: diff.width,
+      height: diff.height,
+      regions: diff.regions,
+      diff_url: diff.diff_url,
+      error_message: diff.error_message,
+      // Lets a deploy pipeline fail when the page changed beyond maxMismatch
+      ...(maxMismatch !== undefined && diff.status === 'completed'
+        ? { passed: Number(diff.mismatch_percentage) <= maxMismatch }
+        : {}),
+      ...(finished
+        ? {}
+        : { message: 'Diff queued. Poll the status endpoint for results.' }),
+      statusUrl: `/api/v1/diff/${diff.id}${maxMismatch !== undefined ? `?maxMismatch=${maxMismatch}` : ''}`,
+    });
+  } catch (error) {
+    console.error('API diff error:', error);
+    return res.status(500).json({
+      error: 'Failed to create diff',
+      message: (error as Error).message,
+    });
+  }
+}
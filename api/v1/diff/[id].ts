@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { isUuid } from '../../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify API key
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is required in X-API-Key header' });
+    }
+
+    // Look up user by API key
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (profile.status !== 'active') {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    const { id } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Diff not found' });
+    }
+
+    const maxMismatch = req.query.maxMismatch !== undefined ? Number(req.query.maxMismatch) : undefined;
+    if (maxMismatch !== undefined && (!Number.isFinite(maxMismatch) || maxMismatch < 0 || maxMismatch > 100)) {
+      return res.status(400).json({ error: 'maxMismatch must be a percentage between 0 and 100' });
+    }
+
+    const { data: diff, error: diffError } = await supabase
+      .from('screenshot_diffs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (diffError) throw diffError;
+
+    if (!diff) {
+      return res.status(404).json({ error: 'Diff not found' });
+    }
+
+    return res.json({
+      success: true,
+      diffId: diff.id,
+      status: diff.status,
+      baseJobId: diff.base_job_id,
+      compareJobId: diff.compare_job_id,
+      url: diff.url,
+      device_type: diff.device_type,
+      threshold: diff.threshold,
+      mismatch_percentage: diff.mismatch_percentage,
+      mismatch_pixels: diff.mismatch_pixels,
+      total_pixels: diff.total_pixels,
+      width: diff.width,
+      height: diff.height,
+      regions: diff.regions,
+      diff_url: diff.diff_url,
+      error_message: diff.error_message,
+      ...(maxMismatch !== undefined && diff.status === 'completed'
+        ? { passed: Number(diff.mismatch_percentage) <= maxMismatch }
+        : {}),
+      created_at: diff.created_at,
+      completed_at: diff.completed_at,
+    });
+  } catch (error) {
+    console.error('API diff status error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch diff',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -1,5 +1,15 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
 import { createClient } from '@supabase/supabase-js';
+import {
+  expandDevices,
+  resolveScreenshotOptions,
+  validateScreenshotOptions,
+  type ScreenshotOptions,
+} from '../_lib/screenshotOptions.js';
+import { validateWebhookUrl } from '../_lib/webhookUrls.js';
+import { extractCredentials, saveJobCredentials } from '../_lib/credentials.js';
+import { resolveProjectId } from '../_lib/projects.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -8,25 +18,39 @@ const supabase = createClient(
 
 interface ScreenshotRequest {
   url: string;
-  options?: {
-    fullPage?: boolean;
-    scrollPage?: boolean;
-    fresh?: boolean;
-    noAds?: boolean;
-    noCookies?: boolean;
-    viewport?: { width: number; height: number };
-    deviceType?: 'desktop' | 'tablet' | 'mobile';
-    delay?: number;
-    format?: 'png' | 'jpeg';
-    quality?: number;
-  };
+  callbackUrl?: string;
+  projectId?: string;
+  sync?: boolean;
+  timeout?: number;
+  redirect?: boolean;
+  options?: ScreenshotOptions;
 }
 
-const viewportPresets = {
-  desktop: { width: 1920, height: 1080 },
-  tablet: { width: 768, height: 1024 },
-  mobile: { width: 375, height: 667 },
-};
+// Synchronous mode limits (seconds). Must stay below the function's maxDuration.
+const SYNC_DEFAULT_TIMEOUT = 30;
+const SYNC_MAX_TIMEOUT = 55;
+const SYNC_POLL_INTERVAL = 1000;
+
+// Wait for the worker to finish a job; returns the last seen row on timeout
+async function waitForJob(jobId: string, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const { data: job, error } = await supabase
+      .from('screenshot_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error) throw error;
+
+    if (['completed', 'failed', 'cancelled'].includes(job.status) || Date.now() >= deadline) {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, Math.min(SYNC_POLL_INTERVAL, deadline - Date.now())));
+  }
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS preflight
@@ -83,7 +107,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       p_endpoint: '/api/v1/screenshot',
     });
 
-    const { url, options = {} } = req.body as ScreenshotRequest;
+    const { url, callbackUrl, projectId, options = {}, ...body } = req.body as ScreenshotRequest;
+
+    // Synchronous mode: ?wait=true or "sync": true
+    const sync = req.query.wait === 'true' || body.sync === true;
+    const redirect = req.query.redirect === 'true' || body.redirect === true;
+    const requestedTimeout = Number(req.query.timeout ?? body.timeout ?? SYNC_DEFAULT_TIMEOUT);
+    if (sync && (!Number.isFinite(requestedTimeout) || requestedTimeout <= 0)) {
+      return res.status(400).json({ error: 'timeout must be a positive number of seconds' });
+    }
+    const syncTimeout = Math.min(requestedTimeout, SYNC_MAX_TIMEOUT);
 
     if (!url) {
       return res.status(400).json({ error: 'URL is required' });
@@ -96,13 +129,63 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
-    // Resolve viewport
-    let viewport = options.viewport;
-    if (!viewport && options.deviceType) {
-      viewport = viewportPresets[options.deviceType];
+    const optionsError = validateScreenshotOptions(options);
+    if (optionsError) {
+      return res.status(400).json({ error: optionsError });
+    }
+
+    // Several devices fan out into one job each, linked by a device group
+    const deviceOptions = expandDevices(options).map((device) => resolveScreenshotOptions(device));
+    if (sync && deviceOptions.length > 1) {
+      return res.status(400).json({ error: 'Synchronous mode captures a single device; omit wait or sync for several' });
     }
-    if (!viewport) {
-      viewport = viewportPresets.desktop;
+
+    // Validate callback URL (webhook fired when the job finishes)
+    if (callbackUrl !== undefined) {
+      const callbackError = await validateWebhookUrl(callbackUrl, 'callbackUrl');
+      if (callbackError) {
+        return res.status(400).json({ error: callbackError });
+      }
+    }
+
+    const project = await resolveProjectId(supabase, profile.id, projectId, url);
+    if (project.error) {
+      return res.status(404).json({ error: project.error });
+    }
+
+    // Credentials are stored encrypted, apart from the job
+    const credentials = extractCredentials(options);
+    const credentialsId = credentials ? await saveJobCredentials(supabase, profile.id, credentials) : null;
+
+    if (deviceOptions.length > 1) {
+      const deviceGroupId = randomUUID();
+      const { data: jobs, error: jobsError } = await supabase
+        .from('screenshot_jobs')
+        .insert(deviceOptions.map((resolvedOptions) => ({
+          user_id: profile.id,
+          project_id: project.projectId,
+          url,
+          status: 'pending',
+          callback_url: callbackUrl ?? null,
+          credentials_id: credentialsId,
+          device_group_id: deviceGroupId,
+          options: resolvedOptions,
+        })))
+        .select('id, options');
+
+      if (jobsError) throw jobsError;
+
+      return res.json({
+        success: true,
+        deviceGroupId,
+        status: 'pending',
+        jobs: jobs.map((job) => ({
+          jobId: job.id,
+          deviceType: job.options.deviceType,
+          statusUrl: `/api/v1/screenshot/${job.id}`,
+        })),
+        message: `${jobs.length} screenshot jobs queued, one per device. Poll each status endpoint for results.`,
+      });
     }
 
     // Create screenshot job
@@ -110,26 +193,72 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .from('screenshot_jobs')
       .insert({
         user_id: profile.id,
+        project_id: project.projectId,
         url,
         status: 'pending',
-        options: {
-          fullPage: options.fullPage ?? true,
-          scrollPage: options.scrollPage ?? false,
-          fresh: options.fresh ?? false,
-          noAds: options.noAds ?? false,
-          noCookies: options.noCookies ?? false,
-          viewport,
-          deviceType: options.deviceType ?? 'desktop',
-          delay: options.delay ?? 2,
-          format: options.format ?? 'png',
-          quality: options.quality ?? 90,
-        },
+        callback_url: callbackUrl ?? null,
+        credentials_id: credentialsId,
+        options: deviceOptions[0],
       })
       .select()
       .single();
 
     if (jobError) throw jobError;
 
+    if (sync) {
+      const finishedJob = await waitForJob(job.id, syncTimeout * 1000);
+
+      if (finishedJob.status === 'failed') {
+        return res.status(422).json({
+          success: false,
+          jobId: job.id,
+          status: 'failed',
+          error: 'Screenshot failed',
+          message: finishedJob.error_message,
+        });
+      }
+
+      if (finishedJob.status === 'cancelled') {
+        return res.status(409).json({
+          success: false,
+          jobId: job.id,
+          status: 'cancelled',
+          error: 'Screenshot was cancelled',
+        });
+      }
+
+      if (finishedJob.status === 'completed' && finishedJob.screenshot_url) {
+        res.setHeader('X-Job-Id', job.id);
+
+        if (redirect) {
+          return res.redirect(302, finishedJob.screenshot_url);
+        }
+
+        const imageResponse = await fetch(finishedJob.screenshot_url);
+        if (!imageResponse.ok) {
+          throw new Error(`Failed to fetch screenshot from storage: HTTP ${imageResponse.status}`);
+        }
+
+        const format = finishedJob.options?.format;
+        const [contentType, fileExt] =
+          format === 'pdf' ? ['application/pdf', 'pdf'] : format === 'jpeg' ? ['image/jpeg', 'jpg'] : ['image/png', 'png'];
+        const image = Buffer.from(await imageResponse.arrayBuffer());
+        res.setHeader('Content-Type', imageResponse.headers.get('content-type') || contentType);
+        res.setHeader('Content-Length', image.length.toString());
+        res.setHeader('Content-Disposition', `inline; filename="screenshot_${job.id}.${fileExt}"`);
+        return res.status(200).send(image);
+      }
+
+      // Timed out: fall back to the queued response so the client can poll
+      return res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: finishedJob.status,
+        message: `Screenshot not ready after ${syncTimeout}s. Poll the status endpoint for results.`,
+        statusUrl: `/api/v1/screenshot/${job.id}`,
+      });
+    }
+
     return res.json({
       success: true,
       jobId: job.id,
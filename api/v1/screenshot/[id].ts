@@ -0,0 +1,93 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify API key
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is required in X-API-Key header' });
+    }
+
+    // Look up user by API key
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (profile.status !== 'active') {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    const { id } = req.query;
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    // Job IDs are UUIDs; anything else would be rejected by Postgres
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return res.status(404).json({ error: 'Screenshot job not found' });
+    }
+
+    // Only return jobs owned by this API key's user. Jobs belonging to
+    // other users are reported as missing so their IDs can't be probed.
+    const { data: job, error: jobError } = await supabase
+      .from('screenshot_jobs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    if (!job) {
+      return res.status(404).json({ error: 'Screenshot job not found' });
+    }
+
+    return res.json({
+      success: true,
+      jobId: job.id,
+      url: job.url,
+      status: job.status,
+      screenshot_url: job.screenshot_url,
+      screenshot_urls: job.screenshot_urls,
+      thumbnail_url: job.thumbnail_url,
+      error_message: job.error_message,
+      error_code: job.error_code,
+      attempts: job.attempts,
+      action_results: job.action_results,
+      max_attempts: job.max_attempts,
+      next_attempt_at: job.next_attempt_at,
+      options: job.options,
+      device_group_id: job.device_group_id,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      completed_at: job.completed_at,
+    });
+  } catch (error) {
+    console.error('API screenshot status error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch screenshot job',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,223 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import {
+  resolveScreenshotOptions,
+  validateScreenshotOptions,
+  type ScreenshotOptions,
+} from '../../_lib/screenshotOptions.js';
+import { validateWebhookUrl } from '../../_lib/webhookUrls.js';
+import { extractCredentials, saveJobCredentials } from '../../_lib/credentials.js';
+import { resolveProjectId } from '../../_lib/projects.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const MAX_BATCH_SIZE = 100;
+
+type BatchUrl = string | { url: string; options?: ScreenshotOptions };
+
+interface BatchRequest {
+  urls?: BatchUrl[];
+  sitemapJobId?: string;
+  projectId?: string;
+  options?: ScreenshotOptions;
+  callbackUrl?: string;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify API key
+    const apiKey = req.headers['x-api-key'] as string;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is required in X-API-Key header' });
+    }
+
+    // Look up user by API key
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (profile.status !== 'active') {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    const { urls, sitemapJobId, projectId, options = {}, callbackUrl } = req.body as BatchRequest;
+
+    if (callbackUrl !== undefined) {
+      const callbackError = await validateWebhookUrl(callbackUrl, 'callbackUrl');
+      if (callbackError) {
+        return res.status(400).json({ error: callbackError });
+      }
+    }
+
+    // Collect the URL list, either from the request or from a sitemap job
+    let entries: BatchUrl[] = [];
+    let sitemapProjectId: string | null = null;
+
+    if (urls !== undefined) {
+      if (!Array.isArray(urls) || urls.length === 0) {
+        return res.status(400).json({ error: 'urls must be a non-empty array' });
+      }
+      entries = urls;
+    }
+
+    if (sitemapJobId) {
+      const { data: sitemapJob, error: sitemapError } = await supabase
+        .from('sitemap_jobs')
+        .select('id, status, urls, project_id')
+        .eq('id', sitemapJobId)
+        .eq('user_id', profile.id)
+        .maybeSingle();
+
+      if (sitemapError || !sitemapJob) {
+        return res.status(404).json({ error: 'Sitemap job not found' });
+      }
+      sitemapProjectId = sitemapJob.project_id;
+
+      if (urls === undefined) {
+        if (sitemapJob.status !== 'completed') {
+          return res.status(409).json({ error: `Sitemap job is ${sitemapJob.status}` });
+        }
+        entries = Array.isArray(sitemapJob.urls) ? sitemapJob.urls : [];
+      }
+    }
+
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'Either urls or a completed sitemapJobId is required' });
+    }
+
+    if (entries.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `Maximum ${MAX_BATCH_SIZE} URLs per batch (got ${entries.length})` });
+    }
+
+    // Normalize entries and merge per-URL overrides onto the shared options
+    const normalized: { url: string; options: ScreenshotOptions }[] = [];
+    for (const [index, entry] of entries.entries()) {
+      const url = typeof entry === 'string' ? entry : entry?.url;
+      const overrides = typeof entry === 'string' ? {} : entry?.options || {};
+
+      try {
+        new URL(url);
+      } catch {
+        return res.status(400).json({ error: `Invalid URL format at index ${index}` });
+      }
+
+      const merged = { ...options, ...overrides };
+      const optionsError = validateScreenshotOptions(merged);
+      if (optionsError) {
+        return res.status(400).json({ error: `${optionsError} at index ${index}` });
+      }
+      if (merged.deviceTypes !== undefined || merged.viewports !== undefined) {
+        return res.status(400).json({
+          error: `deviceTypes and viewports are not supported in batches; add an entry per device (index ${index})`,
+        });
+      }
+
+      normalized.push({ url, options: merged });
+    }
+
+    // Batches from a sitemap job stay in that job's project
+    const project = await resolveProjectId(
+      supabase,
+      profile.id,
+      projectId ?? sitemapProjectId ?? undefined,
+      normalized[0].url
+    );
+    if (project.error) {
+      return res.status(404).json({ error: project.error });
+    }
+
+    // Create the batch
+    const { data: batch, error: batchError } = await supabase
+      .from('screenshot_batches')
+      .insert({
+        user_id: profile.id,
+        sitemap_job_id: sitemapJobId || null,
+        project_id: project.projectId,
+        options: resolveScreenshotOptions(options),
+        total_jobs: normalized.length,
+      })
+      .select()
+      .single();
+
+    if (batchError) throw batchError;
+
+    // Credentials are stored encrypted, once per distinct set in the batch
+    const credentialsIds = new Map<string, string>();
+    const entryCredentialsIds: (string | null)[] = [];
+    for (const entry of normalized) {
+      const credentials = extractCredentials(entry.options);
+      if (!credentials) {
+        entryCredentialsIds.push(null);
+        continue;
+      }
+      const key = JSON.stringify(credentials);
+      let credentialsId = credentialsIds.get(key);
+      if (!credentialsId) {
+        credentialsId = await saveJobCredentials(supabase, profile.id, credentials);
+        credentialsIds.set(key, credentialsId);
+      }
+      entryCredentialsIds.push(credentialsId);
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('screenshot_jobs')
+      .insert(normalized.map((entry, index) => ({
+        user_id: profile.id,
+        batch_id: batch.id,
+        sitemap_job_id: sitemapJobId || null,
+        project_id: project.projectId,
+        url: entry.url,
+        status: 'pending',
+        callback_url: callbackUrl ?? null,
+        credentials_id: entryCredentialsIds[index],
+        options: resolveScreenshotOptions(entry.options),
+      })))
+      .select('id, url');
+
+    if (jobsError) throw jobsError;
+
+    // Track API usage - one row for the batch, counted per screenshot
+    const today = new Date().toISOString().split('T')[0];
+    await supabase.from('api_usage').insert({
+      user_id: profile.id,
+      api_key: apiKey,
+      endpoint: '/api/v1/screenshots/batch',
+      date: today,
+      request_count: normalized.length,
+    });
+
+    return res.json({
+      success: true,
+      batchId: batch.id,
+      projectId: project.projectId,
+      totalJobs: normalized.length,
+      jobs: jobs || [],
+      message: `Queued ${normalized.length} screenshot jobs. Poll the batch endpoint for progress.`,
+      statusUrl: `/api/v1/batches/${batch.id}`,
+    });
+  } catch (error) {
+    console.error('API batch screenshot error:', error);
+    return res.status(500).json({
+      error: 'Failed to create screenshot batch',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -1,5 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { validateWebhookUrl } from '../_lib/webhookUrls.js';
+import { resolveProjectId } from '../_lib/projects.js';
+import {
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_CRAWL_MAX_URLS,
+  crawlSource,
+  validateCrawlEngine,
+  validateCrawlRules,
+} from '../_lib/crawl.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -143,11 +152,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Track API usage
     await trackUsage(profile.id, apiKey, 'sitemap_discovery');
 
-    const { domain } = req.body;
+    const {
+      domain,
+      callbackUrl,
+      projectId,
+      maxUrls = DEFAULT_CRAWL_MAX_URLS,
+      crawlDepth = DEFAULT_CRAWL_DEPTH,
+      includePatterns = [],
+      excludePatterns = [],
+      crawlEngine = 'auto',
+      render = false,
+    } = req.body;
     if (!domain) {
       return res.status(400).json({ error: 'Domain is required' });
     }
 
+    // Crawler and rules used for the fallback crawl
+    const crawlRules = { maxUrls, crawlDepth, includePatterns, excludePatterns };
+    const engineError = validateCrawlEngine(crawlEngine, render, crawlRules);
+    if (engineError) {
+      return res.status(400).json({ error: engineError });
+    }
+
+    const rulesError = validateCrawlRules(crawlRules);
+    if (rulesError) {
+      return res.status(400).json({ error: rulesError });
+    }
+
+    // Validate callback URL (webhook fired when a fallback crawl finishes)
+    if (callbackUrl !== undefined) {
+      const callbackError = await validateWebhookUrl(callbackUrl, 'callbackUrl');
+      if (callbackError) {
+        return res.status(400).json({ error: callbackError });
+      }
+    }
+
     // Normalize domain
     let baseUrl = domain.trim();
     if (!baseUrl.startsWith('http://') && !baseUrl.startsWith('https://')) {
@@ -215,6 +254,63 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // With a callback URL, fall back to a crawl and deliver the result by webhook
+    if (callbackUrl) {
+      const project = await resolveProjectId(supabase, profile.id, projectId, baseUrl);
+      if (project.error) {
+        return res.status(404).json({ error: project.error });
+      }
+
+      const { data: sitemapJob, error: sitemapError } = await supabase
+        .from('sitemap_jobs')
+        .insert({
+          user_id: profile.id,
+          project_id: project.projectId,
+          domain: baseUrl,
+          status: 'processing',
+          source: crawlSource(crawlEngine, render, crawlRules),
+          urls: [],
+          callback_url: callbackUrl,
+        })
+        .select()
+        .single();
+
+      if (sitemapError) throw sitemapError;
+
+      const { data: crawlJob, error: crawlError } = await supabase
+        .from('crawl_jobs')
+        .insert({
+          user_id: profile.id,
+          sitemap_job_id: sitemapJob.id,
+          project_id: project.projectId,
+          domain: baseUrl,
+          status: 'pending',
+          max_urls: maxUrls,
+          crawl_depth: crawlDepth,
+          include_patterns: includePatterns,
+          exclude_patterns: excludePatterns,
+          engine: crawlEngine,
+          render,
+          discovered_urls: [],
+        })
+        .select()
+        .single();
+
+      if (crawlError) throw crawlError;
+
+      return res.status(202).json({
+        success: false,
+        domain: baseUrl,
+        urls: [],
+        count: 0,
+        source: null,
+        sitemapJobId: sitemapJob.id,
+        crawlJobId: crawlJob.id,
+        projectId: project.projectId,
+        message: 'No sitemap found. A crawl was queued; results will be sent to callbackUrl.',
+      });
+    }
+
     return res.json({
       success: false,
       domain: baseUrl,
@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { authenticateCaller } from '../_lib/auth.js';
+import { validateWebhookUrl } from '../_lib/webhookUrls.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const WEBHOOK_EVENTS = [
+  'screenshot.completed',
+  'screenshot.failed',
+  'sitemap.completed',
+  'sitemap.failed',
+  'crawl.completed',
+  'crawl.failed',
+];
+
+const MAX_ENDPOINTS = 10;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // The dashboard sends the user's session, API clients their key
+    const auth = await authenticateCaller(supabase, req);
+    if ('error' in auth) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    const { profile } = auth;
+
+    if (req.method === 'GET') {
+      const { data: endpoints, error } = await supabase
+        .from('webhook_endpoints')
+        .select('id, url, description, events, is_active, created_at, updated_at')
+        .eq('user_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return res.json({
+        success: true,
+        endpoints: endpoints || [],
+        // Secret used to sign per-request callbackUrl deliveries
+        callbackSigningSecret: profile.webhook_secret,
+        events: WEBHOOK_EVENTS,
+      });
+    }
+
+    const { url, description, events = WEBHOOK_EVENTS } = req.body as {
+      url?: string;
+      description?: string;
+      events?: string[];
+    };
+
+    if (!url) {
+      return res.status(400).json({ error: 'URL is required' });
+    }
+
+    const urlError = await validateWebhookUrl(url, 'URL');
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    if (!Array.isArray(events) || events.length === 0) {
+      return res.status(400).json({ error: 'events must be a non-empty array' });
+    }
+
+    const unknownEvents = events.filter((event) => !WEBHOOK_EVENTS.includes(event));
+    if (unknownEvents.length > 0) {
+      return res.status(400).json({
+        error: `Unknown events: ${unknownEvents.join(', ')}`,
+        events: WEBHOOK_EVENTS,
+      });
+    }
+
+    const { count } = await supabase
+      .from('webhook_endpoints')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', profile.id);
+
+    if ((count ?? 0) >= MAX_ENDPOINTS) {
+      return res.status(400).json({ error: `Maximum ${MAX_ENDPOINTS} webhook endpoints per account` });
+    }
+
+    const { data: endpoint, error: insertError } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        user_id: profile.id,
+        url,
+        description: description ?? null,
+        events: [...new Set(events)],
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    // The secret is only returned once, on creation
+    return res.status(201).json({
+      success: true,
+      endpoint,
+    });
+  } catch (error) {
+    console.error('API webhooks error:', error);
+    return res.status(500).json({
+      error: 'Failed to process webhook request',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { authenticateCaller } from '../../_lib/auth.js';
+import { validateWebhookUrl } from '../../_lib/webhookUrls.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const WEBHOOK_EVENTS = [
+  'screenshot.completed',
+  'screenshot.failed',
+  'sitemap.completed',
+  'sitemap.failed',
+  'crawl.completed',
+  'crawl.failed',
+];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // The dashboard sends the user's session, API clients their key
+    const auth = await authenticateCaller(supabase, req);
+    if ('error' in auth) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    const { profile } = auth;
+
+    const { id } = req.query;
+    if (typeof id !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return res.status(404).json({ error: 'Webhook endpoint not found' });
+    }
+
+    const { data: endpoint, error: endpointError } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, description, events, is_active, created_at, updated_at')
+      .eq('id', id)
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (endpointError) throw endpointError;
+
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Webhook endpoint not found' });
+    }
+
+    if (req.method === 'GET') {
+      // Include the most recent deliveries for debugging
+      const { data: deliveries, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id, event, job_type, job_id, status, attempts, response_status, last_error, next_attempt_at, delivered_at, created_at')
+        .eq('endpoint_id', id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      return res.json({ success: true, endpoint, deliveries: deliveries || [] });
+    }
+
+    if (req.method === 'DELETE') {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return res.json({ success: true });
+    }
+
+    // PATCH
+    const { url, description, events, isActive } = req.body as {
+      url?: string;
+      description?: string | null;
+      events?: string[];
+      isActive?: boolean;
+    };
+
+    const updates: Record<string, unknown> = {};
+
+    if (url !== undefined) {
+      const urlError = await validateWebhookUrl(url, 'URL');
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+      updates.url = url;
+    }
+
+    if (events !== undefined) {
+      if (!Array.isArray(events) || events.length === 0) {
+        return res.status(400).json({ error: 'events must be a non-empty array' });
+      }
+      const unknownEvents = events.filter((event) => !WEBHOOK_EVENTS.includes(event));
+      if (unknownEvents.length > 0) {
+        return res.status(400).json({
+          error: `Unknown events: ${unknownEvents.join(', ')}`,
+          events: WEBHOOK_EVENTS,
+        });
+      }
+      updates.events = [...new Set(events)];
+    }
+
+    if (description !== undefined) updates.description = description;
+    if (isActive !== undefined) updates.is_active = !!isActive;
+
+    const { data: updated, error: updateError } = await supabase
+      .from('webhook_endpoints')
+      .update(updates)
+      .eq('id', id)
+      .select('id, url, description, events, is_active, created_at, updated_at')
+      .single();
+
+    if (updateError) throw updateError;
+
+    return res.json({ success: true, endpoint: updated });
+  } catch (error) {
+    console.error('API webhook endpoint error:', error);
+    return res.status(500).json({
+      error: 'Failed to process webhook request',
+      message: (error as Error).message,
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import type { DeviceType } from '../../types/database.types';
+import { DEVICE_CATEGORIES, DEVICE_PROFILES, formatDeviceLabel, type DeviceSelection } from './devices';
+
+interface DevicePickerProps {
+  label?: string;
+  value: DeviceSelection;
+  onChange: (value: DeviceSelection) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+// Named device profiles grouped by kind, or a custom width, height and pixel ratio
+export function DevicePicker({ label = 'Device', value, onChange }: DevicePickerProps) {
+  const setViewport = (field: keyof DeviceSelection['viewport'], input: string) => {
+    const number = parseFloat(input);
+    onChange({ ...value, viewport: { ...value.viewport, [field]: Number.isNaN(number) ? 0 : number } });
+  };
+
+  return (
+    <div className="w-full">
+      <label htmlFor="device-picker" className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        id="device-picker"
+        value={value.deviceType}
+        onChange={(e) => onChange({ ...value, deviceType: e.target.value as DeviceType })}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+      >
+        {DEVICE_CATEGORIES.map(category => (
+          <optgroup key={category.value} label={category.label}>
+            {(Object.keys(DEVICE_PROFILES) as Exclude<DeviceType, 'custom'>[])
+              .filter(deviceType => DEVICE_PROFILES[deviceType].category === category.value)
+              .map(deviceType => (
+                <option key={deviceType} value={deviceType}>
+                  {formatDeviceLabel(deviceType)}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+        <option value="custom">Custom size</option>
+      </select>
+
+      {value.deviceType === 'custom' && (
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          <input
+            type="number"
+            min="100"
+            max="4096"
+            aria-label="Width"
+            title="Width (px)"
+            value={value.viewport.width}
+            onChange={(e) => setViewport('width', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min="100"
+            max="4096"
+            aria-label="Height"
+            title="Height (px)"
+            value={value.viewport.height}
+            onChange={(e) => setViewport('height', e.target.value)}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min="1"
+            max="4"
+            step="0.25"
+            aria-label="Pixel ratio"
+            title="Pixel ratio"
+            value={value.viewport.deviceScaleFactor}
+            onChange={(e) => setViewport('deviceScaleFactor', e.target.value)}
+            className={inputClassName}
+          />
+          <p className="col-span-3 text-xs text-gray-500">Width x height in pixels, and pixel ratio (1-4)</p>
+        </div>
+      )}
+    </div>
+  );
+}
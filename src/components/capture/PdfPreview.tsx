@@ -0,0 +1,23 @@
+import type { PdfOptions } from '../../types/database.types';
+import { formatPdfLabel } from './output';
+
+interface PdfPreviewProps {
+  pdf?: PdfOptions;
+}
+
+// Stand-in for an image preview of a PDF capture
+export function PdfPreview({ pdf }: PdfPreviewProps) {
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-gray-500">
+      <svg className="w-10 h-10 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+        />
+      </svg>
+      <span className="text-xs font-medium">PDF | {formatPdfLabel(pdf)}</span>
+    </div>
+  );
+}
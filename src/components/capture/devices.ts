@@ -0,0 +1,67 @@
+import type { DeviceType, ScreenshotOptions } from '../../types/database.types';
+
+// Device profiles offered in the pickers; the API (api/_lib/devices.ts) holds
+// the user agents and flags it emulates them with
+export interface DeviceProfile {
+  label: string;
+  category: 'desktop' | 'phone' | 'tablet';
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+}
+
+export const DEVICE_PROFILES: Record<Exclude<DeviceType, 'custom'>, DeviceProfile> = {
+  desktop: { label: 'Desktop', category: 'desktop', width: 1920, height: 1080, deviceScaleFactor: 1 },
+  laptop: { label: 'Laptop', category: 'desktop', width: 1440, height: 900, deviceScaleFactor: 2 },
+  mobile: { label: 'Mobile', category: 'phone', width: 375, height: 667, deviceScaleFactor: 2 },
+  'iphone-se': { label: 'iPhone SE', category: 'phone', width: 375, height: 667, deviceScaleFactor: 2 },
+  'iphone-15': { label: 'iPhone 15', category: 'phone', width: 393, height: 852, deviceScaleFactor: 3 },
+  'iphone-15-pro-max': { label: 'iPhone 15 Pro Max', category: 'phone', width: 430, height: 932, deviceScaleFactor: 3 },
+  'pixel-8': { label: 'Pixel 8', category: 'phone', width: 412, height: 915, deviceScaleFactor: 2.625 },
+  'galaxy-s23': { label: 'Galaxy S23', category: 'phone', width: 360, height: 780, deviceScaleFactor: 3 },
+  tablet: { label: 'Tablet', category: 'tablet', width: 768, height: 1024, deviceScaleFactor: 2 },
+  'ipad-air': { label: 'iPad Air', category: 'tablet', width: 820, height: 1180, deviceScaleFactor: 2 },
+  'ipad-pro-12': { label: 'iPad Pro 12.9"', category: 'tablet', width: 1024, height: 1366, deviceScaleFactor: 2 },
+};
+
+export const DEVICE_CATEGORIES = [
+  { value: 'desktop', label: 'Desktop' },
+  { value: 'phone', label: 'Phones' },
+  { value: 'tablet', label: 'Tablets' },
+] as const;
+
+// A picked device; the viewport is only used for 'custom'
+export interface DeviceSelection {
+  deviceType: DeviceType;
+  viewport: { width: number; height: number; deviceScaleFactor: number };
+}
+
+export const DEFAULT_DEVICE: DeviceSelection = {
+  deviceType: 'desktop',
+  viewport: { width: 1280, height: 800, deviceScaleFactor: 1 },
+};
+
+function formatSize(width: number, height: number, deviceScaleFactor: number) {
+  return `${width}x${height}${deviceScaleFactor !== 1 ? ` @${deviceScaleFactor}x` : ''}`;
+}
+
+export function formatDeviceLabel(deviceType: DeviceType | undefined, viewport?: ScreenshotOptions['viewport']): string {
+  if (deviceType === 'custom') {
+    return viewport ? `Custom (${formatSize(viewport.width, viewport.height, viewport.deviceScaleFactor ?? 1)})` : 'Custom';
+  }
+  const profile = DEVICE_PROFILES[deviceType ?? 'desktop'];
+  return profile ? `${profile.label} (${formatSize(profile.width, profile.height, profile.deviceScaleFactor)})` : String(deviceType);
+}
+
+// Select options for the named profiles, for pickers without custom sizes
+export const deviceOptions = (Object.keys(DEVICE_PROFILES) as Exclude<DeviceType, 'custom'>[]).map(deviceType => ({
+  value: deviceType,
+  label: formatDeviceLabel(deviceType),
+}));
+
+// The deviceType and viewport options sent for a selection
+export function getDeviceOptions(selection: DeviceSelection): Pick<ScreenshotOptions, 'deviceType' | 'viewport'> {
+  return selection.deviceType === 'custom'
+    ? { deviceType: 'custom', viewport: selection.viewport }
+    : { deviceType: selection.deviceType };
+}
@@ -0,0 +1,29 @@
+import type { PaperSize, PdfOptions, ScreenshotOptions } from '../../types/database.types';
+
+export const PAPER_SIZE_OPTIONS: { value: PaperSize; label: string }[] = [
+  { value: 'A4', label: 'A4' },
+  { value: 'Letter', label: 'Letter' },
+  { value: 'Legal', label: 'Legal' },
+  { value: 'A3', label: 'A3' },
+  { value: 'A5', label: 'A5' },
+  { value: 'Tabloid', label: 'Tabloid' },
+];
+
+export const PDF_MEDIA_OPTIONS = [
+  { value: 'screen', label: 'Screen (as in the browser)' },
+  { value: 'print', label: "Print (the page's print styles)" },
+];
+
+// File extension of a capture, by its format
+export function getFileExtension(format: ScreenshotOptions['format']): string {
+  return format === 'pdf' ? 'pdf' : format === 'jpeg' ? 'jpg' : 'png';
+}
+
+// PDFs can't be previewed as images or put in device mockups
+export function isPdfCapture(job: { options?: ScreenshotOptions | null }): boolean {
+  return job.options?.format === 'pdf';
+}
+
+export function formatPdfLabel(pdf?: PdfOptions): string {
+  return `${pdf?.paperSize ?? 'A4'} ${pdf?.landscape ? 'landscape' : 'portrait'}`;
+}
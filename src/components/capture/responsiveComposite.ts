@@ -0,0 +1,133 @@
+import type { ScreenshotJob } from '../../types/database.types';
+import { formatDeviceLabel } from './devices';
+
+type CompositeJob = Pick<ScreenshotJob, 'url' | 'screenshot_url' | 'options'>;
+
+// Tallest screen in the composite, in pixels; the others keep their size relative to it
+const SCREEN_HEIGHT = 720;
+const MARGIN = 60;
+const GAP = 48;
+const LABEL_HEIGHT = 40;
+const BACKGROUND = '#f3f4f6';
+const FRAME = '#111827';
+
+// Jobs of each device group with at least two captures, in order of first appearance
+export function groupByDevice<T extends Pick<ScreenshotJob, 'device_group_id'>>(jobs: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const job of jobs) {
+    if (!job.device_group_id) continue;
+    groups.set(job.device_group_id, [...(groups.get(job.device_group_id) || []), job]);
+  }
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+interface DeviceFrame {
+  job: CompositeJob;
+  image: ImageBitmap;
+  kind: 'desktop' | 'tablet' | 'phone';
+  // Screen size in composite pixels
+  width: number;
+  height: number;
+  bezel: number;
+  // Monitor stand below desktop screens
+  stand: number;
+}
+
+async function loadImage(url: string): Promise<ImageBitmap> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load ${url}: HTTP ${response.status}`);
+  return createImageBitmap(await response.blob());
+}
+
+// Desktop, tablet and phone captures of a page side by side in device mockups,
+// widest first, showing the top of each page as it fits the device's screen
+export async function createResponsiveComposite(jobs: CompositeJob[]): Promise<Blob> {
+  const captures = await Promise.all(
+    jobs
+      .filter(job => job.screenshot_url)
+      .map(async job => ({ job, image: await loadImage(job.screenshot_url!) }))
+  );
+
+  const sizes = captures.map(({ job, image }) => ({
+    width: job.options?.viewport?.width ?? image.width,
+    height: job.options?.viewport?.height ?? image.height,
+  }));
+  const scale = SCREEN_HEIGHT / Math.max(...sizes.map(size => size.height));
+
+  const frames: DeviceFrame[] = captures
+    .map(({ job, image }, index) => {
+      const kind: DeviceFrame['kind'] = !job.options?.viewport?.isMobile
+        ? 'desktop'
+        : sizes[index].width >= 600 ? 'tablet' : 'phone';
+      return {
+        job,
+        image,
+        kind,
+        width: Math.round(sizes[index].width * scale),
+        height: Math.round(sizes[index].height * scale),
+        bezel: kind === 'desktop' ? 14 : kind === 'tablet' ? 18 : 12,
+        stand: kind === 'desktop' ? 70 : 0,
+      };
+    })
+    .sort((a, b) => b.width - a.width);
+
+  const frameHeight = (frame: DeviceFrame) => frame.height + frame.bezel * 2 + frame.stand;
+  const baseline = MARGIN + Math.max(...frames.map(frameHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = MARGIN * 2 + frames.reduce((sum, frame) => sum + frame.width + frame.bezel * 2, 0) + GAP * (frames.length - 1);
+  canvas.height = baseline + LABEL_HEIGHT + MARGIN;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  let x = MARGIN;
+  for (const frame of frames) {
+    const outerWidth = frame.width + frame.bezel * 2;
+    const outerHeight = frame.height + frame.bezel * 2;
+    const top = baseline - frame.stand - outerHeight;
+
+    // Body, and a stand for monitors
+    context.fillStyle = FRAME;
+    context.beginPath();
+    context.roundRect(x, top, outerWidth, outerHeight, frame.kind === 'desktop' ? 10 : frame.bezel * 2);
+    context.fill();
+    if (frame.stand) {
+      const center = x + outerWidth / 2;
+      context.fillRect(center - 30, top + outerHeight, 60, frame.stand - 12);
+      context.beginPath();
+      context.roundRect(center - 110, baseline - 12, 220, 12, 6);
+      context.fill();
+    }
+
+    // The top of the page, cropped to the screen's proportions
+    const { image } = frame;
+    const sourceHeight = Math.min(image.height, Math.round((image.width * frame.height) / frame.width));
+    context.save();
+    context.beginPath();
+    context.roundRect(x + frame.bezel, top + frame.bezel, frame.width, frame.height, frame.kind === 'desktop' ? 2 : frame.bezel);
+    context.clip();
+    context.fillStyle = '#ffffff';
+    context.fillRect(x + frame.bezel, top + frame.bezel, frame.width, frame.height);
+    context.drawImage(image, 0, 0, image.width, sourceHeight, x + frame.bezel, top + frame.bezel, frame.width, (sourceHeight * frame.width) / image.width);
+    context.restore();
+
+    context.fillStyle = '#4b5563';
+    context.font = '16px system-ui, sans-serif';
+    context.textAlign = 'center';
+    context.fillText(
+      formatDeviceLabel(frame.job.options?.deviceType, frame.job.options?.viewport),
+      x + outerWidth / 2,
+      baseline + LABEL_HEIGHT - 12
+    );
+
+    image.close();
+    x += outerWidth + GAP;
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode composite'))), 'image/png');
+  });
+}
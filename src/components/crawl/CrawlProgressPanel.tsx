@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '../ui/Badge';
+import { ProgressBar } from '../ui/ProgressBar';
+import type { CrawlJob } from '../../types/database.types';
+
+interface CrawlProgressPanelProps {
+  job: CrawlJob;
+}
+
+const ENGINE_LABELS: Record<string, string> = {
+  screaming_frog: 'Screaming Frog',
+  native: 'Built-in crawler',
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function CrawlProgressPanel({ job }: CrawlProgressPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick so the ETA and elapsed time count down between updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isQueued = job.status === 'pending';
+  const isPaused = job.status === 'paused';
+  const etaSeconds = job.eta_at ? (new Date(job.eta_at).getTime() - now) / 1000 : null;
+  const elapsedSeconds = job.started_at ? (now - new Date(job.started_at).getTime()) / 1000 : null;
+
+  const stats = [
+    { label: 'Crawled', value: job.crawl_progress.toLocaleString() },
+    { label: 'Queued', value: job.crawl_queued.toLocaleString() },
+    { label: 'Errors', value: job.crawl_errors.toLocaleString() },
+    {
+      label: 'Time left',
+      value: etaSeconds === null ? '-' : etaSeconds > 0 ? `~${formatDuration(etaSeconds)}` : 'Finishing',
+    },
+  ];
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {!isPaused && (
+            <div className="w-4 h-4 border-2 border-primary-600 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+          )}
+          <span className="text-sm font-medium text-gray-900 truncate">Crawling {job.domain}</span>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {job.engine_used && <Badge>{ENGINE_LABELS[job.engine_used]}</Badge>}
+          <Badge variant={isQueued || isPaused ? 'warning' : 'info'}>
+            {isPaused ? 'Paused' : isQueued ? 'Queued' : 'Running'}
+          </Badge>
+        </div>
+      </div>
+
+      {isPaused ? (
+        <p className="text-sm text-gray-600">The crawl is paused and will start over when resumed.</p>
+      ) : isQueued ? (
+        <p className="text-sm text-gray-600">Waiting for a crawl worker to pick up the job...</p>
+      ) : (
+        <>
+          <ProgressBar value={job.crawl_progress} max={Math.max(job.crawl_total, 1)} size="sm" />
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {stats.map((stat) => (
+              <div key={stat.label}>
+                <p className="text-xs text-gray-500 uppercase">{stat.label}</p>
+                <p className={`text-lg font-semibold ${stat.label === 'Errors' && job.crawl_errors > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 space-y-1">
+            {job.current_url && (
+              <p className="truncate" title={job.current_url}>
+                Current: <span className="font-mono">{job.current_url}</span>
+              </p>
+            )}
+            {elapsedSeconds !== null && <p>Running for {formatDuration(elapsedSeconds)}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CrawlProgressPanel;
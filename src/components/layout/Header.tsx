@@ -16,6 +16,7 @@ export function Header() {
   const tabs = [
     { path: '/', label: 'Generator' },
     { path: '/projects', label: 'Projects' },
+    { path: '/review', label: 'Review' },
     { path: '/dashboard', label: 'Dashboard' },
   ];
 
@@ -0,0 +1,88 @@
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import { StatusBadge } from './StatusBadge';
+import { formatDate } from './format';
+import type { ScreenshotDiff, ScreenshotRun } from '../../types/database.types';
+
+interface ComparisonModalProps {
+  comparison: {
+    run: ScreenshotRun;
+    diffs: ScreenshotDiff[];
+    error: string | null;
+  } | null;
+  onClose: () => void;
+}
+
+function MismatchBadge({ diff }: { diff: ScreenshotDiff }) {
+  if (diff.status !== 'completed' || diff.mismatch_percentage === null) {
+    return <StatusBadge status={diff.status} />;
+  }
+  if (diff.mismatch_percentage === 0) {
+    return <Badge variant="success">No change</Badge>;
+  }
+  return (
+    <Badge variant={diff.mismatch_percentage < 1 ? 'warning' : 'error'}>
+      {diff.mismatch_percentage}% changed
+    </Badge>
+  );
+}
+
+// Each page of a run diffed against its capture in the previous run
+export function ComparisonModal({ comparison, onClose }: ComparisonModalProps) {
+  return (
+    <Modal
+      isOpen={comparison !== null}
+      onClose={onClose}
+      title="Compare With Previous Run"
+      size="xl"
+    >
+      {comparison && (
+        <div className="space-y-4">
+          {comparison.error ? (
+            <p className="text-sm text-red-600">{comparison.error}</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {comparison.diffs.length} pages from the run of {formatDate(comparison.run.created_at)} compared with
+                the previous run.{' '}
+                {comparison.diffs.filter(diff => (diff.mismatch_percentage ?? 0) > 0).length} changed.
+              </p>
+              <div className="border rounded-lg divide-y divide-gray-100 max-h-[60vh] overflow-y-auto">
+                {comparison.diffs.map((diff) => (
+                  <div key={diff.id} className="flex items-center gap-4 px-4 py-3">
+                    {diff.diff_url ? (
+                      <a href={diff.diff_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                        <img
+                          src={diff.diff_url}
+                          alt={`Changes on ${diff.url}`}
+                          className="w-24 h-16 object-cover object-top rounded border border-gray-200"
+                        />
+                      </a>
+                    ) : (
+                      <div className="w-24 h-16 flex-shrink-0 rounded border border-gray-200 bg-gray-50" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm text-gray-900 truncate" title={diff.url}>{diff.url}</p>
+                      <p className="text-xs text-gray-500">
+                        {diff.device_type}
+                        {diff.status === 'completed' && diff.regions.length > 0 && ` | ${diff.regions.length} changed regions`}
+                        {diff.error_message && ` | ${diff.error_message}`}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0"><MismatchBadge diff={diff} /></div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          <div className="flex justify-end pt-2">
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
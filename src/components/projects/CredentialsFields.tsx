@@ -0,0 +1,88 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import type { ProjectForm } from './projectForm';
+import type { ProjectCredentials } from '../../types/database.types';
+
+interface CredentialsFieldsProps {
+  form: ProjectForm;
+  setForm: Dispatch<SetStateAction<ProjectForm>>;
+  saved: ProjectCredentials | null;
+  isRemoving: boolean;
+  onRemove: () => void;
+}
+
+// Basic auth, headers and cookies for a project's captures. Saved values are
+// only summarized by name, never shown.
+export function CredentialsFields({ form, setForm, saved, isRemoving, onRemove }: CredentialsFieldsProps) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-700 mb-1">Site credentials</p>
+      <p className="text-xs text-gray-500 mb-2">
+        For password-protected sites such as staging. Used by every capture in this project on its domain or
+        subdomains, including schedules, and sent only to the page's own host. Stored encrypted; saved values are
+        never shown again.
+      </p>
+      {saved && (
+        <div className="flex items-center justify-between gap-2 mb-3 p-2 bg-gray-50 rounded-lg text-sm text-gray-700">
+          <span>
+            Saved:{' '}
+            {[
+              saved.basicAuth && 'basic auth',
+              saved.headers.length > 0 && `headers (${saved.headers.join(', ')})`,
+              saved.cookies.length > 0 && `cookies (${saved.cookies.join(', ')})`,
+            ].filter(Boolean).join(', ')}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            isLoading={isRemoving}
+          >
+            Remove
+          </Button>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Basic auth username"
+          autoComplete="off"
+          value={form.authUsername}
+          onChange={(e) => setForm(prev => ({ ...prev, authUsername: e.target.value }))}
+        />
+        <Input
+          label="Basic auth password"
+          type="password"
+          autoComplete="new-password"
+          value={form.authPassword}
+          onChange={(e) => setForm(prev => ({ ...prev, authPassword: e.target.value }))}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4 mt-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Headers</label>
+          <textarea
+            value={form.authHeaders}
+            onChange={(e) => setForm(prev => ({ ...prev, authHeaders: e.target.value }))}
+            rows={2}
+            placeholder="X-Preview-Token: abc123"
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cookies</label>
+          <textarea
+            value={form.authCookies}
+            onChange={(e) => setForm(prev => ({ ...prev, authCookies: e.target.value }))}
+            rows={2}
+            placeholder="session=abc123"
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        One per line. Leave everything empty to keep the saved credentials; entering any replaces them all.
+      </p>
+    </div>
+  );
+}
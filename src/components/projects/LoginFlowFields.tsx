@@ -0,0 +1,95 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { formatDate } from './format';
+import type { ProjectForm } from './projectForm';
+import type { ProjectLoginFlow } from '../../types/database.types';
+
+interface LoginFlowFieldsProps {
+  form: ProjectForm;
+  setForm: Dispatch<SetStateAction<ProjectForm>>;
+  saved: ProjectLoginFlow | null;
+  isRemoving: boolean;
+  onRemove: () => void;
+}
+
+// Login page, selectors and account for a project's login flow, with the
+// state of its last sign-in
+export function LoginFlowFields({ form, setForm, saved, isRemoving, onRemove }: LoginFlowFieldsProps) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-700 mb-1">Login flow</p>
+      <p className="text-xs text-gray-500 mb-2">
+        For sites behind a login form. Captures and built-in crawls sign in first and reuse the session, logging in
+        again when a page redirects back to the login page.
+      </p>
+      {saved && (
+        <div className="flex items-center justify-between gap-2 mb-3 p-2 bg-gray-50 rounded-lg text-sm text-gray-700">
+          <span>
+            {saved.lastError
+              ? <span className="text-red-600">Last login failed: {saved.lastError}</span>
+              : saved.sessionUpdatedAt
+                ? `Signed in ${formatDate(saved.sessionUpdatedAt)}`
+                : 'Not signed in yet'}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            isLoading={isRemoving}
+          >
+            Remove
+          </Button>
+        </div>
+      )}
+      <Input
+        label="Login page URL"
+        placeholder="https://staging.example.com/login"
+        value={form.loginUrl}
+        onChange={(e) => setForm(prev => ({ ...prev, loginUrl: e.target.value }))}
+      />
+      <div className="grid grid-cols-2 gap-4 mt-3">
+        <Input
+          label="Username field"
+          placeholder="#email"
+          value={form.loginUsernameSelector}
+          onChange={(e) => setForm(prev => ({ ...prev, loginUsernameSelector: e.target.value }))}
+        />
+        <Input
+          label="Password field"
+          placeholder="#password"
+          value={form.loginPasswordSelector}
+          onChange={(e) => setForm(prev => ({ ...prev, loginPasswordSelector: e.target.value }))}
+        />
+        <Input
+          label="Submit button (optional)"
+          placeholder="button[type=submit]"
+          value={form.loginSubmitSelector}
+          onChange={(e) => setForm(prev => ({ ...prev, loginSubmitSelector: e.target.value }))}
+        />
+        <Input
+          label="Shown when signed in"
+          placeholder=".account-menu"
+          value={form.loginSuccessSelector}
+          onChange={(e) => setForm(prev => ({ ...prev, loginSuccessSelector: e.target.value }))}
+        />
+        <Input
+          label="Username"
+          autoComplete="off"
+          value={form.loginUsername}
+          onChange={(e) => setForm(prev => ({ ...prev, loginUsername: e.target.value }))}
+        />
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          value={form.loginPassword}
+          onChange={(e) => setForm(prev => ({ ...prev, loginPassword: e.target.value }))}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Fields are CSS selectors. Leave the username and password empty to keep the saved ones.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { Select } from '../ui/Select';
+import { deviceOptions } from '../capture/devices';
+import { CredentialsFields } from './CredentialsFields';
+import { LoginFlowFields } from './LoginFlowFields';
+import type { ProjectForm } from './projectForm';
+import type { DeviceType, ProjectCredentials, ProjectLoginFlow } from '../../types/database.types';
+
+interface ProjectModalProps {
+  isOpen: boolean;
+  isEditing: boolean;
+  form: ProjectForm;
+  setForm: Dispatch<SetStateAction<ProjectForm>>;
+  credentials: ProjectCredentials | null;
+  isRemovingCredentials: boolean;
+  onRemoveCredentials: () => void;
+  loginFlow: ProjectLoginFlow | null;
+  isRemovingLoginFlow: boolean;
+  onRemoveLoginFlow: () => void;
+  error: string | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const delayOptions = [
+  { value: '0', label: 'No delay' },
+  { value: '1', label: '1s delay' },
+  { value: '2', label: '2s delay' },
+  { value: '3', label: '3s delay' },
+  { value: '5', label: '5s delay' },
+];
+
+// Create or edit a project: its domain, default screenshot settings,
+// credentials and login flow
+export function ProjectModal({
+  isOpen,
+  isEditing,
+  form,
+  setForm,
+  credentials,
+  isRemovingCredentials,
+  onRemoveCredentials,
+  loginFlow,
+  isRemovingLoginFlow,
+  onRemoveLoginFlow,
+  error,
+  isSaving,
+  onClose,
+  onSave,
+}: ProjectModalProps) {
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Project' : 'New Project'}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <Input
+          label="Name"
+          placeholder={form.domain || 'My website (staging)'}
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+        />
+        <Input
+          label="Domain"
+          placeholder="example.com"
+          value={form.domain}
+          onChange={(e) => setForm(prev => ({ ...prev, domain: e.target.value }))}
+          helperText="Several projects can share a domain, e.g. staging and production."
+        />
+        <Input
+          label="Description"
+          placeholder="Optional"
+          value={form.description}
+          onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+        />
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Default screenshot settings</p>
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Viewport"
+              options={deviceOptions}
+              value={form.deviceType}
+              onChange={(value) => setForm(prev => ({ ...prev, deviceType: value as DeviceType }))}
+            />
+            <Select
+              label="Delay"
+              options={delayOptions}
+              value={String(form.delay)}
+              onChange={(value) => setForm(prev => ({ ...prev, delay: parseInt(value) }))}
+            />
+          </div>
+          <label className="flex items-center gap-2 mt-3">
+            <input
+              type="checkbox"
+              checked={form.fullPage}
+              onChange={(e) => setForm(prev => ({ ...prev, fullPage: e.target.checked }))}
+              className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700">Full Page</span>
+          </label>
+        </div>
+
+        <CredentialsFields
+          form={form}
+          setForm={setForm}
+          saved={credentials}
+          isRemoving={isRemovingCredentials}
+          onRemove={onRemoveCredentials}
+        />
+
+        <LoginFlowFields
+          form={form}
+          setForm={setForm}
+          saved={loginFlow}
+          isRemoving={isRemovingLoginFlow}
+          onRemove={onRemoveLoginFlow}
+        />
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={onSave} isLoading={isSaving}>
+            {isEditing ? 'Save Changes' : 'Create Project'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,178 @@
+import { Button } from '../ui/Button';
+import { formatDeviceLabel } from '../capture/devices';
+import { StatusBadge } from './StatusBadge';
+import { RUNS_PAGE_SIZE, RUN_SOURCE_LABELS, formatDate, formatDuration, getRunStatus } from './format';
+import type { JobAction, ScreenshotRun } from '../../types/database.types';
+
+export interface ProjectRuns {
+  runs: ScreenshotRun[];
+  total: number;
+  page: number;
+  isLoading: boolean;
+}
+
+interface RunsTabProps {
+  runs: ProjectRuns;
+  controllingRunId: string | null;
+  comparingRunId: string | null;
+  downloadingRunId: string | null;
+  onControl: (run: ScreenshotRun, action: JobAction) => void;
+  onView: (run: ScreenshotRun) => void;
+  onCompare: (run: ScreenshotRun) => void;
+  onDownload: (run: ScreenshotRun) => void;
+  onPageChange: (page: number) => void;
+}
+
+// A project's screenshot runs, newest first, each compared with the run before it
+export function RunsTab({
+  runs,
+  controllingRunId,
+  comparingRunId,
+  downloadingRunId,
+  onControl,
+  onView,
+  onCompare,
+  onDownload,
+  onPageChange,
+}: RunsTabProps) {
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-2 font-medium">Run</th>
+              <th className="px-4 py-2 font-medium">Status</th>
+              <th className="px-4 py-2 font-medium">URLs</th>
+              <th className="px-4 py-2 font-medium">Completed</th>
+              <th className="px-4 py-2 font-medium">Failed</th>
+              <th className="px-4 py-2 font-medium">Duration</th>
+              <th className="px-4 py-2 font-medium">Device</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {runs.runs.map((run, index) => {
+              // Compare against the run before this one
+              const previous = runs.runs[index + 1];
+              const completedDelta = previous ? run.completed_count - previous.completed_count : 0;
+              const failedDelta = previous ? run.failed_count - previous.failed_count : 0;
+              const runStatus = getRunStatus(run);
+              const isUnfinished = runStatus === 'pending' || runStatus === 'processing' || runStatus === 'paused';
+
+              return (
+                <tr key={run.id} className="border-t border-gray-100">
+                  <td className="px-4 py-2 text-gray-900 whitespace-nowrap">
+                    {formatDate(run.created_at)}
+                    <span className="ml-2 text-xs text-gray-400">{RUN_SOURCE_LABELS[run.source]}</span>
+                  </td>
+                  <td className="px-4 py-2"><StatusBadge status={runStatus} /></td>
+                  <td className="px-4 py-2 text-gray-700">{run.total_jobs}</td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {run.completed_count}
+                    {completedDelta !== 0 && (
+                      <span className={`ml-1 text-xs ${completedDelta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ({completedDelta > 0 ? '+' : ''}{completedDelta})
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {run.failed_count}
+                    {failedDelta !== 0 && (
+                      <span className={`ml-1 text-xs ${failedDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        ({failedDelta > 0 ? '+' : ''}{failedDelta})
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{formatDuration(run.duration_seconds)}</td>
+                  <td className="px-4 py-2 text-gray-700">{run.options?.deviceTypes
+                      ? run.options.deviceTypes.map(deviceType => formatDeviceLabel(deviceType)).join(', ')
+                      : formatDeviceLabel(run.options?.deviceType, run.options?.viewport)}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      {isUnfinished && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={controllingRunId === run.id}
+                            onClick={() => onControl(run, runStatus === 'paused' ? 'resume' : 'pause')}
+                          >
+                            {runStatus === 'paused' ? 'Resume' : 'Pause'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={controllingRunId === run.id}
+                            onClick={() => onControl(run, 'cancel')}
+                          >
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                      {!isUnfinished && run.failed_count > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={controllingRunId === run.id}
+                          onClick={() => onControl(run, 'retry')}
+                        >
+                          Retry Failed
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => onView(run)}>
+                        View
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={
+                          run.completed_count === 0 ||
+                          (!previous && runs.page * RUNS_PAGE_SIZE >= runs.total)
+                        }
+                        isLoading={comparingRunId === run.id}
+                        onClick={() => onCompare(run)}
+                      >
+                        Compare
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={run.completed_count === 0}
+                        isLoading={downloadingRunId === run.id}
+                        onClick={() => onDownload(run)}
+                      >
+                        Download ZIP
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {runs.total > RUNS_PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={runs.page === 1 || runs.isLoading}
+            onClick={() => onPageChange(runs.page - 1)}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={runs.page * RUNS_PAGE_SIZE >= runs.total || runs.isLoading}
+            onClick={() => onPageChange(runs.page + 1)}
+          >
+            Older
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { Select } from '../ui/Select';
+import { formatDeviceLabel } from '../capture/devices';
+import { buildCronExpression, weekdayOptions, type ScheduleForm } from './schedules';
+import type { ScreenshotSettings } from './screenshots';
+import type { DeviceType } from '../../types/database.types';
+
+interface ScheduleModalProps {
+  isOpen: boolean;
+  form: ScheduleForm;
+  setForm: Dispatch<SetStateAction<ScheduleForm>>;
+  error: string | null;
+  isSaving: boolean;
+  // URLs a "saved" schedule would capture, and whether they are a selection
+  scheduleUrlCount: number;
+  hasSelectedUrls: boolean;
+  screenshotOptions: ScreenshotSettings;
+  onClose: () => void;
+  onSubmit: () => void;
+}
+
+const frequencyOptions = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'custom', label: 'Custom (cron)' },
+];
+
+const timezoneOptions = Intl.supportedValuesOf('timeZone').map(tz => ({ value: tz, label: tz }));
+
+export function ScheduleModal({
+  isOpen,
+  form,
+  setForm,
+  error,
+  isSaving,
+  scheduleUrlCount,
+  hasSelectedUrls,
+  screenshotOptions,
+  onClose,
+  onSubmit,
+}: ScheduleModalProps) {
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="New Schedule"
+      size="lg"
+    >
+      {isOpen && (
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            placeholder="Optional, e.g. Weekly client report"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Frequency"
+              options={frequencyOptions}
+              value={form.frequency}
+              onChange={(value) => setForm(prev => ({
+                ...prev,
+                frequency: value as ScheduleForm['frequency'],
+                // Start the custom expression from the preset that was selected
+                cronExpression: value === 'custom' ? buildCronExpression(prev) : prev.cronExpression,
+              }))}
+            />
+            <Select
+              label="Timezone"
+              options={timezoneOptions}
+              value={form.timezone}
+              onChange={(value) => setForm(prev => ({ ...prev, timezone: value }))}
+            />
+          </div>
+
+          {form.frequency === 'custom' ? (
+            <Input
+              label="Cron expression"
+              placeholder="0 9 * * 1"
+              value={form.cronExpression}
+              onChange={(e) => setForm(prev => ({ ...prev, cronExpression: e.target.value }))}
+              helperText="minute hour day-of-month month day-of-week, at most once per hour"
+            />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {form.frequency === 'weekly' && (
+                <Select
+                  label="Day"
+                  options={weekdayOptions}
+                  value={form.weekday}
+                  onChange={(value) => setForm(prev => ({ ...prev, weekday: value }))}
+                />
+              )}
+              <Input
+                label="Time"
+                type="time"
+                value={form.time}
+                onChange={(e) => setForm(prev => ({ ...prev, time: e.target.value || '09:00' }))}
+              />
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">URLs</p>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={form.urlMode === 'saved'}
+                  disabled={scheduleUrlCount === 0}
+                  onChange={() => setForm(prev => ({ ...prev, urlMode: 'saved' }))}
+                  className="w-4 h-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700">
+                  {hasSelectedUrls
+                    ? `Selected URLs (${scheduleUrlCount})`
+                    : `All discovered URLs (${scheduleUrlCount})`}
+                </span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={form.urlMode === 'rediscover'}
+                  onChange={() => setForm(prev => ({ ...prev, urlMode: 'rediscover' }))}
+                  className="w-4 h-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700">Re-discover the sitemap on every run</span>
+              </label>
+            </div>
+            {form.urlMode === 'rediscover' && (
+              <div className="mt-3 max-w-xs">
+                <Input
+                  label="Max URLs per run"
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={form.maxUrls}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxUrls: e.target.value }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Captures use {formatDeviceLabel(screenshotOptions.viewport as DeviceType)}, {screenshotOptions.fullPage ? 'full page' : 'viewport only'},{' '}
+            {screenshotOptions.delay}s delay. Change these in the Discovered URLs tab before creating the schedule.
+          </p>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={onSubmit} isLoading={isSaving}>
+              Create Schedule
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,85 @@
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { formatDate } from './format';
+import { describeSchedule } from './schedules';
+import type { ProjectSchedule } from '../../types/database.types';
+
+interface SchedulesTabProps {
+  schedules: ProjectSchedule[];
+  updatingScheduleId: string | null;
+  onCreate: () => void;
+  onToggleActive: (schedule: ProjectSchedule) => void;
+  onDelete: (schedule: ProjectSchedule) => void;
+}
+
+export function SchedulesTab({ schedules, updatingScheduleId, onCreate, onToggleActive, onDelete }: SchedulesTabProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Capture this project automatically. Scheduled runs appear in the Runs tab.
+        </p>
+        <Button size="sm" onClick={onCreate}>
+          New Schedule
+        </Button>
+      </div>
+
+      {schedules.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No schedules for this project yet.</p>
+        </div>
+      ) : (
+        <div className="border rounded-lg divide-y divide-gray-100">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    {schedule.name || describeSchedule(schedule)}
+                  </span>
+                  {schedule.is_active ? (
+                    <Badge variant="success">Active</Badge>
+                  ) : (
+                    <Badge variant="default">Paused</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {schedule.name && `${describeSchedule(schedule)} | `}
+                  {schedule.timezone} |{' '}
+                  {schedule.url_mode === 'saved'
+                    ? `${schedule.urls.length} saved URLs`
+                    : `Re-discover sitemap (max ${schedule.max_urls} URLs)`}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Next run: {schedule.is_active && schedule.next_run_at ? formatDate(schedule.next_run_at) : '-'}
+                  {schedule.last_run_at && ` | Last run: ${formatDate(schedule.last_run_at)}`}
+                </p>
+                {schedule.last_error && (
+                  <p className="text-sm text-red-600">{schedule.last_error}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={updatingScheduleId === schedule.id}
+                  onClick={() => onToggleActive(schedule)}
+                >
+                  {schedule.is_active ? 'Pause' : 'Resume'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={updatingScheduleId === schedule.id}
+                  onClick={() => onDelete(schedule)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
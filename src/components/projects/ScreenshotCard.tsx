@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Badge } from '../ui/Badge';
+import { PdfPreview } from '../capture/PdfPreview';
+import { formatDeviceLabel } from '../capture/devices';
+import { isPdfCapture } from '../capture/output';
+import { StatusBadge } from './StatusBadge';
+import { extractPath } from './format';
+import type { ScreenshotJob } from '../../types/database.types';
+
+interface ScreenshotCardProps {
+  screenshot: ScreenshotJob;
+  isSelected: boolean;
+  onToggleSelected: (id: string) => void;
+  isBaseline: boolean;
+  isSettingBaseline: boolean;
+  onSetBaseline: (screenshot: ScreenshotJob) => void;
+}
+
+// Screenshot card with scroll animation
+export function ScreenshotCard({
+  screenshot,
+  isSelected,
+  onToggleSelected,
+  isBaseline,
+  isSettingBaseline,
+  onSetBaseline,
+}: ScreenshotCardProps) {
+  const isFullPage = screenshot.options?.fullPage;
+  const [isHovered, setIsHovered] = useState(false);
+
+  return (
+    <div
+      className={`
+        relative border rounded-lg overflow-hidden cursor-pointer transition-all
+        ${isSelected
+          ? 'border-primary-500 ring-2 ring-primary-200'
+          : 'border-gray-200 hover:border-gray-300'
+        }
+      `}
+      onClick={() => screenshot.status === 'completed' && onToggleSelected(screenshot.id)}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      {/* Checkbox */}
+      {screenshot.status === 'completed' && screenshot.screenshot_url && (
+        <div className="absolute top-2 left-2 z-10">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelected(screenshot.id)}
+            className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            onClick={(e) => e.stopPropagation()}
+          />
+        </div>
+      )}
+
+      {/* Image with scroll animation */}
+      <div className="aspect-video bg-gray-100 overflow-hidden">
+        {screenshot.status === 'completed' && screenshot.screenshot_url && isPdfCapture(screenshot) ? (
+          <PdfPreview pdf={screenshot.options?.pdf} />
+        ) : screenshot.status === 'completed' && screenshot.screenshot_url ? (
+          <img
+            src={screenshot.screenshot_url}
+            alt={screenshot.url}
+            className={`
+              w-full object-cover transition-[object-position] duration-[3s] ease-linear
+              ${isFullPage && isHovered ? 'object-bottom' : 'object-top'}
+            `}
+            style={{ height: isFullPage ? 'auto' : '100%', minHeight: '100%' }}
+          />
+        ) : screenshot.status === 'failed' ? (
+          <div className="w-full h-full flex items-center justify-center">
+            <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {/* Info */}
+      <div className="p-2">
+        <p className="text-xs text-gray-500 truncate" title={screenshot.url}>
+          {extractPath(screenshot.url) || 'homepage'}
+        </p>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-xs text-gray-400">
+            {formatDeviceLabel(screenshot.options?.deviceType, screenshot.options?.viewport)}
+          </span>
+          <StatusBadge status={screenshot.status} />
+        </div>
+        {screenshot.status === 'completed' && screenshot.project_id && !isPdfCapture(screenshot) && (
+          <div className="mt-1">
+            {isBaseline ? (
+              <Badge variant="info">Baseline</Badge>
+            ) : (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSetBaseline(screenshot);
+                }}
+                disabled={isSettingBaseline}
+                className="text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
+              >
+                Set as baseline
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { Button } from '../ui/Button';
+import { ScreenshotCard } from './ScreenshotCard';
+import { extractPath, formatDate } from './format';
+import { groupDeviceCaptures, groupScreenshotsByPath, type ProjectDetail } from './screenshots';
+import type { BaselineWithJob, ScreenshotJob } from '../../types/database.types';
+
+interface ScreenshotsTabProps {
+  detail: ProjectDetail;
+  hasUrls: boolean;
+  baselines: BaselineWithJob[];
+  settingBaselineId: string | null;
+  selectedScreenshots: Set<string>;
+  expandedGroups: Set<string>;
+  onShowAllRuns: () => void;
+  onSelectAll: () => void;
+  onDeselectAll: () => void;
+  onDownloadSelected: () => void;
+  onToggleSelected: (id: string) => void;
+  onToggleGroup: (group: string) => void;
+  onSetBaseline: (screenshot: ScreenshotJob) => void;
+  onLoadMore: () => void;
+}
+
+// A project's screenshots grouped by their first path segment, with each page
+// captured on several devices shown side by side
+export function ScreenshotsTab({
+  detail,
+  hasUrls,
+  baselines,
+  settingBaselineId,
+  selectedScreenshots,
+  expandedGroups,
+  onShowAllRuns,
+  onSelectAll,
+  onDeselectAll,
+  onDownloadSelected,
+  onToggleSelected,
+  onToggleGroup,
+  onSetBaseline,
+  onLoadMore,
+}: ScreenshotsTabProps) {
+  const { screenshots } = detail;
+
+  const cardProps = (screenshot: ScreenshotJob) => ({
+    screenshot,
+    isSelected: selectedScreenshots.has(screenshot.id),
+    onToggleSelected,
+    isBaseline: baselines.some(b => b.job_id === screenshot.id),
+    isSettingBaseline: settingBaselineId === screenshot.id,
+    onSetBaseline,
+  });
+
+  return (
+    <>
+      {/* Run filter */}
+      {detail.run && (
+        <div className="flex items-center justify-between p-3 bg-primary-50 rounded-lg text-sm">
+          <span className="text-primary-900">
+            Showing the run from {formatDate(detail.run.created_at)}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onShowAllRuns}>
+            Show All Runs
+          </Button>
+        </div>
+      )}
+
+      {/* Screenshot Actions */}
+      {screenshots.length > 0 && (
+        <div className="flex items-center gap-4 pb-4 border-b border-gray-100">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onSelectAll}
+          >
+            Select All
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onDeselectAll}
+          >
+            Deselect All
+          </Button>
+          {selectedScreenshots.size > 0 && (
+            <Button
+              size="sm"
+              onClick={onDownloadSelected}
+            >
+              Download Selected ({selectedScreenshots.size})
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Grouped Screenshots */}
+      {screenshots.length > 0 ? (
+        <div className="space-y-4">
+          {Object.entries(groupScreenshotsByPath(screenshots)).map(([group, groupScreenshots]) => (
+            <div key={group} className="border rounded-lg overflow-hidden">
+              <button
+                onClick={() => onToggleGroup(group)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-gray-50 hover:bg-gray-100 transition-colors"
+              >
+                <span className="font-medium text-gray-900">
+                  /{group} <span className="text-gray-500 font-normal">({groupScreenshots.length})</span>
+                </span>
+                <svg
+                  className={`w-5 h-5 text-gray-400 transition-transform ${expandedGroups.has(group) ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {expandedGroups.has(group) && (
+                <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {groupDeviceCaptures(groupScreenshots).map((item) => Array.isArray(item) ? (
+                    // One page on several devices, side by side
+                    <div key={item[0].device_group_id} className="col-span-full">
+                      <p className="text-xs text-gray-500 mb-2">
+                        {extractPath(item[0].url) || 'homepage'} on {item.length} devices
+                      </p>
+                      <div className="flex gap-4 items-start overflow-x-auto">
+                        {item.map((screenshot) => (
+                          <div key={screenshot.id} className="w-56 flex-shrink-0">
+                            <ScreenshotCard {...cardProps(screenshot)} />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <ScreenshotCard key={item.id} {...cardProps(item)} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {screenshots.length < detail.screenshotTotal && (
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-500">
+                Showing {screenshots.length} of {detail.screenshotTotal}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                isLoading={detail.isLoading}
+                onClick={onLoadMore}
+              >
+                Load More
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <p>No screenshots generated for this project yet.</p>
+          {hasUrls && (
+            <p className="text-sm mt-2">
+              Switch to "Discovered URLs" tab to generate screenshots.
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
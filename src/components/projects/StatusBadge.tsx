@@ -0,0 +1,22 @@
+import { Badge } from '../ui/Badge';
+
+interface StatusBadgeProps {
+  status: string;
+}
+
+export function StatusBadge({ status }: StatusBadgeProps) {
+  switch (status) {
+    case 'completed':
+      return <Badge variant="success">Completed</Badge>;
+    case 'processing':
+      return <Badge variant="warning">Processing</Badge>;
+    case 'failed':
+      return <Badge variant="error">Failed</Badge>;
+    case 'paused':
+      return <Badge variant="info">Paused</Badge>;
+    case 'cancelled':
+      return <Badge variant="default">Cancelled</Badge>;
+    default:
+      return <Badge variant="default">Pending</Badge>;
+  }
+}
@@ -0,0 +1,134 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Button } from '../ui/Button';
+import { deviceOptions } from '../capture/devices';
+import type { ScreenshotSettings } from './screenshots';
+
+interface UrlsTabProps {
+  urls: string[];
+  filter: string;
+  onFilterChange: (filter: string) => void;
+  selectedUrls: Set<string>;
+  onToggleUrl: (url: string) => void;
+  onSelectAll: (urls: string[]) => void;
+  onDeselectAll: () => void;
+  screenshotOptions: ScreenshotSettings;
+  setScreenshotOptions: Dispatch<SetStateAction<ScreenshotSettings>>;
+  isGenerating: boolean;
+  onGenerate: () => void;
+}
+
+// A project's discovered URLs, to select and generate screenshots from
+export function UrlsTab({
+  urls,
+  filter,
+  onFilterChange,
+  selectedUrls,
+  onToggleUrl,
+  onSelectAll,
+  onDeselectAll,
+  screenshotOptions,
+  setScreenshotOptions,
+  isGenerating,
+  onGenerate,
+}: UrlsTabProps) {
+  const lowerFilter = filter.toLowerCase();
+  const filteredUrls = filter ? urls.filter(url => url.toLowerCase().includes(lowerFilter)) : urls;
+
+  return (
+    <div className="space-y-4">
+      {/* Filter */}
+      <div className="flex items-center gap-4">
+        <input
+          type="text"
+          placeholder="Filter URLs..."
+          value={filter}
+          onChange={(e) => onFilterChange(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => onSelectAll(filteredUrls)}
+        >
+          Select All
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onDeselectAll}
+        >
+          Deselect All
+        </Button>
+      </div>
+
+      {/* Screenshot Options */}
+      {selectedUrls.size > 0 && (
+        <div className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={screenshotOptions.fullPage}
+              onChange={(e) => setScreenshotOptions(prev => ({ ...prev, fullPage: e.target.checked }))}
+              className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700">Full Page</span>
+          </label>
+          <select
+            value={screenshotOptions.viewport}
+            onChange={(e) => setScreenshotOptions(prev => ({ ...prev, viewport: e.target.value }))}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {deviceOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={screenshotOptions.delay}
+            onChange={(e) => setScreenshotOptions(prev => ({ ...prev, delay: parseInt(e.target.value) }))}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="0">No delay</option>
+            <option value="1">1s delay</option>
+            <option value="2">2s delay</option>
+            <option value="3">3s delay</option>
+            <option value="5">5s delay</option>
+          </select>
+          <Button
+            size="sm"
+            onClick={onGenerate}
+            disabled={isGenerating}
+          >
+            {isGenerating ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                Generating...
+              </>
+            ) : (
+              `Generate Screenshots (${selectedUrls.size})`
+            )}
+          </Button>
+        </div>
+      )}
+
+      {/* URL List with scroll */}
+      <div className="border rounded-lg overflow-hidden max-h-96 overflow-y-auto">
+        {filteredUrls.map((url) => (
+          <div
+            key={url}
+            className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+          >
+            <input
+              type="checkbox"
+              checked={selectedUrls.has(url)}
+              onChange={() => onToggleUrl(url)}
+              className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700 truncate flex-1" title={url}>
+              {url}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { createResponsiveComposite, groupByDevice } from '../capture/responsiveComposite';
+import { getFileExtension, isPdfCapture } from '../capture/output';
+import { extractPath } from './format';
+import type { ProjectSummary, ScreenshotJob } from '../../types/database.types';
+
+export function projectFileName(project: ProjectSummary): string {
+  return project.name.replace(/[^a-z0-9.-]+/gi, '-');
+}
+
+// Download screenshots as a ZIP, numbered in the order given
+export async function downloadZip(jobs: ScreenshotJob[], zipName: string): Promise<void> {
+  // Dynamically import JSZip
+  const JSZip = (await import('jszip')).default;
+  const { saveAs } = await import('file-saver');
+
+  const zip = new JSZip();
+
+  await Promise.all(jobs.map(async (job, index) => {
+    if (!job.screenshot_url) return;
+    try {
+      const response = await fetch(job.screenshot_url);
+      const blob = await response.blob();
+      const extension = getFileExtension(job.options?.format);
+      const filename = `${(index + 1).toString().padStart(2, '0')}-${extractPath(job.url)}.${extension}`;
+      zip.file(filename, blob);
+    } catch (err) {
+      console.error(`Failed to download ${job.url}:`, err);
+    }
+  }));
+
+  // Pages captured on several devices also get a side-by-side mockup
+  await Promise.all(groupByDevice(jobs.filter(job => !isPdfCapture(job))).map(async (group, index) => {
+    try {
+      const composite = await createResponsiveComposite(group);
+      zip.file(`responsive/${(index + 1).toString().padStart(2, '0')}-${extractPath(group[0].url)}.png`, composite);
+    } catch (err) {
+      console.error(`Failed to compose ${group[0].url}:`, err);
+    }
+  }));
+
+  const zipBlob = await zip.generateAsync({ type: 'blob' });
+  saveAs(zipBlob, zipName);
+}
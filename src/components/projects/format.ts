@@ -0,0 +1,49 @@
+import type { RunSource, ScreenshotRun } from '../../types/database.types';
+
+export const RUNS_PAGE_SIZE = 10;
+
+export const RUN_SOURCE_LABELS: Record<RunSource, string> = {
+  dashboard: 'Dashboard',
+  api: 'API',
+  schedule: 'Schedule',
+};
+
+export function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '-';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// A run's overall status, from the counts of its screenshots by status
+export function getRunStatus(run: ScreenshotRun): string {
+  if (run.pending_count + run.processing_count > 0) {
+    return run.processing_count > 0 || run.completed_count + run.failed_count > 0 ? 'processing' : 'pending';
+  }
+  if (run.paused_count > 0) return 'paused';
+  if (run.cancelled_count > 0) return 'cancelled';
+  return run.completed_count === 0 && run.failed_count > 0 ? 'failed' : 'completed';
+}
+
+// Short file-name-safe label for a URL's path
+export function extractPath(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    let path = urlObj.pathname.replace(/\//g, '-').replace(/^-|-$/g, '') || 'homepage';
+    if (path.length > 40) path = path.substring(0, 40);
+    return path;
+  } catch {
+    return 'screenshot';
+  }
+}
@@ -0,0 +1,107 @@
+import type { CaptureCredentialsInput, DeviceType, LoginFlowInput } from '../../types/database.types';
+
+export interface ProjectForm {
+  name: string;
+  domain: string;
+  description: string;
+  deviceType: DeviceType;
+  fullPage: boolean;
+  delay: number;
+  // Capture credentials; left empty to keep the saved ones
+  authUsername: string;
+  authPassword: string;
+  authHeaders: string;
+  authCookies: string;
+  // Login flow; the username and password are left empty to keep the saved ones
+  loginUrl: string;
+  loginUsernameSelector: string;
+  loginPasswordSelector: string;
+  loginSubmitSelector: string;
+  loginSuccessSelector: string;
+  loginUsername: string;
+  loginPassword: string;
+}
+
+export const emptyProjectForm: ProjectForm = {
+  name: '',
+  domain: '',
+  description: '',
+  deviceType: 'desktop',
+  fullPage: true,
+  delay: 2,
+  authUsername: '',
+  authPassword: '',
+  authHeaders: '',
+  authCookies: '',
+  loginUrl: '',
+  loginUsernameSelector: '',
+  loginPasswordSelector: '',
+  loginSubmitSelector: '',
+  loginSuccessSelector: '',
+  loginUsername: '',
+  loginPassword: '',
+};
+
+// Build the credentials to save from the project form, or null if none were entered
+export function parseCredentialsForm(form: ProjectForm): { input: CaptureCredentialsInput | null; error?: string } {
+  const input: CaptureCredentialsInput = {};
+
+  if (form.authUsername.trim()) {
+    input.basicAuth = { username: form.authUsername.trim(), password: form.authPassword };
+  }
+
+  const headerLines = form.authHeaders.split('\n').map(line => line.trim()).filter(Boolean);
+  if (headerLines.length > 0) {
+    input.extraHeaders = {};
+    for (const line of headerLines) {
+      const separator = line.indexOf(':');
+      if (separator < 1) {
+        return { input: null, error: `Header "${line}" must be written as Name: value` };
+      }
+      input.extraHeaders[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const cookieLines = form.authCookies.split('\n').map(line => line.trim()).filter(Boolean);
+  if (cookieLines.length > 0) {
+    input.cookies = [];
+    for (const line of cookieLines) {
+      const separator = line.indexOf('=');
+      if (separator < 1) {
+        return { input: null, error: `Cookie "${line}" must be written as name=value` };
+      }
+      input.cookies.push({ name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() });
+    }
+  }
+
+  return { input: Object.keys(input).length > 0 ? input : null };
+}
+
+// Build the login flow to save from the project form, or null if no login URL was entered
+export function parseLoginFlowForm(
+  form: ProjectForm,
+  hasSavedFlow: boolean
+): { input: LoginFlowInput | null; error?: string } {
+  if (!form.loginUrl.trim()) return { input: null };
+
+  if (!form.loginUsernameSelector.trim() || !form.loginPasswordSelector.trim() || !form.loginSuccessSelector.trim()) {
+    return { input: null, error: 'The login flow needs username, password and signed-in selectors' };
+  }
+
+  const input: LoginFlowInput = {
+    loginUrl: form.loginUrl.trim(),
+    usernameSelector: form.loginUsernameSelector.trim(),
+    passwordSelector: form.loginPasswordSelector.trim(),
+    submitSelector: form.loginSubmitSelector.trim() || null,
+    successSelector: form.loginSuccessSelector.trim(),
+  };
+
+  if (form.loginUsername.trim()) {
+    input.username = form.loginUsername.trim();
+    input.password = form.loginPassword;
+  } else if (!hasSavedFlow) {
+    return { input: null, error: 'Enter the username and password to log in with' };
+  }
+
+  return { input };
+}
@@ -0,0 +1,43 @@
+import type { ProjectSchedule, ScheduleUrlMode } from '../../types/database.types';
+
+export interface ScheduleForm {
+  name: string;
+  frequency: 'daily' | 'weekly' | 'custom';
+  time: string;
+  weekday: string;
+  cronExpression: string;
+  timezone: string;
+  urlMode: ScheduleUrlMode;
+  maxUrls: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const weekdayOptions = WEEKDAYS.map((day, index) => ({ value: String(index), label: day }));
+
+export const emptyScheduleForm: ScheduleForm = {
+  name: '',
+  frequency: 'weekly',
+  time: '09:00',
+  weekday: '1',
+  cronExpression: '0 9 * * 1',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  urlMode: 'saved',
+  maxUrls: '100',
+};
+
+// Cron expression for the schedule form's frequency
+export function buildCronExpression(form: ScheduleForm): string {
+  if (form.frequency === 'custom') return form.cronExpression.trim();
+  const [hour, minute] = form.time.split(':').map(part => parseInt(part, 10));
+  return form.frequency === 'daily'
+    ? `${minute} ${hour} * * *`
+    : `${minute} ${hour} * * ${form.weekday}`;
+}
+
+export function describeSchedule(schedule: ProjectSchedule): string {
+  const match = schedule.cron_expression.match(/^(\d+) (\d+) \* \* (\*|\d)$/);
+  if (!match) return schedule.cron_expression;
+  const time = `${match[2].padStart(2, '0')}:${match[1].padStart(2, '0')}`;
+  return match[3] === '*' ? `Daily at ${time}` : `Weekly on ${WEEKDAYS[parseInt(match[3]) % 7]} at ${time}`;
+}
@@ -0,0 +1,62 @@
+import { groupByDevice } from '../capture/responsiveComposite';
+import type { ScreenshotJob, ScreenshotRun, SitemapJob } from '../../types/database.types';
+
+export interface ProjectDetail {
+  sitemapJob: SitemapJob | null;
+  screenshots: ScreenshotJob[];
+  screenshotTotal: number;
+  screenshotPage: number;
+  // Run the screenshots are filtered to, if any
+  run: ScreenshotRun | null;
+  isLoading: boolean;
+}
+
+// Options for screenshots generated from a project, defaulting to its settings
+export interface ScreenshotSettings {
+  fullPage: boolean;
+  viewport: string;
+  delay: number;
+}
+
+function getPathPrefix(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+    return pathParts[0] || 'homepage';
+  } catch {
+    return 'other';
+  }
+}
+
+export function groupScreenshotsByPath(screenshots: ScreenshotJob[]): Record<string, ScreenshotJob[]> {
+  const groups: Record<string, ScreenshotJob[]> = {};
+
+  screenshots.forEach(screenshot => {
+    const groupKey = getPathPrefix(screenshot.url);
+    if (!groups[groupKey]) {
+      groups[groupKey] = [];
+    }
+    groups[groupKey].push(screenshot);
+  });
+
+  // Sort groups by count (descending)
+  const sortedEntries = Object.entries(groups).sort((a, b) => b[1].length - a[1].length);
+  return Object.fromEntries(sortedEntries);
+}
+
+// Screenshots in order, with each page captured on several devices gathered where its first capture is
+export function groupDeviceCaptures(screenshots: ScreenshotJob[]): (ScreenshotJob | ScreenshotJob[])[] {
+  const deviceGroups = new Map(groupByDevice(screenshots).map(group => [group[0].device_group_id, group]));
+  const items: (ScreenshotJob | ScreenshotJob[])[] = [];
+
+  screenshots.forEach(screenshot => {
+    const group = screenshot.device_group_id ? deviceGroups.get(screenshot.device_group_id) : undefined;
+    if (!group) {
+      items.push(screenshot);
+    } else if (group[0] === screenshot) {
+      items.push(group);
+    }
+  });
+
+  return items;
+}
@@ -6,6 +6,14 @@ import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { MainLayout } from '../components/layout/MainLayout';
 import { supabase } from '../services/supabase';
+import {
+  getWebhookEndpoints,
+  createWebhookEndpoint,
+  setWebhookEndpointActive,
+  deleteWebhookEndpoint,
+  getRecentWebhookDeliveries,
+} from '../services/webhookService';
+import type { WebhookEndpoint, WebhookDelivery } from '../types/database.types';
 
 interface UsageStats {
   sitemapCount: number;
@@ -14,13 +22,19 @@ interface UsageStats {
 }
 
 export function DashboardPage() {
-  const { profile, updateProfile, generateApiKey, isLoading } = useAuth();
+  const { profile, session, updateProfile, generateApiKey, isLoading } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [fullName, setFullName] = useState(profile?.full_name || '');
   const [username, setUsername] = useState(profile?.username || '');
   const [copySuccess, setCopySuccess] = useState(false);
   const [isGeneratingKey, setIsGeneratingKey] = useState(false);
   const [usageStats, setUsageStats] = useState<UsageStats>({ sitemapCount: 0, screenshotCount: 0, thisMonth: 0 });
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  const [newWebhookUrl, setNewWebhookUrl] = useState('');
+  const [webhookError, setWebhookError] = useState('');
+  const [isAddingWebhook, setIsAddingWebhook] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
 
   // Update form state when profile loads
   useEffect(() => {
@@ -55,7 +69,11 @@ export function DashboardPage() {
         (data || []).forEach((row: { endpoint: string; request_count: number; date: string }) => {
           if (row.endpoint === 'sitemap_discovery') {
             sitemapCount += row.request_count;
-          } else if (row.endpoint === 'screenshot' || row.endpoint === '/api/v1/screenshot') {
+          } else if (
+            row.endpoint === 'screenshot' ||
+            row.endpoint === '/api/v1/screenshot' ||
+            row.endpoint === '/api/v1/screenshots/batch'
+          ) {
             screenshotCount += row.request_count;
           }
 
@@ -73,6 +91,72 @@ export function DashboardPage() {
     fetchUsageStats();
   }, [profile?.id, isLoading]);
 
+  // Fetch webhook endpoints and recent deliveries
+  useEffect(() => {
+    async function fetchWebhooks() {
+      if (isLoading) return;
+      if (!profile?.id) return;
+
+      try {
+        const [endpoints, deliveries] = await Promise.all([
+          getWebhookEndpoints(profile.id),
+          getRecentWebhookDeliveries(profile.id),
+        ]);
+        setWebhookEndpoints(endpoints);
+        setWebhookDeliveries(deliveries);
+      } catch (err) {
+        console.error('Failed to fetch webhooks:', err);
+      }
+    }
+
+    fetchWebhooks();
+  }, [profile?.id, isLoading]);
+
+  const handleAddWebhook = async () => {
+    if (!session || !newWebhookUrl) return;
+
+    try {
+      const parsed = new URL(newWebhookUrl);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error();
+    } catch {
+      setWebhookError('Enter a valid http(s) URL');
+      return;
+    }
+
+    setIsAddingWebhook(true);
+    setWebhookError('');
+    try {
+      const endpoint = await createWebhookEndpoint(session.access_token, newWebhookUrl);
+      setWebhookEndpoints((prev) => [endpoint, ...prev]);
+      setRevealedSecret(endpoint.id);
+      setNewWebhookUrl('');
+    } catch (error) {
+      console.error('Failed to add webhook:', error);
+      setWebhookError((error as Error).message);
+    } finally {
+      setIsAddingWebhook(false);
+    }
+  };
+
+  const handleToggleWebhook = async (endpoint: WebhookEndpoint) => {
+    if (!session) return;
+    try {
+      const updated = await setWebhookEndpointActive(session.access_token, endpoint.id, !endpoint.is_active);
+      setWebhookEndpoints((prev) => prev.map((e) => (e.id === updated.id ? { ...e, ...updated } : e)));
+    } catch (error) {
+      console.error('Failed to update webhook:', error);
+    }
+  };
+
+  const handleDeleteWebhook = async (endpointId: string) => {
+    try {
+      await deleteWebhookEndpoint(endpointId);
+      setWebhookEndpoints((prev) => prev.filter((e) => e.id !== endpointId));
+    } catch (error) {
+      console.error('Failed to delete webhook:', error);
+    }
+  };
+
   const handleSaveProfile = async () => {
     try {
       await updateProfile({ full_name: fullName, username });
@@ -348,6 +432,119 @@ export function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Webhooks */}
+        <Card>
+          <CardHeader
+            icon={
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+                />
+              </svg>
+            }
+          >
+            <h3 className="font-semibold text-gray-900">Webhooks</h3>
+            <p className="text-sm text-gray-500">Get notified when screenshot, sitemap and crawl jobs finish</p>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex items-start gap-2">
+                <div className="flex-1">
+                  <Input
+                    placeholder="https://example.com/webhooks/screenshotpro"
+                    value={newWebhookUrl}
+                    onChange={(e) => setNewWebhookUrl(e.target.value)}
+                    error={webhookError || undefined}
+                  />
+                </div>
+                <Button onClick={handleAddWebhook} isLoading={isAddingWebhook} disabled={!newWebhookUrl}>
+                  Add Endpoint
+                </Button>
+              </div>
+
+              {webhookEndpoints.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhook endpoints registered yet.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {webhookEndpoints.map((endpoint) => (
+                    <div key={endpoint.id} className="px-4 py-3 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900 truncate">{endpoint.url}</p>
+                          <p className="text-xs text-gray-500">{endpoint.events.join(', ')}</p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <Badge variant={endpoint.is_active ? 'success' : 'default'}>
+                            {endpoint.is_active ? 'active' : 'paused'}
+                          </Badge>
+                          <Button variant="ghost" size="sm" onClick={() => handleToggleWebhook(endpoint)}>
+                            {endpoint.is_active ? 'Pause' : 'Resume'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevealedSecret(revealedSecret === endpoint.id ? null : endpoint.id)}
+                          >
+                            {revealedSecret === endpoint.id ? 'Hide Secret' : 'Secret'}
+                          </Button>
+                          <Button variant="danger" size="sm" onClick={() => handleDeleteWebhook(endpoint.id)}>
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                      {revealedSecret === endpoint.id && (
+                        <code className="block text-xs bg-gray-100 px-3 py-2 rounded font-mono break-all">
+                          {endpoint.secret}
+                        </code>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {profile?.webhook_secret && (
+                <p className="text-xs text-gray-500">
+                  Per-request <code className="bg-gray-100 px-1 rounded">callbackUrl</code> deliveries are signed with your account secret:
+                  <code className="bg-gray-100 px-1 ml-1 rounded font-mono">{maskApiKey(profile.webhook_secret)}</code>
+                </p>
+              )}
+
+              {webhookDeliveries.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 uppercase tracking-wide mb-2">Recent Deliveries</p>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {webhookDeliveries.map((delivery) => (
+                      <div key={delivery.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900">{delivery.event}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {delivery.url} | {formatDate(delivery.created_at)}
+                            {delivery.last_error && ` | ${delivery.last_error}`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={
+                            delivery.status === 'delivered'
+                              ? 'success'
+                              : delivery.status === 'failed'
+                              ? 'error'
+                              : 'warning'
+                          }
+                        >
+                          {delivery.status} ({delivery.attempts})
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* API Documentation */}
         <Card>
           <CardHeader
@@ -393,6 +590,11 @@ export function DashboardPage() {
                 <p className="text-xs text-gray-500 mt-2">
                   Response includes: <code className="bg-gray-100 px-1 rounded">urls</code> (array), <code className="bg-gray-100 px-1 rounded">count</code>, <code className="bg-gray-100 px-1 rounded">source</code>
                 </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  If no sitemap exists and a <code className="bg-gray-100 px-1 rounded">callbackUrl</code> is given, a crawl is queued and its URLs are delivered to the callback as a <code className="bg-gray-100 px-1 rounded">sitemap.completed</code> webhook.
+                  Choose the crawler with <code className="bg-gray-100 px-1 rounded">crawlEngine</code> (<code className="bg-gray-100 px-1 rounded">auto</code>, <code className="bg-gray-100 px-1 rounded">screaming_frog</code> or <code className="bg-gray-100 px-1 rounded">native</code>) and set <code className="bg-gray-100 px-1 rounded">render: true</code> to run JavaScript on crawled pages.
+                  Limit the crawl with <code className="bg-gray-100 px-1 rounded">maxUrls</code>, <code className="bg-gray-100 px-1 rounded">crawlDepth</code> (default 3) and <code className="bg-gray-100 px-1 rounded">includePatterns</code> / <code className="bg-gray-100 px-1 rounded">excludePatterns</code> (arrays of regular expressions matched against each URL).
+                </p>
               </div>
 
               {/* Screenshot Endpoint */}
@@ -426,14 +628,97 @@ export function DashboardPage() {
                   <p><strong>Options:</strong></p>
                   <ul className="list-disc list-inside space-y-1 ml-2">
                     <li><code className="bg-gray-100 px-1 rounded">fullPage</code> - Capture full page (default: true)</li>
-                    <li><code className="bg-gray-100 px-1 rounded">deviceType</code> - "desktop", "tablet", or "mobile"</li>
+                    <li><code className="bg-gray-100 px-1 rounded">deviceType</code> - Device to emulate, with its size, pixel ratio, touch and user agent: "desktop", "laptop", "tablet", "mobile", "iphone-se", "iphone-15", "iphone-15-pro-max", "pixel-8", "galaxy-s23", "ipad-air", "ipad-pro-12", or "custom"</li>
+                    <li><code className="bg-gray-100 px-1 rounded">viewport</code> - <code className="bg-gray-100 px-1 rounded">{"{ width, height, deviceScaleFactor?, isMobile?, hasTouch? }"}</code>, required for "custom" (100-4096px, pixel ratio 1-4); overrides the device's values otherwise</li>
+                    <li><code className="bg-gray-100 px-1 rounded">userAgent</code> - Overrides the device's user agent</li>
+                    <li><code className="bg-gray-100 px-1 rounded">deviceTypes</code> / <code className="bg-gray-100 px-1 rounded">viewports</code> - Capture on up to 6 devices instead of one: one job per device, linked by <code className="bg-gray-100 px-1 rounded">deviceGroupId</code> and listed in the response's <code className="bg-gray-100 px-1 rounded">jobs</code> (not with <code className="bg-gray-100 px-1 rounded">wait</code>)</li>
                     <li><code className="bg-gray-100 px-1 rounded">delay</code> - Wait seconds before capture (0-10)</li>
                     <li><code className="bg-gray-100 px-1 rounded">noAds</code> - Block ads and trackers</li>
                     <li><code className="bg-gray-100 px-1 rounded">noCookies</code> - Block cookie consent banners</li>
-                    <li><code className="bg-gray-100 px-1 rounded">format</code> - "png" or "jpeg"</li>
+                    <li><code className="bg-gray-100 px-1 rounded">format</code> - "png", "jpeg" or "pdf"</li>
                     <li><code className="bg-gray-100 px-1 rounded">quality</code> - JPEG quality 10-100</li>
+                    <li><code className="bg-gray-100 px-1 rounded">pdf</code> - Page setup for PDFs: <code className="bg-gray-100 px-1 rounded">{"{ paperSize?, landscape?, margin?, printBackground?, media? }"}</code>. Paper is "A4" (default), "Letter", "Legal", "A3", "A5" or "Tabloid"; margins are CSS lengths per side, e.g. <code className="bg-gray-100 px-1 rounded">{'{ "top": "10mm" }'}</code>; <code className="bg-gray-100 px-1 rounded">media</code> is "screen" (default) or "print" to use the page's print styles. Not with <code className="bg-gray-100 px-1 rounded">selector</code>, <code className="bg-gray-100 px-1 rounded">selectorAll</code> or <code className="bg-gray-100 px-1 rounded">clip</code></li>
+                    <li><code className="bg-gray-100 px-1 rounded">selector</code> - Capture only the first element matching a CSS selector</li>
+                    <li><code className="bg-gray-100 px-1 rounded">selectorAll</code> - Capture every matching element (up to 20), one image each in <code className="bg-gray-100 px-1 rounded">screenshot_urls</code></li>
+                    <li><code className="bg-gray-100 px-1 rounded">padding</code> - Pixels around the element (0-500)</li>
+                    <li><code className="bg-gray-100 px-1 rounded">clip</code> - Capture a region: <code className="bg-gray-100 px-1 rounded">{"{ x, y, width, height }"}</code> in page pixels</li>
+                    <li><code className="bg-gray-100 px-1 rounded">hideSelectors</code> - Array of CSS selectors to hide before capture</li>
+                    <li><code className="bg-gray-100 px-1 rounded">injectCss</code> - Stylesheet added to the page before capture</li>
+                    <li><code className="bg-gray-100 px-1 rounded">injectJs</code> - Script run in the page before capture; may use <code className="bg-gray-100 px-1 rounded">await</code></li>
+                    <li><code className="bg-gray-100 px-1 rounded">actions</code> - Steps run in order before capture (up to 20): <code className="bg-gray-100 px-1 rounded">click</code>, <code className="bg-gray-100 px-1 rounded">type</code>, <code className="bg-gray-100 px-1 rounded">hover</code>, <code className="bg-gray-100 px-1 rounded">scrollTo</code> and <code className="bg-gray-100 px-1 rounded">waitForSelector</code> take a <code className="bg-gray-100 px-1 rounded">selector</code>; <code className="bg-gray-100 px-1 rounded">type</code> also takes <code className="bg-gray-100 px-1 rounded">text</code>, <code className="bg-gray-100 px-1 rounded">press</code> a <code className="bg-gray-100 px-1 rounded">key</code>, <code className="bg-gray-100 px-1 rounded">wait</code> <code className="bg-gray-100 px-1 rounded">ms</code>; <code className="bg-gray-100 px-1 rounded">waitForNetworkIdle</code> takes none. Each step's outcome is returned in <code className="bg-gray-100 px-1 rounded">action_results</code></li>
+                    <li><code className="bg-gray-100 px-1 rounded">cookies</code>, <code className="bg-gray-100 px-1 rounded">extraHeaders</code>, <code className="bg-gray-100 px-1 rounded">basicAuth</code> - Credentials for password-protected pages, e.g. <code className="bg-gray-100 px-1 rounded">{'{ "username": "...", "password": "..." }'}</code>. Stored encrypted and never returned; headers and basic auth are only sent to the page's host. Projects can save credentials for all their captures</li>
                   </ul>
+                  <p className="pt-2">
+                    Add a top-level <code className="bg-gray-100 px-1 rounded">callbackUrl</code> to receive a signed webhook when the job finishes.
+                  </p>
+                  <p>
+                    Jobs are filed under the project for the URL's domain. Pass a top-level <code className="bg-gray-100 px-1 rounded">projectId</code> (also accepted by the batch and sitemap endpoints) to pick one of several projects on the same domain.
+                  </p>
+                  <p>
+                    <strong>Synchronous mode:</strong> <code className="bg-gray-100 px-1 rounded">POST /api/v1/screenshot?wait=true</code> (or <code className="bg-gray-100 px-1 rounded">"sync": true</code>) waits for the capture and returns the image (or PDF) bytes.
+                    Add <code className="bg-gray-100 px-1 rounded">redirect=true</code> for a 302 to <code className="bg-gray-100 px-1 rounded">screenshot_url</code> instead, and <code className="bg-gray-100 px-1 rounded">timeout</code> (seconds, max 55, default 30).
+                    On timeout the normal queued response is returned with HTTP 202.
+                  </p>
+                </div>
+              </div>
+
+              {/* Batch Screenshot Endpoint */}
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                  <Badge variant="success">POST</Badge>
+                  Batch Screenshots
+                </h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Queue up to 100 screenshots at once from a URL list or a completed <code className="bg-gray-100 px-1 rounded">sitemapJobId</code>.
+                  Shared <code className="bg-gray-100 px-1 rounded">options</code> apply to every URL; an entry can override them.
+                </p>
+                <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                  <pre className="text-sm text-gray-100">
+{`curl -X POST https://fullpagess.vercel.app/api/v1/screenshots/batch \\
+  -H "Content-Type: application/json" \\
+  -H "X-API-Key: YOUR_API_KEY" \\
+  -d '{
+    "urls": [
+      "https://example.com",
+      { "url": "https://example.com/pricing", "options": { "deviceType": "mobile" } }
+    ],
+    "options": { "fullPage": true, "format": "png" }
+  }'`}
+                  </pre>
                 </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Returns a <code className="bg-gray-100 px-1 rounded">batchId</code>. <code className="bg-gray-100 px-1 rounded">GET /api/v1/batches/BATCH_ID</code> returns aggregate <code className="bg-gray-100 px-1 rounded">progress</code> and per-job results.
+                  <code className="bg-gray-100 px-1 rounded">POST /api/v1/batches/BATCH_ID</code> with <code className="bg-gray-100 px-1 rounded">{`{"action": "pause" | "resume" | "cancel" | "retry"}`}</code> pauses, resumes or cancels the screenshots not yet captured, or retries the failed ones.
+                </p>
+              </div>
+
+              {/* Visual Diff Endpoint */}
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                  <Badge variant="success">POST</Badge>
+                  Visual Diff
+                </h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Compare a completed screenshot with an earlier capture of the same URL and viewport. Without
+                  a <code className="bg-gray-100 px-1 rounded">baseJobId</code> the previous capture is used.
+                </p>
+                <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                  <pre className="text-sm text-gray-100">
+{`curl -X POST "https://fullpagess.vercel.app/api/v1/diff?wait=true" \\
+  -H "Content-Type: application/json" \\
+  -H "X-API-Key: YOUR_API_KEY" \\
+  -d '{
+    "compareJobId": "JOB_ID",
+    "threshold": 0.1,
+    "maxMismatch": 0.5
+  }'`}
+                  </pre>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Returns <code className="bg-gray-100 px-1 rounded">mismatch_percentage</code>, changed <code className="bg-gray-100 px-1 rounded">regions</code> and a <code className="bg-gray-100 px-1 rounded">diff_url</code> image.
+                  With <code className="bg-gray-100 px-1 rounded">maxMismatch</code> the response includes <code className="bg-gray-100 px-1 rounded">passed</code>, so a deploy can fail when a page changed too much.
+                  Poll <code className="bg-gray-100 px-1 rounded">GET /api/v1/diff/DIFF_ID</code> when not waiting.
+                </p>
               </div>
 
               {/* Check Job Status */}
@@ -452,9 +737,39 @@ export function DashboardPage() {
                   </pre>
                 </div>
                 <p className="text-xs text-gray-500 mt-2">
-                  Response includes: <code className="bg-gray-100 px-1 rounded">status</code> (pending/processing/completed/failed), <code className="bg-gray-100 px-1 rounded">screenshot_url</code>
+                  Response includes: <code className="bg-gray-100 px-1 rounded">status</code> (pending/processing/completed/failed), <code className="bg-gray-100 px-1 rounded">screenshot_url</code>, <code className="bg-gray-100 px-1 rounded">error_message</code>, <code className="bg-gray-100 px-1 rounded">options</code> and timestamps. Returns 404 for jobs created with another API key.
                 </p>
               </div>
+
+              {/* Webhooks */}
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                  <Badge variant="success">POST</Badge>
+                  Register Webhook
+                </h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Receive a POST when jobs finish instead of polling. List endpoints with <code className="bg-gray-100 px-1 rounded">GET /api/v1/webhooks</code>, manage one with <code className="bg-gray-100 px-1 rounded">GET/PATCH/DELETE /api/v1/webhooks/ID</code>.
+                </p>
+                <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                  <pre className="text-sm text-gray-100">
+{`curl -X POST https://fullpagess.vercel.app/api/v1/webhooks \\
+  -H "Content-Type: application/json" \\
+  -H "X-API-Key: YOUR_API_KEY" \\
+  -d '{
+    "url": "https://example.com/hooks/screenshots",
+    "events": ["screenshot.completed", "screenshot.failed"]
+  }'`}
+                  </pre>
+                </div>
+                <div className="mt-3 text-xs text-gray-500 space-y-1">
+                  <p>
+                    Events: <code className="bg-gray-100 px-1 rounded">screenshot.*</code>, <code className="bg-gray-100 px-1 rounded">sitemap.*</code>, <code className="bg-gray-100 px-1 rounded">crawl.*</code> with <code className="bg-gray-100 px-1 rounded">completed</code> or <code className="bg-gray-100 px-1 rounded">failed</code>. Failed deliveries are retried with exponential backoff.
+                  </p>
+                  <p>
+                    Verify <code className="bg-gray-100 px-1 rounded">X-ScreenshotPro-Signature</code> as <code className="bg-gray-100 px-1 rounded">sha256=HMAC_SHA256(secret, timestamp + "." + body)</code> using the <code className="bg-gray-100 px-1 rounded">X-ScreenshotPro-Timestamp</code> header.
+                  </p>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -9,8 +9,19 @@ import { Toggle } from '../components/ui/Toggle';
 import { Select } from '../components/ui/Select';
 import { ProgressBar } from '../components/ui/ProgressBar';
 import { Badge } from '../components/ui/Badge';
+import { CrawlProgressPanel } from '../components/crawl/CrawlProgressPanel';
+import { DevicePicker } from '../components/capture/DevicePicker';
+import { DEFAULT_DEVICE, deviceOptions, getDeviceOptions } from '../components/capture/devices';
+import { createResponsiveComposite, groupByDevice } from '../components/capture/responsiveComposite';
+import { PdfPreview } from '../components/capture/PdfPreview';
+import { PAPER_SIZE_OPTIONS, PDF_MEDIA_OPTIONS, isPdfCapture } from '../components/capture/output';
 import { supabase } from '../services/supabase';
+import { controlCrawlJob, getCrawlJob } from '../services/sitemapService';
+import { controlRun } from '../services/projectService';
+import { useJobStore } from '../stores/jobStore';
+import { useRealtimeCrawlJobs } from '../hooks/useRealtimeJobs';
 import type { Session } from '@supabase/supabase-js';
+import type { CrawlEngine, CrawlJob, DeviceType, PaperSize, ScreenshotOptions } from '../types/database.types';
 
 interface DiscoveredUrl {
   url: string;
@@ -25,25 +36,63 @@ interface UrlGroup {
   expanded: boolean;
 }
 
-interface CrawlJob {
-  status: string;
-  discovered_urls: string[] | null;
-  error_message: string | null;
-  crawl_progress?: number;
-  crawl_total?: number;
-}
-
 interface ScreenshotJob {
   id: string;
   url: string;
   status: string;
   screenshot_url: string | null;
   error_message: string | null;
+  options: ScreenshotOptions;
+  device_group_id: string | null;
 }
 
+// Most devices one request can capture a page on
+const MAX_DEVICES = 6;
+
 type Step = 'input' | 'selection' | 'options' | 'generating';
 type DiscoveryStatus = 'idle' | 'discovering' | 'crawling' | 'completed' | 'error';
 
+// Stop waiting for a crawl after 16 minutes (worker timeout is 15 min)
+const CRAWL_WAIT_TIMEOUT = 16 * 60 * 1000;
+
+// Generate URL groups from flat list (used for crawl results)
+function generateUrlGroups(urlList: string[]): UrlGroup[] {
+  const groups: Map<string, string[]> = new Map();
+
+  for (const url of urlList) {
+    try {
+      const urlObj = new URL(url);
+      const pathParts = urlObj.pathname.split('/').filter(Boolean);
+      let prefix = '/';
+      if (pathParts.length > 0) {
+        prefix = '/' + pathParts[0];
+      }
+      if (!groups.has(prefix)) {
+        groups.set(prefix, []);
+      }
+      groups.get(prefix)!.push(url);
+    } catch {
+      if (!groups.has('/')) {
+        groups.set('/', []);
+      }
+      groups.get('/')!.push(url);
+    }
+  }
+
+  const result: UrlGroup[] = [];
+  for (const [prefix, groupUrls] of groups) {
+    const label = prefix === '/' ? 'Homepage' : prefix.slice(1).charAt(0).toUpperCase() + prefix.slice(2).replace(/-/g, ' ');
+    result.push({
+      prefix,
+      label,
+      urls: groupUrls,
+      count: groupUrls.length,
+      expanded: groupUrls.length <= 10,
+    });
+  }
+  return result.sort((a, b) => b.count - a.count);
+}
+
 export function GeneratorPage() {
   const [currentStep, setCurrentStep] = useState<Step>('input');
   const [domain, setDomain] = useState('');
@@ -53,6 +102,10 @@ export function GeneratorPage() {
   const [urlGroups, setUrlGroups] = useState<UrlGroup[]>([]);
   const [searchFilter, setSearchFilter] = useState('');
 
+  // Project and sitemap job the discovered URLs belong to
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [sitemapJobId, setSitemapJobId] = useState<string | null>(null);
+
   // Session state
   const [session, setSession] = useState<Session | null>(null);
 
@@ -62,20 +115,41 @@ export function GeneratorPage() {
   const [refreshCache, setRefreshCache] = useState(false);
   const [noAds, setNoAds] = useState(false);
   const [noCookies, setNoCookies] = useState(false);
-  const [viewport, setViewport] = useState('desktop');
+  const [device, setDevice] = useState(DEFAULT_DEVICE);
+  const [multiDevice, setMultiDevice] = useState(false);
+  const [deviceTypes, setDeviceTypes] = useState<DeviceType[]>(['desktop', 'tablet', 'mobile']);
   const [delay, setDelay] = useState('2');
   const [format, setFormat] = useState('png');
   const [quality, setQuality] = useState('90');
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
+  const [landscape, setLandscape] = useState(false);
+  const [printBackground, setPrintBackground] = useState(true);
+  const [pdfMedia, setPdfMedia] = useState<'screen' | 'print'>('screen');
+  const [pdfMargin, setPdfMargin] = useState('');
+  const [hideSelectors, setHideSelectors] = useState('');
+  const [injectCss, setInjectCss] = useState('');
+  const [injectJs, setInjectJs] = useState('');
 
   // Crawl options
   const [maxUrls, setMaxUrls] = useState('500');
-  const [crawlProgress, setCrawlProgress] = useState({ completed: 0, total: 0 });
+  const [crawlDepth, setCrawlDepth] = useState('3');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [crawlEngine, setCrawlEngine] = useState<CrawlEngine>('auto');
+  const [renderCrawl, setRenderCrawl] = useState(false);
+  const [crawlJobId, setCrawlJobId] = useState<string | null>(null);
+  const { currentCrawlJob, setCurrentCrawlJob, updateCrawlJob } = useJobStore();
+
+  // Crawl job progress is streamed into the job store
+  useRealtimeCrawlJobs();
 
   // Generation progress
   const [generationProgress, setGenerationProgress] = useState({ completed: 0, total: 0 });
 
   // Screenshot jobs state
   const [screenshotJobs, setScreenshotJobs] = useState<ScreenshotJob[]>([]);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isControllingJobs, setIsControllingJobs] = useState(false);
 
   // Listen for auth changes
   useEffect(() => {
@@ -94,15 +168,63 @@ export function GeneratorPage() {
     return () => subscription.unsubscribe();
   }, []);
 
-  const viewportOptions = [
-    { value: 'desktop', label: 'Desktop (1920x1080)' },
-    { value: 'tablet', label: 'Tablet (768x1024)' },
-    { value: 'mobile', label: 'Mobile (375x667)' },
-  ];
+  // Wait for the running crawl to finish
+  useEffect(() => {
+    if (!crawlJobId) return;
+
+    const handleJob = (job: CrawlJob | null) => {
+      if (!job || job.id !== crawlJobId) return;
+
+      if (job.status === 'completed') {
+        setCrawlJobId(null);
+        const discoveredUrls = job.discovered_urls.map((url) => ({ url, selected: true }));
+        setUrls(discoveredUrls);
+
+        // Generate groups for crawl results
+        const groups = generateUrlGroups(job.discovered_urls);
+        setUrlGroups(groups);
+
+        setDiscoveryStatus('completed');
+        setDiscoveryMessage(`Found ${discoveredUrls.length} URLs in ${groups.length} groups via crawl`);
+        setCurrentStep('selection');
+      } else if (job.status === 'failed') {
+        setCrawlJobId(null);
+        setDiscoveryStatus('error');
+        setDiscoveryMessage(job.error_message || 'Crawl failed');
+      } else if (job.status === 'cancelled') {
+        setCrawlJobId(null);
+        setDiscoveryStatus('idle');
+        setDiscoveryMessage('');
+      }
+    };
+
+    const unsubscribe = useJobStore.subscribe((state) => handleJob(state.currentCrawlJob));
+
+    // Poll as a fallback (Realtime is unreliable with RLS)
+    const pollInterval = setInterval(async () => {
+      const job = await getCrawlJob(crawlJobId);
+      if (job) {
+        updateCrawlJob(job.id, job);
+      }
+    }, 3000);
+
+    const timeout = setTimeout(() => {
+      setCrawlJobId(null);
+      setDiscoveryStatus('error');
+      setDiscoveryMessage('Crawl timed out. Please try again.');
+    }, CRAWL_WAIT_TIMEOUT);
+
+    return () => {
+      unsubscribe();
+      clearInterval(pollInterval);
+      clearTimeout(timeout);
+    };
+  }, [crawlJobId, updateCrawlJob]);
 
   const formatOptions = [
     { value: 'png', label: 'PNG (best quality)' },
     { value: 'jpeg', label: 'JPEG (smaller file)' },
+    { value: 'pdf', label: 'PDF (printable document)' },
   ];
 
   const maxUrlsOptions = [
@@ -112,6 +234,48 @@ export function GeneratorPage() {
     { value: '5000', label: '5,000 URLs (slow)' },
   ];
 
+  const crawlDepthOptions = [
+    { value: '1', label: '1 level (linked from the home page)' },
+    { value: '2', label: '2 levels' },
+    { value: '3', label: '3 levels (default)' },
+    { value: '5', label: '5 levels' },
+    { value: '10', label: '10 levels (slow)' },
+  ];
+
+  const crawlEngineOptions = [
+    { value: 'auto', label: 'Automatic' },
+    { value: 'screaming_frog', label: 'Screaming Frog' },
+    { value: 'native', label: 'Built-in crawler' },
+  ];
+
+  // One regex per line; blank lines are ignored
+  const parsePatterns = (text: string): string[] =>
+    text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  const findInvalidPattern = (text: string): string | null => {
+    for (const pattern of parsePatterns(text)) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return pattern;
+      }
+    }
+    return null;
+  };
+
+  const invalidIncludePattern = findInvalidPattern(includePatterns);
+  const invalidExcludePattern = findInvalidPattern(excludePatterns);
+
+  // Screaming Frog only crawls with the default limits and no URL patterns
+  const crawlRulesError = crawlEngine === 'screaming_frog' && (
+    maxUrls !== '500'
+    || crawlDepth !== '3'
+    || parsePatterns(includePatterns).length > 0
+    || parsePatterns(excludePatterns).length > 0
+  )
+    ? 'Screaming Frog only crawls with the default URL limit and depth and no URL patterns'
+    : undefined;
+
   // Normalize domain - extract clean domain from any URL format
   const normalizeDomain = (input: string): string => {
     let cleaned = input.trim();
@@ -131,115 +295,6 @@ export function GeneratorPage() {
     return cleaned;
   };
 
-  // Generate URL groups from flat list (used for crawl results)
-  const generateUrlGroups = (urlList: string[]): UrlGroup[] => {
-    const groups: Map<string, string[]> = new Map();
-
-    for (const url of urlList) {
-      try {
-        const urlObj = new URL(url);
-        const pathParts = urlObj.pathname.split('/').filter(Boolean);
-        let prefix = '/';
-        if (pathParts.length > 0) {
-          prefix = '/' + pathParts[0];
-        }
-        if (!groups.has(prefix)) {
-          groups.set(prefix, []);
-        }
-        groups.get(prefix)!.push(url);
-      } catch {
-        if (!groups.has('/')) {
-          groups.set('/', []);
-        }
-        groups.get('/')!.push(url);
-      }
-    }
-
-    const result: UrlGroup[] = [];
-    for (const [prefix, groupUrls] of groups) {
-      const label = prefix === '/' ? 'Homepage' : prefix.slice(1).charAt(0).toUpperCase() + prefix.slice(2).replace(/-/g, ' ');
-      result.push({
-        prefix,
-        label,
-        urls: groupUrls,
-        count: groupUrls.length,
-        expanded: groupUrls.length <= 10,
-      });
-    }
-    return result.sort((a, b) => b.count - a.count);
-  };
-
-  // Fallback polling function when Realtime doesn't work
-  const pollForJobStatus = async (jobId: string, channel: ReturnType<typeof supabase.channel>) => {
-    console.log('Starting polling fallback for job:', jobId);
-    const pollInterval = setInterval(async () => {
-      try {
-        const { data, error } = await supabase
-          .from('crawl_jobs')
-          .select('status, discovered_urls, error_message, crawl_progress, crawl_total')
-          .eq('id', jobId)
-          .single();
-
-        if (error) {
-          console.error('Poll error:', error);
-          return;
-        }
-
-        const job = data as CrawlJob;
-        console.log('Poll result:', job.status, job);
-
-        if (job.status === 'completed' && job.discovered_urls) {
-          // Stop polling first
-          clearInterval(pollInterval);
-
-          const discoveredUrls = job.discovered_urls.map((url: string) => ({ url, selected: true }));
-          setUrls(discoveredUrls);
-
-          // Generate groups for crawl results
-          const groups = generateUrlGroups(job.discovered_urls);
-          setUrlGroups(groups);
-
-          setDiscoveryStatus('completed');
-          setDiscoveryMessage(`Found ${discoveredUrls.length} URLs in ${groups.length} groups via Screaming Frog crawl`);
-          setCurrentStep('selection');
-          setCrawlProgress({ completed: 0, total: 0 });
-
-          // Cleanup channel safely
-          try { channel.unsubscribe(); } catch { /* ignore */ }
-        } else if (job.status === 'failed') {
-          // Stop polling first
-          clearInterval(pollInterval);
-
-          // Update state BEFORE cleanup (so user sees error even if cleanup fails)
-          setDiscoveryStatus('error');
-          setDiscoveryMessage(job.error_message || 'Crawl failed');
-          setCrawlProgress({ completed: 0, total: 0 });
-
-          // Cleanup channel safely
-          try { channel.unsubscribe(); } catch { /* ignore */ }
-        } else if (job.status === 'processing' || job.status === 'pending') {
-          // Update crawl progress if available
-          if (job.crawl_progress && job.crawl_total) {
-            setCrawlProgress({ completed: job.crawl_progress, total: job.crawl_total });
-            setDiscoveryMessage(`Crawling... ${job.crawl_progress} / ${job.crawl_total} URLs`);
-          } else {
-            setDiscoveryMessage('Crawl in progress...');
-          }
-        }
-      } catch (err) {
-        console.error('Poll exception:', err);
-      }
-    }, 3000); // Poll every 3 seconds
-
-    // Stop polling after 16 minutes (server timeout is 15 min)
-    setTimeout(() => {
-      clearInterval(pollInterval);
-      // If still crawling after timeout, show timeout error
-      setDiscoveryStatus('error');
-      setDiscoveryMessage('Crawl timed out. Please try again.');
-    }, 16 * 60 * 1000);
-  };
-
   // Polling function for screenshot jobs
   const pollForScreenshotJobs = (jobIds: string[]) => {
     console.log('Starting polling for screenshot jobs:', jobIds);
@@ -273,7 +328,7 @@ export function GeneratorPage() {
 
         // Format IDs for PostgREST - quote each UUID
         const idsFormatted = jobIds.map(id => `"${id}"`).join(',');
-        const url = `${supabaseUrl}/rest/v1/screenshot_jobs?id=in.(${idsFormatted})&select=id,url,status,screenshot_url,error_message`;
+        const url = `${supabaseUrl}/rest/v1/screenshot_jobs?id=in.(${idsFormatted})&select=id,url,status,screenshot_url,error_message,options,device_group_id`;
 
         console.log('Fetching URL:', url.substring(0, 100) + '...');
 
@@ -309,10 +364,11 @@ export function GeneratorPage() {
         }
         setScreenshotJobs(jobs);
 
-        // Count completed/failed
+        // Count completed/failed/cancelled
         const completed = jobs.filter(j => j.status === 'completed').length;
         const failed = jobs.filter(j => j.status === 'failed').length;
-        const done = completed + failed;
+        const cancelled = jobs.filter(j => j.status === 'cancelled').length;
+        const done = completed + failed + cancelled;
 
         console.log('Screenshot progress:', done, '/', jobIds.length);
         setGenerationProgress({ completed: done, total: jobIds.length });
@@ -376,6 +432,9 @@ export function GeneratorPage() {
         throw new Error(data.error || 'Failed to discover sitemap');
       }
 
+      setProjectId(data.projectId ?? null);
+      setSitemapJobId(data.jobId ?? null);
+
       if (data.success && data.urls.length > 0) {
         // Found URLs from sitemap
         const discoveredUrls = data.urls.map((url: string) => ({ url, selected: true }));
@@ -394,9 +453,9 @@ export function GeneratorPage() {
         setDiscoveryMessage(`${data.message} (source: ${data.source})`);
         setCurrentStep('selection');
       } else if (data.requiresCrawl) {
-        // No sitemap found, start Screaming Frog crawl
+        // No sitemap found, start a crawl
         setDiscoveryStatus('crawling');
-        setDiscoveryMessage('No sitemap found. Starting Screaming Frog crawl...');
+        setDiscoveryMessage('No sitemap found. Starting crawl...');
 
         // Call start-crawl API
         console.log('Starting crawl for domain:', cleanDomain, 'maxUrls:', maxUrls);
@@ -409,7 +468,13 @@ export function GeneratorPage() {
           body: JSON.stringify({
             domain: cleanDomain,
             sitemapJobId: data.jobId,
+            projectId: data.projectId,
             maxUrls: parseInt(maxUrls),
+            crawlDepth: parseInt(crawlDepth),
+            includePatterns: parsePatterns(includePatterns),
+            excludePatterns: parsePatterns(excludePatterns),
+            engine: crawlEngine,
+            render: crawlEngine !== 'screaming_frog' && renderCrawl,
           }),
         });
         console.log('Crawl response status:', crawlResponse.status);
@@ -421,63 +486,15 @@ export function GeneratorPage() {
           throw new Error(crawlData.error || 'Failed to start crawl');
         }
 
-        // API returns crawlJobId, not jobId
-        const crawlJobId = crawlData.crawlJobId;
-        console.log('Subscribing to crawl job:', crawlJobId);
-
-        // Subscribe to crawl job updates via Supabase Realtime
-        setDiscoveryMessage(`Crawl started. Job ID: ${crawlJobId}. Waiting for results...`);
-
-        const channel = supabase
-          .channel(`crawl-${crawlJobId}`)
-          .on(
-            'postgres_changes',
-            {
-              event: 'UPDATE',
-              schema: 'public',
-              table: 'crawl_jobs',
-              filter: `id=eq.${crawlJobId}`,
-            },
-            (payload) => {
-              console.log('Realtime payload received:', payload);
-              const job = payload.new as { status: string; discovered_urls: string[] | null; error_message: string | null };
-
-              if (job.status === 'completed' && job.discovered_urls) {
-                const discoveredUrls = job.discovered_urls.map((url: string) => ({ url, selected: true }));
-                setUrls(discoveredUrls);
-
-                // Generate groups for crawl results
-                const groups = generateUrlGroups(job.discovered_urls);
-                setUrlGroups(groups);
-
-                setDiscoveryStatus('completed');
-                setDiscoveryMessage(`Found ${discoveredUrls.length} URLs in ${groups.length} groups via Screaming Frog crawl`);
-                setCurrentStep('selection');
-                channel.unsubscribe();
-              } else if (job.status === 'failed') {
-                setDiscoveryStatus('error');
-                setDiscoveryMessage(job.error_message || 'Crawl failed');
-                channel.unsubscribe();
-              } else if (job.status === 'processing') {
-                setDiscoveryMessage('Crawl in progress...');
-              }
-            }
-          )
-          .subscribe((status) => {
-            console.log('Realtime subscription status:', status);
-          });
-
-        // Start polling immediately as primary method (Realtime is unreliable with RLS)
-        pollForJobStatus(crawlJobId, channel);
-
-        // Timeout after 16 minutes (server timeout is 15 min)
-        setTimeout(() => {
-          channel.unsubscribe();
-          if (discoveryStatus === 'crawling') {
-            setDiscoveryStatus('error');
-            setDiscoveryMessage('Crawl timed out. Please try again.');
-          }
-        }, 16 * 60 * 1000);
+        const job = await getCrawlJob(crawlData.crawlJobId);
+        if (!job) {
+          throw new Error('Failed to load crawl job');
+        }
+
+        // Progress streams in through useRealtimeCrawlJobs (see the crawl effect above)
+        setCurrentCrawlJob(job);
+        setCrawlJobId(job.id);
+        setDiscoveryMessage('Crawl queued. Waiting for results...');
       } else {
         setDiscoveryStatus('error');
         setDiscoveryMessage('No URLs found.');
@@ -543,7 +560,7 @@ export function GeneratorPage() {
 
     console.log('Starting screenshot generation for', selectedUrls.length, 'URLs');
     setCurrentStep('generating');
-    setGenerationProgress({ completed: 0, total: selectedUrls.length });
+    setGenerationProgress({ completed: 0, total: selectedUrls.length * (multiDevice ? deviceTypes.length : 1) });
     setScreenshotJobs([]); // Reset jobs
 
     try {
@@ -556,16 +573,33 @@ export function GeneratorPage() {
         },
         body: JSON.stringify({
           urls: selectedUrls.map(u => u.url),
+          sitemapJobId,
+          projectId,
           options: {
             fullPage,
             scrollPage,
             fresh: refreshCache,
             noAds,
             noCookies,
-            deviceType: viewport,
+            ...(multiDevice ? { deviceTypes } : getDeviceOptions(device)),
             delay: parseInt(delay),
             format,
             quality: parseInt(quality),
+            ...(format === 'pdf' ? {
+              pdf: {
+                paperSize,
+                landscape,
+                printBackground,
+                media: pdfMedia,
+                // One margin for all four sides
+                ...(pdfMargin.trim() ? {
+                  margin: Object.fromEntries(['top', 'right', 'bottom', 'left'].map(side => [side, pdfMargin.trim()])),
+                } : {}),
+              },
+            } : {}),
+            hideSelectors: parsePatterns(hideSelectors),
+            injectCss: injectCss.trim() || undefined,
+            injectJs: injectJs.trim() || undefined,
           },
         }),
       });
@@ -583,6 +617,7 @@ export function GeneratorPage() {
       console.log('Created screenshot jobs:', jobIds);
 
       // Start polling for job status
+      setRunId(data.runId);
       pollForScreenshotJobs(jobIds);
 
     } catch (error) {
@@ -592,6 +627,50 @@ export function GeneratorPage() {
     }
   };
 
+  const handleCancelCrawl = async () => {
+    if (!crawlJobId || !session) return;
+
+    setIsControllingJobs(true);
+    try {
+      await controlCrawlJob(session.access_token, crawlJobId, 'cancel');
+    } catch (error) {
+      console.error('Cancel crawl error:', error);
+    } finally {
+      setIsControllingJobs(false);
+    }
+  };
+
+  // Cancel the screenshots that have not been captured yet; polling picks up the change
+  const handleCancelGeneration = async () => {
+    if (!runId || !session) return;
+
+    setIsControllingJobs(true);
+    try {
+      await controlRun(session.access_token, runId, 'cancel');
+    } catch (error) {
+      console.error('Cancel generation error:', error);
+    } finally {
+      setIsControllingJobs(false);
+    }
+  };
+
+  // Queue the failed screenshots again and resume polling the run
+  const handleRetryFailed = async () => {
+    if (!runId || !session) return;
+
+    const failedCount = screenshotJobs.filter(j => j.status === 'failed').length;
+    setIsControllingJobs(true);
+    try {
+      await controlRun(session.access_token, runId, 'retry');
+      setGenerationProgress({ completed: screenshotJobs.length - failedCount, total: screenshotJobs.length });
+      pollForScreenshotJobs(screenshotJobs.map(j => j.id));
+    } catch (error) {
+      console.error('Retry failed screenshots error:', error);
+    } finally {
+      setIsControllingJobs(false);
+    }
+  };
+
   const handleReset = () => {
     setCurrentStep('input');
     setDomain('');
@@ -602,6 +681,7 @@ export function GeneratorPage() {
     setSearchFilter('');
     setGenerationProgress({ completed: 0, total: 0 });
     setScreenshotJobs([]);
+    setRunId(null);
   };
 
   const [isDownloading, setIsDownloading] = useState(false);
@@ -637,6 +717,16 @@ export function GeneratorPage() {
         }
       }));
 
+      // Pages captured on several devices also get a side-by-side mockup
+      await Promise.all(groupByDevice(completedJobs.filter(job => !isPdfCapture(job))).map(async (group, index) => {
+        try {
+          const composite = await createResponsiveComposite(group);
+          zip.file(`responsive/${getFilenameFromUrl(group[0].url, 'composite.png', index)}`, composite);
+        } catch (err) {
+          console.error(`Failed to compose ${group[0].url}:`, err);
+        }
+      }));
+
       // Generate and download ZIP
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       const domainName = domain ? normalizeDomain(domain) : 'screenshots';
@@ -654,7 +744,9 @@ export function GeneratorPage() {
       const urlObj = new URL(pageUrl);
       let path = urlObj.pathname.replace(/\//g, '-').replace(/^-|-$/g, '') || 'homepage';
       if (path.length > 50) path = path.substring(0, 50);
-      const ext = screenshotUrl.includes('.jpg') || screenshotUrl.includes('.jpeg') ? 'jpg' : 'png';
+      const ext = screenshotUrl.endsWith('.pdf')
+        ? 'pdf'
+        : screenshotUrl.includes('.jpg') || screenshotUrl.includes('.jpeg') ? 'jpg' : 'png';
       const prefix = index !== undefined ? `${(index + 1).toString().padStart(2, '0')}-` : '';
       return `${prefix}${path}.${ext}`;
     } catch {
@@ -737,28 +829,81 @@ export function GeneratorPage() {
                   onChange={setMaxUrls}
                 />
 
+                {/* Crawl settings, used when no sitemap is found */}
+                <Select
+                  label="Crawl depth"
+                  options={crawlDepthOptions}
+                  value={crawlDepth}
+                  onChange={setCrawlDepth}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Include URLs matching</label>
+                    <textarea
+                      value={includePatterns}
+                      onChange={(e) => setIncludePatterns(e.target.value)}
+                      rows={3}
+                      placeholder={'/blog/\n/products/'}
+                      className={`w-full px-3 py-2 text-sm font-mono border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+                        invalidIncludePattern ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                    {invalidIncludePattern ? (
+                      <p className="mt-1 text-sm text-red-600">Invalid regular expression: {invalidIncludePattern}</p>
+                    ) : (
+                      <p className="mt-1 text-sm text-gray-500">One regex per line. Leave empty to include all pages.</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Exclude URLs matching</label>
+                    <textarea
+                      value={excludePatterns}
+                      onChange={(e) => setExcludePatterns(e.target.value)}
+                      rows={3}
+                      placeholder={'/tag/\n\\?page='}
+                      className={`w-full px-3 py-2 text-sm font-mono border rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 ${
+                        invalidExcludePattern ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                    {invalidExcludePattern ? (
+                      <p className="mt-1 text-sm text-red-600">Invalid regular expression: {invalidExcludePattern}</p>
+                    ) : (
+                      <p className="mt-1 text-sm text-gray-500">Matching pages are skipped and their links not followed.</p>
+                    )}
+                  </div>
+                </div>
+                <Select
+                  label="Crawler"
+                  options={crawlEngineOptions}
+                  value={crawlEngine}
+                  onChange={(value) => setCrawlEngine(value as CrawlEngine)}
+                  error={crawlRulesError}
+                />
+                <Toggle
+                  checked={renderCrawl && crawlEngine !== 'screaming_frog'}
+                  onChange={setRenderCrawl}
+                  disabled={crawlEngine === 'screaming_frog'}
+                  label="Render JavaScript"
+                  description="Load pages in a browser to find links added by scripts (slower, built-in crawler only)"
+                />
+
                 {/* Crawl info note */}
                 <div className="text-xs text-gray-500 bg-blue-50 p-3 rounded">
-                  <strong>Note:</strong> If no sitemap is found, the crawler will discover pages automatically.
-                  Large sites may take several minutes depending on the URL limit selected.
+                  <strong>Note:</strong> If no sitemap is found, the crawler will discover pages automatically
+                  using the depth and URL patterns above. Large sites may take several minutes depending on the URL limit selected.
                 </div>
 
-                {/* Crawl progress indicator */}
-                {discoveryStatus === 'crawling' && crawlProgress.total > 0 && (
+                {/* Live crawl progress */}
+                {discoveryStatus === 'crawling' && crawlJobId && currentCrawlJob?.id === crawlJobId ? (
                   <div className="space-y-2">
-                    <ProgressBar
-                      value={crawlProgress.completed}
-                      max={crawlProgress.total}
-                      showLabel
-                      size="sm"
-                    />
-                    <p className="text-xs text-gray-500 text-center">
-                      Crawling: {crawlProgress.completed} / {crawlProgress.total} URLs discovered
-                    </p>
+                    <CrawlProgressPanel job={currentCrawlJob} />
+                    <div className="flex justify-end">
+                      <Button variant="ghost" size="sm" onClick={handleCancelCrawl} isLoading={isControllingJobs}>
+                        Cancel Crawl
+                      </Button>
+                    </div>
                   </div>
-                )}
-
-                {discoveryStatus !== 'idle' && discoveryStatus !== 'completed' && (
+                ) : discoveryStatus !== 'idle' && discoveryStatus !== 'completed' && (
                   <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
                     <div className="w-5 h-5 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
                     <span className="text-sm text-gray-600">{discoveryMessage}</span>
@@ -774,7 +919,7 @@ export function GeneratorPage() {
                 <Button
                   onClick={handleDiscoverSitemap}
                   isLoading={discoveryStatus === 'discovering' || discoveryStatus === 'crawling'}
-                  disabled={!domain}
+                  disabled={!domain || !!invalidIncludePattern || !!invalidExcludePattern || !!crawlRulesError}
                 >
                   Fetch Sitemap
                 </Button>
@@ -997,12 +1142,14 @@ export function GeneratorPage() {
                 <div>
                   <h4 className="text-sm font-medium text-gray-700 mb-3">Output Settings</h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                    <Select
-                      label="Viewport Size"
-                      options={viewportOptions}
-                      value={viewport}
-                      onChange={setViewport}
-                    />
+                    {multiDevice ? (
+                      <div className="text-sm text-gray-600">
+                        <p className="font-medium text-gray-700 mb-1">Devices</p>
+                        {deviceTypes.length} selected below
+                      </div>
+                    ) : (
+                      <DevicePicker value={device} onChange={setDevice} />
+                    )}
                     <Input
                       label="Delay (seconds)"
                       type="number"
@@ -1032,12 +1179,127 @@ export function GeneratorPage() {
                   </div>
                 </div>
 
+                {/* PDF Settings */}
+                {format === 'pdf' && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-3">PDF Settings</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                      <Select
+                        label="Paper Size"
+                        options={PAPER_SIZE_OPTIONS}
+                        value={paperSize}
+                        onChange={(value) => setPaperSize(value as PaperSize)}
+                      />
+                      <Select
+                        label="Styles"
+                        options={PDF_MEDIA_OPTIONS}
+                        value={pdfMedia}
+                        onChange={(value) => setPdfMedia(value as 'screen' | 'print')}
+                      />
+                      <Input
+                        label="Margin"
+                        value={pdfMargin}
+                        onChange={(e) => setPdfMargin(e.target.value)}
+                        placeholder="10mm"
+                        helperText="All sides, in px, mm, cm or in"
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                      <Toggle
+                        checked={landscape}
+                        onChange={setLandscape}
+                        label="Landscape"
+                        description="Print the page sideways"
+                      />
+                      <Toggle
+                        checked={printBackground}
+                        onChange={setPrintBackground}
+                        label="Print Backgrounds"
+                        description="Include background colors and images"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Devices */}
+                <div>
+                  <Toggle
+                    checked={multiDevice}
+                    onChange={setMultiDevice}
+                    label="Capture on several devices"
+                    description="One screenshot per device for each page, shown side by side in Projects and as a mockup in the ZIP"
+                  />
+                  {multiDevice && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 mt-3">
+                      {deviceOptions.map(option => {
+                        const checked = deviceTypes.includes(option.value);
+                        return (
+                          <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={!checked && deviceTypes.length >= MAX_DEVICES}
+                              onChange={() => setDeviceTypes(prev =>
+                                checked ? prev.filter(type => type !== option.value) : [...prev, option.value]
+                              )}
+                              className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                            />
+                            {option.label}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                {/* Page Adjustments */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-3">Page Adjustments</h4>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Hide elements</label>
+                      <textarea
+                        value={hideSelectors}
+                        onChange={(e) => setHideSelectors(e.target.value)}
+                        rows={3}
+                        placeholder={'#intercom-container\n.chat-widget'}
+                        className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">One CSS selector per line, up to 50. Matching elements are hidden before capture.</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Custom CSS</label>
+                        <textarea
+                          value={injectCss}
+                          onChange={(e) => setInjectCss(e.target.value)}
+                          rows={5}
+                          placeholder={'*, *::before, *::after {\n  animation: none !important;\n  transition: none !important;\n}'}
+                          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <p className="mt-1 text-sm text-gray-500">Added to every page after it loads.</p>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Custom JavaScript</label>
+                        <textarea
+                          value={injectJs}
+                          onChange={(e) => setInjectJs(e.target.value)}
+                          rows={5}
+                          placeholder={"document.querySelector('.menu-toggle')?.click();"}
+                          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <p className="mt-1 text-sm text-gray-500">Runs in the page before capture and may use await. Must finish within 10 seconds.</p>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="flex gap-4 pt-4 border-t border-gray-100">
                   <Button variant="secondary" onClick={() => setCurrentStep('selection')}>
                     Back
                   </Button>
-                  <Button onClick={handleGenerateScreenshots}>
-                    Generate {selectedCount} Screenshots
+                  <Button onClick={handleGenerateScreenshots} disabled={multiDevice && deviceTypes.length === 0}>
+                    Generate {selectedCount * (multiDevice ? deviceTypes.length : 1)} Screenshots
                   </Button>
                 </div>
               </div>
@@ -1079,6 +1341,14 @@ export function GeneratorPage() {
                   }
                 />
 
+                {generationProgress.completed < generationProgress.total && runId && (
+                  <div className="flex justify-end">
+                    <Button variant="danger" size="sm" onClick={handleCancelGeneration} isLoading={isControllingJobs}>
+                      Cancel Remaining
+                    </Button>
+                  </div>
+                )}
+
                 {generationProgress.completed === generationProgress.total && generationProgress.total > 0 && (
                   <div className="space-y-4">
                     <div className="text-center py-4">
@@ -1104,6 +1374,8 @@ export function GeneratorPage() {
                         {screenshotJobs.filter(j => j.status === 'completed').length} successful
                         {screenshotJobs.filter(j => j.status === 'failed').length > 0 &&
                           `, ${screenshotJobs.filter(j => j.status === 'failed').length} failed`}
+                        {screenshotJobs.filter(j => j.status === 'cancelled').length > 0 &&
+                          `, ${screenshotJobs.filter(j => j.status === 'cancelled').length} cancelled`}
                       </p>
                     </div>
 
@@ -1113,11 +1385,15 @@ export function GeneratorPage() {
                         {screenshotJobs.filter(j => j.status === 'completed' && j.screenshot_url).map((job) => (
                           <div key={job.id} className="border border-gray-200 rounded-lg overflow-hidden bg-white shadow-sm">
                             <div className="aspect-video bg-gray-100 overflow-hidden">
-                              <img
-                                src={job.screenshot_url || ''}
-                                alt={job.url}
-                                className="w-full h-full object-cover object-top"
-                              />
+                              {isPdfCapture(job) ? (
+                                <PdfPreview pdf={job.options?.pdf} />
+                              ) : (
+                                <img
+                                  src={job.screenshot_url || ''}
+                                  alt={job.url}
+                                  className="w-full h-full object-cover object-top"
+                                />
+                              )}
                             </div>
                             <div className="p-3">
                               <p className="text-xs text-gray-500 truncate mb-2">{job.url}</p>
@@ -1127,7 +1403,7 @@ export function GeneratorPage() {
                                 rel="noopener noreferrer"
                                 className="text-xs text-primary-600 hover:underline"
                               >
-                                Open Full Size
+                                {isPdfCapture(job) ? 'Open PDF' : 'Open Full Size'}
                               </a>
                             </div>
                           </div>
@@ -1153,6 +1429,11 @@ export function GeneratorPage() {
                       <Button variant="secondary" onClick={handleReset}>
                         Generate More
                       </Button>
+                      {runId && screenshotJobs.some(j => j.status === 'failed') && (
+                        <Button variant="secondary" onClick={handleRetryFailed} isLoading={isControllingJobs}>
+                          Retry Failed
+                        </Button>
+                      )}
                       <Button
                         onClick={handleDownloadAll}
                         disabled={screenshotJobs.filter(j => j.status === 'completed').length === 0 || isDownloading}
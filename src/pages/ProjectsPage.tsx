@@ -1,67 +1,133 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { MainLayout } from '../components/layout/MainLayout';
 import { Card, CardHeader, CardContent } from '../components/ui/Card';
-import { Badge } from '../components/ui/Badge';
 import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { ComparisonModal } from '../components/projects/ComparisonModal';
+import { ProjectModal } from '../components/projects/ProjectModal';
+import { RunsTab, type ProjectRuns } from '../components/projects/RunsTab';
+import { ScheduleModal } from '../components/projects/ScheduleModal';
+import { SchedulesTab } from '../components/projects/SchedulesTab';
+import { ScreenshotsTab } from '../components/projects/ScreenshotsTab';
+import { StatusBadge } from '../components/projects/StatusBadge';
+import { UrlsTab } from '../components/projects/UrlsTab';
+import { downloadZip, projectFileName } from '../components/projects/download';
+import { RUNS_PAGE_SIZE, formatDate } from '../components/projects/format';
+import {
+  emptyProjectForm,
+  parseCredentialsForm,
+  parseLoginFlowForm,
+  type ProjectForm,
+} from '../components/projects/projectForm';
+import { buildCronExpression, emptyScheduleForm, type ScheduleForm } from '../components/projects/schedules';
+import type { ProjectDetail, ScreenshotSettings } from '../components/projects/screenshots';
 import { supabase } from '../services/supabase';
+import {
+  getProjects,
+  getProject,
+  getProjectScreenshots,
+  getProjectRuns,
+  getProjectSchedules,
+  createProject,
+  updateProject,
+  deleteProject,
+  getProjectCredentials,
+  saveProjectCredentials,
+  deleteProjectCredentials,
+  getProjectLoginFlow,
+  saveProjectLoginFlow,
+  deleteProjectLoginFlow,
+  createProjectSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getRunDiffs,
+  compareRun,
+  controlRun,
+  getProjectBaselines,
+  setProjectBaseline,
+} from '../services/projectService';
 import { useAuth } from '../hooks/useAuth';
-
-interface SitemapJob {
-  id: string;
-  domain: string;
-  status: string;
-  urls: string[];
-  source: string | null;
-  created_at: string;
-  completed_at: string | null;
-}
-
-interface ScreenshotJob {
-  id: string;
-  url: string;
-  status: string;
-  screenshot_url: string | null;
-  options: {
-    deviceType?: string;
-    fullPage?: boolean;
-  };
-  created_at: string;
-  completed_at: string | null;
-  sitemap_job_id: string | null;
-}
-
-interface Project {
-  domain: string;
-  sitemapJob: SitemapJob | null;
-  screenshots: ScreenshotJob[];
-  createdAt: string;
-  totalUrls: number;
-  completedScreenshots: number;
-}
-
-type TabType = 'screenshots' | 'urls';
+import type {
+  BaselineWithJob,
+  DeviceType,
+  JobAction,
+  ProjectCredentials,
+  ProjectLoginFlow,
+  ProjectSchedule,
+  ProjectSummary,
+  ScreenshotJob,
+  ScreenshotRun,
+  ScreenshotDiff,
+} from '../types/database.types';
+
+type TabType = 'screenshots' | 'runs' | 'urls' | 'schedules';
+
+const PROJECTS_PAGE_SIZE = 10;
+const SCREENSHOTS_PAGE_SIZE = 24;
 
 export function ProjectsPage() {
-  const { profile, session, isLoading: authLoading } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
+  const { session, isLoading: authLoading } = useAuth();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [totalProjects, setTotalProjects] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [details, setDetails] = useState<Record<string, ProjectDetail>>({});
+  const [projectRuns, setProjectRuns] = useState<Record<string, ProjectRuns>>({});
+  const [downloadingRunId, setDownloadingRunId] = useState<string | null>(null);
+  const [controllingRunId, setControllingRunId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{
+    project: ProjectSummary;
+    run: ScreenshotRun;
+    diffs: ScreenshotDiff[];
+    error: string | null;
+  } | null>(null);
+  const [comparingRunId, setComparingRunId] = useState<string | null>(null);
+  const [baselines, setBaselines] = useState<Record<string, BaselineWithJob[]>>({});
+  const [settingBaselineId, setSettingBaselineId] = useState<string | null>(null);
+  const diffPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [schedules, setSchedules] = useState<Record<string, ProjectSchedule[]>>({});
+  const [updatingScheduleId, setUpdatingScheduleId] = useState<string | null>(null);
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
   const [selectedScreenshots, setSelectedScreenshots] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<Record<string, TabType>>({});
   const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
-  const [reanalyzingDomain, setReanalyzingDomain] = useState<string | null>(null);
-  const [generatingForDomain, setGeneratingForDomain] = useState<string | null>(null);
+  const [reanalyzingId, setReanalyzingId] = useState<string | null>(null);
+  const [generatingForId, setGeneratingForId] = useState<string | null>(null);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [urlFilter, setUrlFilter] = useState('');
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Create / edit / delete project
+  const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+  const [projectForm, setProjectForm] = useState<ProjectForm>(emptyProjectForm);
+  const [projectFormError, setProjectFormError] = useState<string | null>(null);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [projectCredentials, setProjectCredentials] = useState<ProjectCredentials | null>(null);
+  const [isRemovingCredentials, setIsRemovingCredentials] = useState(false);
+  const [projectLoginFlow, setProjectLoginFlow] = useState<ProjectLoginFlow | null>(null);
+  const [isRemovingLoginFlow, setIsRemovingLoginFlow] = useState(false);
+  const [projectToDelete, setProjectToDelete] = useState<ProjectSummary | null>(null);
+  const [isDeletingProject, setIsDeletingProject] = useState(false);
+
+  // Create schedule
+  const [scheduleProject, setScheduleProject] = useState<ProjectSummary | null>(null);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>(emptyScheduleForm);
+  const [scheduleFormError, setScheduleFormError] = useState<string | null>(null);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+
   // Screenshot generation options
-  const [screenshotOptions, setScreenshotOptions] = useState({
+  const [screenshotOptions, setScreenshotOptions] = useState<ScreenshotSettings>({
     fullPage: true,
     viewport: 'desktop',
     delay: 2,
   });
 
+  const accessToken = session?.access_token;
+
   useEffect(() => {
     async function fetchProjects() {
       // Wait for auth to finish loading
@@ -69,76 +135,21 @@ export function ProjectsPage() {
         return;
       }
 
-      // If no profile after auth is done, stop loading
-      if (!profile?.id) {
+      // If no session after auth is done, stop loading
+      if (!accessToken) {
         setIsLoading(false);
         return;
       }
 
       setIsLoading(true);
       try {
-        // Fetch sitemap jobs
-        const { data: sitemapJobs, error: sitemapError } = await supabase
-          .from('sitemap_jobs')
-          .select('*')
-          .eq('user_id', profile.id)
-          .order('created_at', { ascending: false });
-
-        if (sitemapError) throw sitemapError;
-
-        // Fetch screenshot jobs
-        const { data: screenshotJobs, error: screenshotError } = await supabase
-          .from('screenshot_jobs')
-          .select('*')
-          .eq('user_id', profile.id)
-          .order('created_at', { ascending: false });
-
-        if (screenshotError) throw screenshotError;
-
-        // Group by domain
-        const projectMap = new Map<string, Project>();
-
-        // Process sitemap jobs
-        (sitemapJobs || []).forEach((job: SitemapJob) => {
-          const domain = extractDomain(job.domain);
-          if (!projectMap.has(domain)) {
-            projectMap.set(domain, {
-              domain,
-              sitemapJob: job,
-              screenshots: [],
-              createdAt: job.created_at,
-              totalUrls: Array.isArray(job.urls) ? job.urls.length : 0,
-              completedScreenshots: 0,
-            });
-          }
-        });
-
-        // Process screenshot jobs
-        (screenshotJobs || []).forEach((job: ScreenshotJob) => {
-          const domain = extractDomain(job.url);
-          if (!projectMap.has(domain)) {
-            projectMap.set(domain, {
-              domain,
-              sitemapJob: null,
-              screenshots: [],
-              createdAt: job.created_at,
-              totalUrls: 0,
-              completedScreenshots: 0,
-            });
-          }
-          const project = projectMap.get(domain)!;
-          project.screenshots.push(job);
-          if (job.status === 'completed') {
-            project.completedScreenshots++;
-          }
+        const data = await getProjects(accessToken, {
+          page,
+          pageSize: PROJECTS_PAGE_SIZE,
+          search,
         });
-
-        // Convert to array and sort by date
-        const projectList = Array.from(projectMap.values()).sort(
-          (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-
-        setProjects(projectList);
+        setProjects(data.projects);
+        setTotalProjects(data.total);
       } catch (err) {
         console.error('Failed to fetch projects:', err);
       } finally {
@@ -147,56 +158,327 @@ export function ProjectsPage() {
     }
 
     fetchProjects();
-  }, [profile?.id, authLoading]);
+  }, [accessToken, authLoading, page, search, refreshKey]);
+
+  const loadProjectDetail = async (
+    projectId: string,
+    screenshotPage: number = 1,
+    run: ScreenshotRun | null = null
+  ) => {
+    if (!accessToken) return;
+
+    setDetails(prev => ({
+      ...prev,
+      [projectId]: {
+        sitemapJob: prev[projectId]?.sitemapJob ?? null,
+        screenshots: prev[projectId]?.screenshots ?? [],
+        screenshotTotal: prev[projectId]?.screenshotTotal ?? 0,
+        screenshotPage: prev[projectId]?.screenshotPage ?? 0,
+        run,
+        isLoading: true,
+      },
+    }));
 
-  const extractDomain = (url: string): string => {
     try {
-      const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-      return urlObj.hostname.replace('www.', '');
-    } catch {
-      return url;
+      const [{ sitemapJob }, screenshotData] = await Promise.all([
+        getProject(accessToken, projectId),
+        getProjectScreenshots(accessToken, projectId, {
+          page: screenshotPage,
+          pageSize: SCREENSHOTS_PAGE_SIZE,
+          runId: run?.id,
+        }),
+      ]);
+
+      setDetails(prev => {
+        // Later pages are appended to what is already loaded
+        const existing = screenshotPage > 1 ? prev[projectId]?.screenshots ?? [] : [];
+        const existingIds = new Set(existing.map(s => s.id));
+        return {
+          ...prev,
+          [projectId]: {
+            sitemapJob,
+            screenshots: [...existing, ...screenshotData.screenshots.filter(s => !existingIds.has(s.id))],
+            screenshotTotal: screenshotData.total,
+            screenshotPage,
+            run,
+            isLoading: false,
+          },
+        };
+      });
+
+      return { sitemapJob, screenshotTotal: screenshotData.total };
+    } catch (err) {
+      console.error('Failed to fetch project:', err);
+      setDetails(prev => ({
+        ...prev,
+        [projectId]: { ...prev[projectId], isLoading: false },
+      }));
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const loadProjectRuns = async (projectId: string, runsPage: number = 1) => {
+    if (!accessToken) return;
+
+    setProjectRuns(prev => ({
+      ...prev,
+      [projectId]: {
+        runs: prev[projectId]?.runs ?? [],
+        total: prev[projectId]?.total ?? 0,
+        page: prev[projectId]?.page ?? 1,
+        isLoading: true,
+      },
+    }));
+
+    try {
+      const data = await getProjectRuns(accessToken, projectId, {
+        page: runsPage,
+        pageSize: RUNS_PAGE_SIZE,
+      });
+      setProjectRuns(prev => ({
+        ...prev,
+        [projectId]: { runs: data.runs, total: data.total, page: runsPage, isLoading: false },
+      }));
+    } catch (err) {
+      console.error('Failed to fetch runs:', err);
+      setProjectRuns(prev => ({
+        ...prev,
+        [projectId]: { ...prev[projectId], isLoading: false },
+      }));
+    }
+  };
+
+  const loadSchedules = async (projectId: string) => {
+    if (!accessToken) return;
+
+    try {
+      const data = await getProjectSchedules(accessToken, projectId);
+      setSchedules(prev => ({ ...prev, [projectId]: data }));
+    } catch (err) {
+      console.error('Failed to fetch schedules:', err);
+    }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return <Badge variant="success">Completed</Badge>;
-      case 'processing':
-        return <Badge variant="warning">Processing</Badge>;
-      case 'failed':
-        return <Badge variant="error">Failed</Badge>;
-      default:
-        return <Badge variant="default">Pending</Badge>;
+  const loadBaselines = async (projectId: string) => {
+    if (!accessToken) return;
+
+    try {
+      const data = await getProjectBaselines(accessToken, projectId);
+      setBaselines(prev => ({ ...prev, [projectId]: data }));
+    } catch (err) {
+      console.error('Failed to fetch baselines:', err);
     }
   };
 
-  const toggleProjectExpanded = (domain: string) => {
-    setExpandedProject(expandedProject === domain ? null : domain);
+  const toggleProjectExpanded = async (project: ProjectSummary) => {
+    const isExpanding = expandedProject !== project.id;
+    setExpandedProject(isExpanding ? project.id : null);
     setSelectedScreenshots(new Set());
     setSelectedUrls(new Set());
     setExpandedGroups(new Set());
     setUrlFilter('');
+
+    if (!isExpanding) return;
+
+    // Project settings are the defaults for generating from this project
+    setScreenshotOptions({
+      fullPage: project.settings?.fullPage ?? true,
+      viewport: project.settings?.deviceType ?? 'desktop',
+      delay: project.settings?.delay ?? 2,
+    });
+
+    loadProjectRuns(project.id);
+    loadSchedules(project.id);
+    loadBaselines(project.id);
+    const detail = await loadProjectDetail(project.id);
     // Default to screenshots tab if there are screenshots, otherwise urls
-    const project = projects.find(p => p.domain === domain);
-    if (project && !activeTab[domain]) {
+    if (detail && !activeTab[project.id]) {
       setActiveTab(prev => ({
         ...prev,
-        [domain]: project.screenshots.length > 0 ? 'screenshots' : 'urls'
+        [project.id]: detail.screenshotTotal > 0 || !detail.sitemapJob?.urls?.length ? 'screenshots' : 'urls'
       }));
     }
   };
 
+  const openCreateProject = () => {
+    setEditingProjectId(null);
+    setProjectForm(emptyProjectForm);
+    setProjectFormError(null);
+    setProjectCredentials(null);
+    setProjectLoginFlow(null);
+    setIsProjectModalOpen(true);
+  };
+
+  const openEditProject = (project: ProjectSummary) => {
+    setEditingProjectId(project.id);
+    setProjectForm({
+      name: project.name,
+      domain: project.domain,
+      description: project.description || '',
+      deviceType: project.settings?.deviceType ?? 'desktop',
+      fullPage: project.settings?.fullPage ?? true,
+      delay: project.settings?.delay ?? 2,
+      authUsername: '',
+      authPassword: '',
+      authHeaders: '',
+      authCookies: '',
+      loginUrl: '',
+      loginUsernameSelector: '',
+      loginPasswordSelector: '',
+      loginSubmitSelector: '',
+      loginSuccessSelector: '',
+      loginUsername: '',
+      loginPassword: '',
+    });
+    setProjectFormError(null);
+    setProjectCredentials(null);
+    setProjectLoginFlow(null);
+    setIsProjectModalOpen(true);
+
+    if (accessToken) {
+      getProjectCredentials(accessToken, project.id)
+        .then(setProjectCredentials)
+        .catch(err => console.error('Failed to load project credentials:', err));
+
+      getProjectLoginFlow(accessToken, project.id)
+        .then(flow => {
+          setProjectLoginFlow(flow);
+          if (flow) {
+            setProjectForm(prev => ({
+              ...prev,
+              loginUrl: flow.loginUrl,
+              loginUsernameSelector: flow.usernameSelector,
+              loginPasswordSelector: flow.passwordSelector,
+              loginSubmitSelector: flow.submitSelector || '',
+              loginSuccessSelector: flow.successSelector,
+            }));
+          }
+        })
+        .catch(err => console.error('Failed to load project login flow:', err));
+    }
+  };
+
+  const handleRemoveCredentials = async () => {
+    if (!accessToken || !editingProjectId) return;
+
+    setIsRemovingCredentials(true);
+    try {
+      await deleteProjectCredentials(accessToken, editingProjectId);
+      setProjectCredentials(null);
+    } catch (err) {
+      setProjectFormError((err as Error).message);
+    } finally {
+      setIsRemovingCredentials(false);
+    }
+  };
+
+  const handleRemoveLoginFlow = async () => {
+    if (!accessToken || !editingProjectId) return;
+
+    setIsRemovingLoginFlow(true);
+    try {
+      await deleteProjectLoginFlow(accessToken, editingProjectId);
+      setProjectLoginFlow(null);
+      setProjectForm(prev => ({
+        ...prev,
+        loginUrl: '',
+        loginUsernameSelector: '',
+        loginPasswordSelector: '',
+        loginSubmitSelector: '',
+        loginSuccessSelector: '',
+        loginUsername: '',
+        loginPassword: '',
+      }));
+    } catch (err) {
+      setProjectFormError((err as Error).message);
+    } finally {
+      setIsRemovingLoginFlow(false);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!accessToken) return;
+
+    if (!projectForm.domain.trim()) {
+      setProjectFormError('Domain is required');
+      return;
+    }
+
+    const credentials = parseCredentialsForm(projectForm);
+    if (credentials.error) {
+      setProjectFormError(credentials.error);
+      return;
+    }
+
+    const loginFlow = parseLoginFlowForm(projectForm, projectLoginFlow !== null);
+    if (loginFlow.error) {
+      setProjectFormError(loginFlow.error);
+      return;
+    }
+
+    setIsSavingProject(true);
+    setProjectFormError(null);
+    try {
+      const input = {
+        name: projectForm.name.trim() || undefined,
+        domain: projectForm.domain.trim(),
+        description: projectForm.description.trim() || null,
+        settings: {
+          deviceType: projectForm.deviceType,
+          fullPage: projectForm.fullPage,
+          delay: projectForm.delay,
+        },
+      };
+
+      let projectId = editingProjectId;
+      if (editingProjectId) {
+        const updated = await updateProject(accessToken, editingProjectId, input);
+        setProjects(prev => prev.map(p => (p.id === updated.id ? { ...p, ...updated } : p)));
+      } else {
+        const created = await createProject(accessToken, input);
+        projectId = created.id;
+        setPage(1);
+        setRefreshKey(key => key + 1);
+      }
+
+      if (projectId && credentials.input) {
+        await saveProjectCredentials(accessToken, projectId, credentials.input);
+      }
+
+      if (projectId && loginFlow.input) {
+        await saveProjectLoginFlow(accessToken, projectId, loginFlow.input);
+      }
+
+      setIsProjectModalOpen(false);
+    } catch (err) {
+      setProjectFormError((err as Error).message);
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!accessToken || !projectToDelete) return;
+
+    setIsDeletingProject(true);
+    try {
+      await deleteProject(accessToken, projectToDelete.id);
+      if (expandedProject === projectToDelete.id) {
+        setExpandedProject(null);
+      }
+      // Step back a page if the last project on this page was removed
+      if (projects.length === 1 && page > 1) {
+        setPage(page - 1);
+      } else {
+        setRefreshKey(key => key + 1);
+      }
+      setProjectToDelete(null);
+    } catch (err) {
+      console.error('Failed to delete project:', err);
+    } finally {
+      setIsDeletingProject(false);
+    }
+  };
+
   const toggleScreenshotSelection = (id: string) => {
     const newSelected = new Set(selectedScreenshots);
     if (newSelected.has(id)) {
@@ -207,8 +489,8 @@ export function ProjectsPage() {
     setSelectedScreenshots(newSelected);
   };
 
-  const selectAllScreenshots = (project: Project) => {
-    const completed = project.screenshots.filter(s => s.status === 'completed' && s.screenshot_url);
+  const selectAllScreenshots = (project: ProjectSummary) => {
+    const completed = (details[project.id]?.screenshots || []).filter(s => s.status === 'completed' && s.screenshot_url);
     setSelectedScreenshots(new Set(completed.map(s => s.id)));
   };
 
@@ -234,8 +516,8 @@ export function ProjectsPage() {
     setSelectedUrls(new Set());
   };
 
-  const downloadSelected = async (project: Project) => {
-    const selected = project.screenshots.filter(s => selectedScreenshots.has(s.id) && s.screenshot_url);
+  const downloadSelected = async (project: ProjectSummary) => {
+    const selected = (details[project.id]?.screenshots || []).filter(s => selectedScreenshots.has(s.id) && s.screenshot_url);
     if (selected.length === 0) return;
 
     if (selected.length === 1) {
@@ -243,63 +525,178 @@ export function ProjectsPage() {
       return;
     }
 
-    // For multiple files, dynamically import JSZip
-    const JSZip = (await import('jszip')).default;
-    const { saveAs } = await import('file-saver');
+    await downloadZip(selected, `${projectFileName(project)}-screenshots.zip`);
+  };
 
-    const zip = new JSZip();
+  const downloadRun = async (project: ProjectSummary, run: ScreenshotRun) => {
+    if (!accessToken) return;
 
-    await Promise.all(selected.map(async (job, index) => {
-      if (!job.screenshot_url) return;
-      try {
-        const response = await fetch(job.screenshot_url);
-        const blob = await response.blob();
-        const filename = `${(index + 1).toString().padStart(2, '0')}-${extractPath(job.url)}.png`;
-        zip.file(filename, blob);
-      } catch (err) {
-        console.error(`Failed to download ${job.url}:`, err);
-      }
-    }));
+    setDownloadingRunId(run.id);
+    try {
+      // Runs hold at most 100 screenshots, so one page covers the whole run
+      const { screenshots } = await getProjectScreenshots(accessToken, project.id, {
+        runId: run.id,
+        pageSize: 100,
+      });
+      const completed = screenshots
+        .filter(s => s.status === 'completed' && s.screenshot_url)
+        .reverse();
+      if (completed.length === 0) return;
 
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
-    saveAs(zipBlob, `${project.domain}-screenshots.zip`);
+      const runDate = new Date(run.created_at).toISOString().slice(0, 16).replace(/[T:]/g, '-');
+      await downloadZip(completed, `${projectFileName(project)}-${runDate}.zip`);
+    } catch (err) {
+      console.error('Failed to download run:', err);
+    } finally {
+      setDownloadingRunId(null);
+    }
   };
 
-  const extractPath = (url: string): string => {
+  // Pause, resume or cancel a run's unfinished screenshots, or retry its failed ones
+  const controlProjectRun = async (projectId: string, run: ScreenshotRun, action: JobAction) => {
+    if (!accessToken) return;
+
+    setControllingRunId(run.id);
     try {
-      const urlObj = new URL(url);
-      let path = urlObj.pathname.replace(/\//g, '-').replace(/^-|-$/g, '') || 'homepage';
-      if (path.length > 40) path = path.substring(0, 40);
-      return path;
-    } catch {
-      return 'screenshot';
+      await controlRun(accessToken, run.id, action);
+      await loadProjectRuns(projectId, projectRuns[projectId]?.page ?? 1);
+    } catch (err) {
+      console.error(`Failed to ${action} run:`, err);
+    } finally {
+      setControllingRunId(null);
     }
   };
 
-  const getPathPrefix = (url: string): string => {
+  const openCreateSchedule = (project: ProjectSummary) => {
+    setScheduleProject(project);
+    setScheduleForm({
+      ...emptyScheduleForm,
+      // Without a URL list the schedule has to read the sitemap itself
+      urlMode: (details[project.id]?.sitemapJob?.urls?.length ?? 0) > 0 ? 'saved' : 'rediscover',
+    });
+    setScheduleFormError(null);
+  };
+
+  // URLs a "saved" schedule captures: the current selection, or every discovered URL
+  const getScheduleUrls = (project: ProjectSummary) =>
+    selectedUrls.size > 0 ? Array.from(selectedUrls) : details[project.id]?.sitemapJob?.urls || [];
+
+  const handleCreateSchedule = async () => {
+    if (!accessToken || !scheduleProject) return;
+
+    setIsSavingSchedule(true);
+    setScheduleFormError(null);
     try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split('/').filter(Boolean);
-      return pathParts[0] || 'homepage';
-    } catch {
-      return 'other';
+      const schedule = await createProjectSchedule(accessToken, scheduleProject.id, {
+        name: scheduleForm.name.trim() || null,
+        cronExpression: buildCronExpression(scheduleForm),
+        timezone: scheduleForm.timezone,
+        urlMode: scheduleForm.urlMode,
+        urls: scheduleForm.urlMode === 'saved' ? getScheduleUrls(scheduleProject) : undefined,
+        maxUrls: parseInt(scheduleForm.maxUrls),
+        options: {
+          fullPage: screenshotOptions.fullPage,
+          deviceType: screenshotOptions.viewport as DeviceType,
+          delay: screenshotOptions.delay,
+        },
+      });
+      setSchedules(prev => ({
+        ...prev,
+        [scheduleProject.id]: [...(prev[scheduleProject.id] || []), schedule],
+      }));
+      setScheduleProject(null);
+    } catch (err) {
+      setScheduleFormError((err as Error).message);
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const toggleScheduleActive = async (schedule: ProjectSchedule) => {
+    if (!accessToken) return;
+
+    setUpdatingScheduleId(schedule.id);
+    try {
+      const updated = await updateSchedule(accessToken, schedule.id, { isActive: !schedule.is_active });
+      setSchedules(prev => ({
+        ...prev,
+        [schedule.project_id]: (prev[schedule.project_id] || []).map(s => (s.id === updated.id ? updated : s)),
+      }));
+    } catch (err) {
+      console.error('Failed to update schedule:', err);
+    } finally {
+      setUpdatingScheduleId(null);
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: ProjectSchedule) => {
+    if (!accessToken) return;
+
+    setUpdatingScheduleId(schedule.id);
+    try {
+      await deleteSchedule(accessToken, schedule.id);
+      setSchedules(prev => ({
+        ...prev,
+        [schedule.project_id]: (prev[schedule.project_id] || []).filter(s => s.id !== schedule.id),
+      }));
+    } catch (err) {
+      console.error('Failed to delete schedule:', err);
+    } finally {
+      setUpdatingScheduleId(null);
     }
   };
 
-  const groupScreenshotsByPath = (screenshots: ScreenshotJob[]): Record<string, ScreenshotJob[]> => {
-    const groups: Record<string, ScreenshotJob[]> = {};
+  const stopDiffPolling = () => {
+    if (diffPollRef.current) {
+      clearInterval(diffPollRef.current);
+      diffPollRef.current = null;
+    }
+  };
 
-    screenshots.forEach(screenshot => {
-      const groupKey = getPathPrefix(screenshot.url);
-      if (!groups[groupKey]) {
-        groups[groupKey] = [];
+  // Refresh the comparison until the worker has finished every diff
+  const pollRunDiffs = (projectId: string, runId: string) => {
+    stopDiffPolling();
+    diffPollRef.current = setInterval(async () => {
+      if (!accessToken) return;
+      try {
+        const diffs = await getRunDiffs(accessToken, projectId, runId);
+        setComparison(prev => (prev && prev.run.id === runId ? { ...prev, diffs } : prev));
+        if (diffs.every(diff => diff.status === 'completed' || diff.status === 'failed')) {
+          stopDiffPolling();
+        }
+      } catch (err) {
+        console.error('Failed to fetch diffs:', err);
       }
-      groups[groupKey].push(screenshot);
-    });
+    }, 3000);
+  };
+
+  const compareWithPreviousRun = async (project: ProjectSummary, run: ScreenshotRun) => {
+    if (!accessToken) return;
 
-    // Sort groups by count (descending)
-    const sortedEntries = Object.entries(groups).sort((a, b) => b[1].length - a[1].length);
-    return Object.fromEntries(sortedEntries);
+    setComparingRunId(run.id);
+    try {
+      const { diffs } = await compareRun(accessToken, project.id, run.id);
+      setComparison({ project, run, diffs, error: null });
+      if (diffs.some(diff => diff.status === 'pending' || diff.status === 'processing')) {
+        pollRunDiffs(project.id, run.id);
+      }
+    } catch (err) {
+      setComparison({ project, run, diffs: [], error: (err as Error).message });
+    } finally {
+      setComparingRunId(null);
+    }
+  };
+
+  const closeComparison = () => {
+    stopDiffPolling();
+    setComparison(null);
+  };
+
+  const viewRun = (project: ProjectSummary, run: ScreenshotRun | null) => {
+    setSelectedScreenshots(new Set());
+    setExpandedGroups(new Set());
+    setActiveTab(prev => ({ ...prev, [project.id]: 'screenshots' }));
+    loadProjectDetail(project.id, 1, run);
   };
 
   const toggleGroupExpanded = (group: string) => {
@@ -312,32 +709,31 @@ export function ProjectsPage() {
     setExpandedGroups(newExpanded);
   };
 
-  const handleReanalyze = async (project: Project) => {
-    if (!session?.access_token) return;
+  const handleReanalyze = async (project: ProjectSummary) => {
+    if (!accessToken) return;
 
-    setReanalyzingDomain(project.domain);
+    setReanalyzingId(project.id);
     try {
       const response = await fetch('/api/sitemap/discover', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
+          'Authorization': `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ domain: project.domain }),
+        body: JSON.stringify({ domain: project.domain, projectId: project.id }),
       });
 
       const data = await response.json();
       if (response.ok && data.urls) {
-        // Update the project's sitemap job with new URLs
+        // Reload the project so it shows the new sitemap job
+        const detail = await loadProjectDetail(project.id);
         setProjects(prev => prev.map(p => {
-          if (p.domain === project.domain) {
+          if (p.id === project.id) {
             return {
               ...p,
-              sitemapJob: p.sitemapJob ? {
-                ...p.sitemapJob,
-                urls: data.urls,
-              } : null,
-              totalUrls: data.urls.length,
+              url_count: detail?.sitemapJob?.urls?.length ?? data.urls.length,
+              latest_sitemap_job_id: detail?.sitemapJob?.id ?? data.jobId,
+              latest_sitemap_status: detail?.sitemapJob?.status ?? p.latest_sitemap_status,
             };
           }
           return p;
@@ -346,50 +742,53 @@ export function ProjectsPage() {
     } catch (err) {
       console.error('Failed to re-analyze sitemap:', err);
     } finally {
-      setReanalyzingDomain(null);
+      setReanalyzingId(null);
     }
   };
 
-  const handleGenerateFromUrls = async (project: Project) => {
-    if (!session?.access_token || selectedUrls.size === 0) return;
+  const handleGenerateFromUrls = async (project: ProjectSummary) => {
+    if (!accessToken || selectedUrls.size === 0) return;
 
-    setGeneratingForDomain(project.domain);
+    setGeneratingForId(project.id);
     try {
-      const viewportPresets: Record<string, { width: number; height: number }> = {
-        desktop: { width: 1920, height: 1080 },
-        tablet: { width: 768, height: 1024 },
-        mobile: { width: 375, height: 667 },
-      };
-
       const response = await fetch('/api/screenshots/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
+          'Authorization': `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
-          urls: Array.from(selectedUrls).map(url => ({
-            url,
+          urls: Array.from(selectedUrls),
+          sitemapJobId: details[project.id]?.sitemapJob?.id,
+          projectId: project.id,
+          options: {
             fullPage: screenshotOptions.fullPage,
-            viewport: viewportPresets[screenshotOptions.viewport],
+            deviceType: screenshotOptions.viewport,
             delay: screenshotOptions.delay,
-          })),
-          sitemapJobId: project.sitemapJob?.id,
+          },
         }),
       });
 
       const data = await response.json();
       if (response.ok) {
+        loadProjectRuns(project.id);
         // Start polling for these jobs
-        pollForScreenshotJobs(data.jobs.map((j: { id: string }) => j.id), project.domain);
+        pollForScreenshotJobs(data.jobIds, project.id, data.runId, () => loadProjectRuns(project.id));
+      } else {
+        setGeneratingForId(null);
       }
     } catch (err) {
       console.error('Failed to generate screenshots:', err);
-      setGeneratingForDomain(null);
+      setGeneratingForId(null);
     }
   };
 
-  const pollForScreenshotJobs = useCallback(async (jobIds: string[], domain: string) => {
+  const pollForScreenshotJobs = useCallback(async (
+    jobIds: string[],
+    projectId: string,
+    runId: string,
+    onDone: () => void
+  ) => {
     const pollInterval = setInterval(async () => {
       try {
         const { data: jobs, error } = await supabase
@@ -403,37 +802,47 @@ export function ProjectsPage() {
         }
 
         // Update the project's screenshots
-        setProjects(prev => prev.map(p => {
-          if (p.domain === domain) {
-            const existingIds = new Set(p.screenshots.map(s => s.id));
-            const newScreenshots = [...p.screenshots];
-
-            (jobs || []).forEach((job: ScreenshotJob) => {
-              if (existingIds.has(job.id)) {
-                // Update existing
-                const idx = newScreenshots.findIndex(s => s.id === job.id);
-                if (idx >= 0) newScreenshots[idx] = job;
-              } else {
-                // Add new
-                newScreenshots.unshift(job);
-              }
-            });
-
-            return {
-              ...p,
+        setDetails(prev => {
+          const detail = prev[projectId];
+          // Leave a different run's screenshots alone
+          if (!detail || (detail.run && detail.run.id !== runId)) return prev;
+
+          const newScreenshots = [...detail.screenshots];
+          let added = 0;
+
+          (jobs || []).forEach((job: ScreenshotJob) => {
+            const idx = newScreenshots.findIndex(s => s.id === job.id);
+            if (idx >= 0) {
+              // Update existing
+              newScreenshots[idx] = job;
+            } else {
+              // Add new
+              newScreenshots.unshift(job);
+              added++;
+            }
+          });
+
+          return {
+            ...prev,
+            [projectId]: {
+              ...detail,
               screenshots: newScreenshots,
-              completedScreenshots: newScreenshots.filter(s => s.status === 'completed').length,
-            };
-          }
-          return p;
-        }));
+              screenshotTotal: detail.screenshotTotal + added,
+            },
+          };
+        });
 
         // Check if all done
-        const completed = (jobs || []).filter((j: ScreenshotJob) => j.status === 'completed' || j.status === 'failed').length;
+        const completed = (jobs || []).filter((j: ScreenshotJob) =>
+          j.status === 'completed' || j.status === 'failed' || j.status === 'cancelled'
+        ).length;
         if (completed === jobIds.length) {
           clearInterval(pollInterval);
-          setGeneratingForDomain(null);
+          setGeneratingForId(null);
           setSelectedUrls(new Set());
+          // Refresh the project counts and run statistics
+          setRefreshKey(key => key + 1);
+          onDone();
         }
       } catch (err) {
         console.error('Poll exception:', err);
@@ -443,90 +852,27 @@ export function ProjectsPage() {
     // Stop after 10 minutes
     setTimeout(() => {
       clearInterval(pollInterval);
-      setGeneratingForDomain(null);
+      setGeneratingForId(null);
     }, 10 * 60 * 1000);
   }, []);
 
-  const filteredUrls = (urls: string[]) => {
-    if (!urlFilter) return urls;
-    const lower = urlFilter.toLowerCase();
-    return urls.filter(url => url.toLowerCase().includes(lower));
-  };
-
-
-  // Screenshot card with scroll animation
-  const ScreenshotCard = ({ screenshot }: { screenshot: ScreenshotJob }) => {
-    const isFullPage = screenshot.options?.fullPage;
-    const [isHovered, setIsHovered] = useState(false);
-
-    return (
-      <div
-        className={`
-          relative border rounded-lg overflow-hidden cursor-pointer transition-all
-          ${selectedScreenshots.has(screenshot.id)
-            ? 'border-primary-500 ring-2 ring-primary-200'
-            : 'border-gray-200 hover:border-gray-300'
-          }
-        `}
-        onClick={() => screenshot.status === 'completed' && toggleScreenshotSelection(screenshot.id)}
-        onMouseEnter={() => setIsHovered(true)}
-        onMouseLeave={() => setIsHovered(false)}
-      >
-        {/* Checkbox */}
-        {screenshot.status === 'completed' && screenshot.screenshot_url && (
-          <div className="absolute top-2 left-2 z-10">
-            <input
-              type="checkbox"
-              checked={selectedScreenshots.has(screenshot.id)}
-              onChange={() => toggleScreenshotSelection(screenshot.id)}
-              className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-              onClick={(e) => e.stopPropagation()}
-            />
-          </div>
-        )}
-
-        {/* Image with scroll animation */}
-        <div className="aspect-video bg-gray-100 overflow-hidden">
-          {screenshot.status === 'completed' && screenshot.screenshot_url ? (
-            <img
-              src={screenshot.screenshot_url}
-              alt={screenshot.url}
-              className={`
-                w-full object-cover transition-[object-position] duration-[3s] ease-linear
-                ${isFullPage && isHovered ? 'object-bottom' : 'object-top'}
-              `}
-              style={{ height: isFullPage ? 'auto' : '100%', minHeight: '100%' }}
-            />
-          ) : screenshot.status === 'failed' ? (
-            <div className="w-full h-full flex items-center justify-center">
-              <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-            </div>
-          ) : (
-            <div className="w-full h-full flex items-center justify-center">
-              <div className="w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
-            </div>
-          )}
-        </div>
+  // Later captures of the same page are diffed against this screenshot and reviewed
+  const setAsBaseline = async (screenshot: ScreenshotJob) => {
+    if (!accessToken || !screenshot.project_id) return;
 
-        {/* Info */}
-        <div className="p-2">
-          <p className="text-xs text-gray-500 truncate" title={screenshot.url}>
-            {extractPath(screenshot.url) || 'homepage'}
-          </p>
-          <div className="flex items-center justify-between mt-1">
-            <span className="text-xs text-gray-400">
-              {screenshot.options?.deviceType || 'desktop'}
-            </span>
-            {getStatusBadge(screenshot.status)}
-          </div>
-        </div>
-      </div>
-    );
+    setSettingBaselineId(screenshot.id);
+    try {
+      await setProjectBaseline(accessToken, screenshot.project_id, screenshot.id);
+      await loadBaselines(screenshot.project_id);
+    } catch (err) {
+      console.error('Failed to set baseline:', err);
+    } finally {
+      setSettingBaselineId(null);
+    }
   };
 
-  if (isLoading || authLoading) {
+  // Only the first load replaces the page; paging and search keep the list in place
+  if (authLoading || (isLoading && projects.length === 0 && !search && page === 1)) {
     return (
       <MainLayout>
         <div className="flex items-center justify-center h-64">
@@ -539,12 +885,55 @@ export function ProjectsPage() {
   return (
     <MainLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Projects</h1>
-          <p className="text-gray-600">View your sitemap discoveries and screenshots</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Projects</h1>
+            <p className="text-gray-600">View your sitemap discoveries and screenshots</p>
+          </div>
+          <Button onClick={openCreateProject}>New Project</Button>
         </div>
 
-        {projects.length === 0 ? (
+        <form
+          className="flex items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setPage(1);
+            setSearch(searchInput.trim());
+          }}
+        >
+          <input
+            type="text"
+            placeholder="Search projects by name or domain..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <Button type="submit" variant="secondary" size="sm" isLoading={isLoading}>
+            Search
+          </Button>
+          {search && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchInput('');
+                setSearch('');
+                setPage(1);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+        </form>
+
+        {projects.length === 0 && search ? (
+          <Card>
+            <CardContent>
+              <p className="text-center py-8 text-gray-500">No projects match "{search}".</p>
+            </CardContent>
+          </Card>
+        ) : projects.length === 0 ? (
           <Card>
             <CardContent>
               <div className="text-center py-12">
@@ -573,275 +962,302 @@ export function ProjectsPage() {
           </Card>
         ) : (
           <div className="space-y-4">
-            {projects.map((project) => (
-              <Card key={project.domain}>
-                <CardHeader
-                  icon={
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9"
-                      />
-                    </svg>
-                  }
-                  action={
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleReanalyze(project)}
-                        disabled={reanalyzingDomain === project.domain}
-                      >
-                        {reanalyzingDomain === project.domain ? (
-                          <>
-                            <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mr-2" />
-                            Analyzing...
-                          </>
-                        ) : (
-                          <>
-                            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                            </svg>
-                            Re-analyze
-                          </>
-                        )}
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => toggleProjectExpanded(project.domain)}
-                      >
-                        {expandedProject === project.domain ? 'Collapse' : 'Expand'}
-                      </Button>
+            {projects.map((project) => {
+              const detail = details[project.id];
+              const screenshots = detail?.screenshots || [];
+              const sitemapUrls = detail?.sitemapJob?.urls || [];
+              const runs = projectRuns[project.id];
+              const projectSchedules = schedules[project.id] || [];
+
+              return (
+                <Card key={project.id}>
+                  <CardHeader
+                    icon={
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9"
+                        />
+                      </svg>
+                    }
+                    action={
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReanalyze(project)}
+                          disabled={reanalyzingId === project.id}
+                        >
+                          {reanalyzingId === project.id ? (
+                            <>
+                              <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mr-2" />
+                              Analyzing...
+                            </>
+                          ) : (
+                            <>
+                              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                              </svg>
+                              Re-analyze
+                            </>
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditProject(project)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setProjectToDelete(project)}
+                        >
+                          Delete
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleProjectExpanded(project)}
+                        >
+                          {expandedProject === project.id ? 'Collapse' : 'Expand'}
+                        </Button>
+                      </div>
+                    }
+                  >
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-gray-900">{project.name}</h3>
+                      {project.name !== project.domain && (
+                        <span className="text-sm text-gray-500">{project.domain}</span>
+                      )}
+                      {project.latest_sitemap_status && <StatusBadge status={project.latest_sitemap_status} />}
                     </div>
-                  }
-                >
-                  <div className="flex items-center gap-3">
-                    <h3 className="font-semibold text-gray-900">{project.domain}</h3>
-                    {project.sitemapJob && getStatusBadge(project.sitemapJob.status)}
-                  </div>
-                  <p className="text-sm text-gray-500">
-                    {project.totalUrls} URLs discovered | {project.completedScreenshots} screenshots | {formatDate(project.createdAt)}
-                  </p>
-                </CardHeader>
-
-                {expandedProject === project.domain && (
-                  <CardContent>
-                    <div className="space-y-4" ref={containerRef}>
-                      {/* Tabs */}
-                      {(project.screenshots.length > 0 || project.totalUrls > 0) && (
-                        <div className="flex border-b border-gray-200">
-                          <button
-                            onClick={() => setActiveTab(prev => ({ ...prev, [project.domain]: 'screenshots' }))}
-                            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
-                              activeTab[project.domain] === 'screenshots'
-                                ? 'border-primary-600 text-primary-600'
-                                : 'border-transparent text-gray-500 hover:text-gray-700'
-                            }`}
-                          >
-                            Screenshots ({project.screenshots.length})
-                          </button>
-                          {project.totalUrls > 0 && (
+                    {project.description && (
+                      <p className="text-sm text-gray-600">{project.description}</p>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {project.url_count} URLs discovered | {project.completed_screenshot_count} screenshots | {formatDate(project.last_activity_at)}
+                    </p>
+                  </CardHeader>
+
+                  {expandedProject === project.id && (
+                    <CardContent>
+                      <div className="space-y-4" ref={containerRef}>
+                        {detail?.isLoading && screenshots.length === 0 && (
+                          <div className="flex items-center justify-center py-8">
+                            <div className="w-6 h-6 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
+                          </div>
+                        )}
+
+                        {/* Tabs */}
+                        {detail && (
+                          <div className="flex border-b border-gray-200">
                             <button
-                              onClick={() => setActiveTab(prev => ({ ...prev, [project.domain]: 'urls' }))}
+                              onClick={() => setActiveTab(prev => ({ ...prev, [project.id]: 'screenshots' }))}
                               className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
-                                activeTab[project.domain] === 'urls'
+                                activeTab[project.id] === 'screenshots'
                                   ? 'border-primary-600 text-primary-600'
                                   : 'border-transparent text-gray-500 hover:text-gray-700'
                               }`}
                             >
-                              Discovered URLs ({project.totalUrls})
+                              Screenshots ({detail?.screenshotTotal ?? 0})
                             </button>
-                          )}
-                        </div>
-                      )}
-
-                      {/* Screenshots Tab */}
-                      {activeTab[project.domain] === 'screenshots' && (
-                        <>
-                          {/* Screenshot Actions */}
-                          {project.screenshots.length > 0 && (
-                            <div className="flex items-center gap-4 pb-4 border-b border-gray-100">
-                              <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={() => selectAllScreenshots(project)}
+                            {(runs?.total ?? 0) > 0 && (
+                              <button
+                                onClick={() => setActiveTab(prev => ({ ...prev, [project.id]: 'runs' }))}
+                                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                                  activeTab[project.id] === 'runs'
+                                    ? 'border-primary-600 text-primary-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                                }`}
                               >
-                                Select All
-                              </Button>
-                              <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={deselectAllScreenshots}
+                                Runs ({runs?.total ?? 0})
+                              </button>
+                            )}
+                            {sitemapUrls.length > 0 && (
+                              <button
+                                onClick={() => setActiveTab(prev => ({ ...prev, [project.id]: 'urls' }))}
+                                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                                  activeTab[project.id] === 'urls'
+                                    ? 'border-primary-600 text-primary-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                                }`}
                               >
-                                Deselect All
-                              </Button>
-                              {selectedScreenshots.size > 0 && (
-                                <Button
-                                  size="sm"
-                                  onClick={() => downloadSelected(project)}
-                                >
-                                  Download Selected ({selectedScreenshots.size})
-                                </Button>
-                              )}
-                            </div>
-                          )}
+                                Discovered URLs ({sitemapUrls.length})
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setActiveTab(prev => ({ ...prev, [project.id]: 'schedules' }))}
+                              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                                activeTab[project.id] === 'schedules'
+                                  ? 'border-primary-600 text-primary-600'
+                                  : 'border-transparent text-gray-500 hover:text-gray-700'
+                              }`}
+                            >
+                              Schedules ({projectSchedules.length})
+                            </button>
+                          </div>
+                        )}
 
-                          {/* Grouped Screenshots */}
-                          {project.screenshots.length > 0 ? (
-                            <div className="space-y-4">
-                              {Object.entries(groupScreenshotsByPath(project.screenshots)).map(([group, screenshots]) => (
-                                <div key={group} className="border rounded-lg overflow-hidden">
-                                  <button
-                                    onClick={() => toggleGroupExpanded(group)}
-                                    className="w-full flex items-center justify-between px-4 py-3 bg-gray-50 hover:bg-gray-100 transition-colors"
-                                  >
-                                    <span className="font-medium text-gray-900">
-                                      /{group} <span className="text-gray-500 font-normal">({screenshots.length})</span>
-                                    </span>
-                                    <svg
-                                      className={`w-5 h-5 text-gray-400 transition-transform ${expandedGroups.has(group) ? 'rotate-180' : ''}`}
-                                      fill="none"
-                                      stroke="currentColor"
-                                      viewBox="0 0 24 24"
-                                    >
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                                    </svg>
-                                  </button>
-                                  {expandedGroups.has(group) && (
-                                    <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                                      {screenshots.map((screenshot) => (
-                                        <ScreenshotCard key={screenshot.id} screenshot={screenshot} />
-                                      ))}
-                                    </div>
-                                  )}
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                            <div className="text-center py-8 text-gray-500">
-                              <p>No screenshots generated for this project yet.</p>
-                              {project.totalUrls > 0 && (
-                                <p className="text-sm mt-2">
-                                  Switch to "Discovered URLs" tab to generate screenshots.
-                                </p>
-                              )}
-                            </div>
-                          )}
-                        </>
-                      )}
+                        {/* Screenshots Tab */}
+                        {activeTab[project.id] === 'screenshots' && detail && (
+                          <ScreenshotsTab
+                            detail={detail}
+                            hasUrls={sitemapUrls.length > 0}
+                            baselines={baselines[project.id] || []}
+                            settingBaselineId={settingBaselineId}
+                            selectedScreenshots={selectedScreenshots}
+                            expandedGroups={expandedGroups}
+                            onShowAllRuns={() => viewRun(project, null)}
+                            onSelectAll={() => selectAllScreenshots(project)}
+                            onDeselectAll={deselectAllScreenshots}
+                            onDownloadSelected={() => downloadSelected(project)}
+                            onToggleSelected={toggleScreenshotSelection}
+                            onToggleGroup={toggleGroupExpanded}
+                            onSetBaseline={setAsBaseline}
+                            onLoadMore={() => loadProjectDetail(project.id, detail.screenshotPage + 1, detail.run)}
+                          />
+                        )}
 
-                      {/* URLs Tab */}
-                      {activeTab[project.domain] === 'urls' && project.sitemapJob?.urls && (
-                        <>
-                          {/* URL Actions */}
-                          <div className="space-y-4">
-                            {/* Filter */}
-                            <div className="flex items-center gap-4">
-                              <input
-                                type="text"
-                                placeholder="Filter URLs..."
-                                value={urlFilter}
-                                onChange={(e) => setUrlFilter(e.target.value)}
-                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                              />
-                              <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={() => selectAllUrls(filteredUrls(project.sitemapJob?.urls || []))}
-                              >
-                                Select All
-                              </Button>
-                              <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={deselectAllUrls}
-                              >
-                                Deselect All
-                              </Button>
-                            </div>
-
-                            {/* Screenshot Options */}
-                            {selectedUrls.size > 0 && (
-                              <div className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
-                                <label className="flex items-center gap-2">
-                                  <input
-                                    type="checkbox"
-                                    checked={screenshotOptions.fullPage}
-                                    onChange={(e) => setScreenshotOptions(prev => ({ ...prev, fullPage: e.target.checked }))}
-                                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                                  />
-                                  <span className="text-sm text-gray-700">Full Page</span>
-                                </label>
-                                <select
-                                  value={screenshotOptions.viewport}
-                                  onChange={(e) => setScreenshotOptions(prev => ({ ...prev, viewport: e.target.value }))}
-                                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-                                >
-                                  <option value="desktop">Desktop (1920x1080)</option>
-                                  <option value="tablet">Tablet (768x1024)</option>
-                                  <option value="mobile">Mobile (375x667)</option>
-                                </select>
-                                <select
-                                  value={screenshotOptions.delay}
-                                  onChange={(e) => setScreenshotOptions(prev => ({ ...prev, delay: parseInt(e.target.value) }))}
-                                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-                                >
-                                  <option value="0">No delay</option>
-                                  <option value="1">1s delay</option>
-                                  <option value="2">2s delay</option>
-                                  <option value="3">3s delay</option>
-                                  <option value="5">5s delay</option>
-                                </select>
-                                <Button
-                                  size="sm"
-                                  onClick={() => handleGenerateFromUrls(project)}
-                                  disabled={generatingForDomain === project.domain}
-                                >
-                                  {generatingForDomain === project.domain ? (
-                                    <>
-                                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                                      Generating...
-                                    </>
-                                  ) : (
-                                    `Generate Screenshots (${selectedUrls.size})`
-                                  )}
-                                </Button>
-                              </div>
-                            )}
+                        {/* Runs Tab */}
+                        {activeTab[project.id] === 'runs' && runs && (
+                          <RunsTab
+                            runs={runs}
+                            controllingRunId={controllingRunId}
+                            comparingRunId={comparingRunId}
+                            downloadingRunId={downloadingRunId}
+                            onControl={(run, action) => controlProjectRun(project.id, run, action)}
+                            onView={(run) => viewRun(project, run)}
+                            onCompare={(run) => compareWithPreviousRun(project, run)}
+                            onDownload={(run) => downloadRun(project, run)}
+                            onPageChange={(runsPage) => loadProjectRuns(project.id, runsPage)}
+                          />
+                        )}
 
-                            {/* URL List with scroll */}
-                            <div className="border rounded-lg overflow-hidden max-h-96 overflow-y-auto">
-                              {filteredUrls(project.sitemapJob.urls).map((url) => (
-                                <div
-                                  key={url}
-                                  className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
-                                >
-                                  <input
-                                    type="checkbox"
-                                    checked={selectedUrls.has(url)}
-                                    onChange={() => toggleUrlSelection(url)}
-                                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                                  />
-                                  <span className="text-sm text-gray-700 truncate flex-1" title={url}>
-                                    {url}
-                                  </span>
-                                </div>
-                              ))}
-                            </div>
-                          </div>
-                        </>
-                      )}
-                    </div>
-                  </CardContent>
-                )}
-              </Card>
-            ))}
+                        {/* Schedules Tab */}
+                        {activeTab[project.id] === 'schedules' && (
+                          <SchedulesTab
+                            schedules={projectSchedules}
+                            updatingScheduleId={updatingScheduleId}
+                            onCreate={() => openCreateSchedule(project)}
+                            onToggleActive={toggleScheduleActive}
+                            onDelete={handleDeleteSchedule}
+                          />
+                        )}
+
+                        {/* URLs Tab */}
+                        {activeTab[project.id] === 'urls' && sitemapUrls.length > 0 && (
+                          <UrlsTab
+                            urls={sitemapUrls}
+                            filter={urlFilter}
+                            onFilterChange={setUrlFilter}
+                            selectedUrls={selectedUrls}
+                            onToggleUrl={toggleUrlSelection}
+                            onSelectAll={selectAllUrls}
+                            onDeselectAll={deselectAllUrls}
+                            screenshotOptions={screenshotOptions}
+                            setScreenshotOptions={setScreenshotOptions}
+                            isGenerating={generatingForId === project.id}
+                            onGenerate={() => handleGenerateFromUrls(project)}
+                          />
+                        )}
+                      </div>
+                    </CardContent>
+                  )}
+                </Card>
+              );
+            })}
+
+            {/* Pagination */}
+            {totalProjects > PROJECTS_PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  Showing {(page - 1) * PROJECTS_PAGE_SIZE + 1}-{Math.min(page * PROJECTS_PAGE_SIZE, totalProjects)} of {totalProjects} projects
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page === 1 || isLoading}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page * PROJECTS_PAGE_SIZE >= totalProjects || isLoading}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {/* Create / Edit Project */}
+      <ProjectModal
+        isOpen={isProjectModalOpen}
+        isEditing={editingProjectId !== null}
+        form={projectForm}
+        setForm={setProjectForm}
+        credentials={projectCredentials}
+        isRemovingCredentials={isRemovingCredentials}
+        onRemoveCredentials={handleRemoveCredentials}
+        loginFlow={projectLoginFlow}
+        isRemovingLoginFlow={isRemovingLoginFlow}
+        onRemoveLoginFlow={handleRemoveLoginFlow}
+        error={projectFormError}
+        isSaving={isSavingProject}
+        onClose={() => setIsProjectModalOpen(false)}
+        onSave={handleSaveProject}
+      />
+
+      {/* Compare With Previous Run */}
+      <ComparisonModal comparison={comparison} onClose={closeComparison} />
+
+      {/* Create Schedule */}
+      <ScheduleModal
+        isOpen={scheduleProject !== null}
+        form={scheduleForm}
+        setForm={setScheduleForm}
+        error={scheduleFormError}
+        isSaving={isSavingSchedule}
+        scheduleUrlCount={scheduleProject ? getScheduleUrls(scheduleProject).length : 0}
+        hasSelectedUrls={selectedUrls.size > 0}
+        screenshotOptions={screenshotOptions}
+        onClose={() => setScheduleProject(null)}
+        onSubmit={handleCreateSchedule}
+      />
+
+      {/* Delete Project */}
+      <Modal
+        isOpen={projectToDelete !== null}
+        onClose={() => setProjectToDelete(null)}
+        title="Delete Project"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Delete <span className="font-medium text-gray-900">{projectToDelete?.name}</span>? Its
+            sitemap and screenshot jobs are kept but will no longer belong to a project.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setProjectToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleDeleteProject} isLoading={isDeletingProject}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </MainLayout>
   );
 }
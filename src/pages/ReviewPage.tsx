@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { MainLayout } from '../components/layout/MainLayout';
+import { Card, CardContent } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { getReviews, reviewChange } from '../services/projectService';
+import { useAuth } from '../hooks/useAuth';
+import type { ReviewItem } from '../types/database.types';
+
+type ReviewTab = 'pending' | 'approved' | 'rejected';
+
+const REVIEWS_PAGE_SIZE = 10;
+
+const tabs: { value: ReviewTab; label: string }[] = [
+  { value: 'pending', label: 'Needs Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+export function ReviewPage() {
+  const { session, isLoading: authLoading } = useAuth();
+  const [reviews, setReviews] = useState<ReviewItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [activeTab, setActiveTab] = useState<ReviewTab>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const accessToken = session?.access_token;
+
+  useEffect(() => {
+    async function fetchReviews() {
+      if (authLoading) {
+        return;
+      }
+
+      if (!accessToken) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        const data = await getReviews(accessToken, {
+          status: activeTab,
+          page,
+          pageSize: REVIEWS_PAGE_SIZE,
+        });
+        setReviews(data.reviews);
+        setTotal(data.total);
+      } catch (err) {
+        console.error('Failed to fetch reviews:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchReviews();
+  }, [accessToken, authLoading, activeTab, page, refreshKey]);
+
+  const handleReview = async (review: ReviewItem, action: 'approve' | 'reject') => {
+    if (!accessToken) return;
+
+    setReviewingId(review.id);
+    setError(null);
+    try {
+      await reviewChange(accessToken, review.id, action);
+      // Reload so the next page's first item moves up
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderImage = (label: string, url: string | null | undefined, caption?: string) => (
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-gray-500 mb-1">
+        {label}
+        {caption && <span className="font-normal text-gray-400"> {caption}</span>}
+      </p>
+      {url ? (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={url}
+            alt={label}
+            className="w-full h-48 object-cover object-top rounded border border-gray-200"
+          />
+        </a>
+      ) : (
+        <div className="w-full h-48 rounded border border-gray-200 bg-gray-50" />
+      )}
+    </div>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Review</h1>
+          <p className="text-gray-600">
+            Pages that changed since their approved baseline. Approve a change to make it the new baseline.
+          </p>
+        </div>
+
+        <div className="flex border-b border-gray-200">
+          {tabs.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setActiveTab(tab.value);
+                setPage(1);
+              }}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab.value
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+              {tab.value === activeTab && !isLoading && ` (${total})`}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading && reviews.length === 0 ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-2 border-primary-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12 text-gray-500">
+              {activeTab === 'pending' ? (
+                <>
+                  <p>Nothing to review.</p>
+                  <p className="text-sm mt-2">
+                    Set a screenshot as the baseline on the Projects page; later captures that differ from it appear here.
+                  </p>
+                </>
+              ) : (
+                <p>No {activeTab} changes yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <Card key={review.id}>
+                <CardContent className="space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate" title={review.url}>{review.url}</p>
+                      <p className="text-sm text-gray-500">
+                        {review.project?.name || 'No project'} | {review.device_type} | captured{' '}
+                        {formatDate(review.compare_job?.created_at || review.created_at)}
+                        {review.reviewed_at && ` | reviewed ${formatDate(review.reviewed_at)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Badge variant={(review.mismatch_percentage ?? 0) < 1 ? 'warning' : 'error'}>
+                        {review.mismatch_percentage}% changed
+                      </Badge>
+                      {review.review_status === 'pending' && (
+                        <>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={reviewingId !== null}
+                            onClick={() => handleReview(review, 'reject')}
+                          >
+                            Reject
+                          </Button>
+                          <Button
+                            size="sm"
+                            isLoading={reviewingId === review.id}
+                            disabled={reviewingId !== null && reviewingId !== review.id}
+                            onClick={() => handleReview(review, 'approve')}
+                          >
+                            Approve
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {renderImage(
+                      'Baseline',
+                      review.base_job?.screenshot_url,
+                      review.base_job ? formatDate(review.base_job.created_at) : undefined
+                    )}
+                    {renderImage('Current', review.compare_job?.screenshot_url)}
+                    {renderImage('Changes', review.diff_url, `${review.regions.length} regions`)}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {total > REVIEWS_PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-500">
+                  Page {page} of {Math.ceil(total / REVIEWS_PAGE_SIZE)}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page === 1 || isLoading}
+                    onClick={() => setPage(p => p - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page * REVIEWS_PAGE_SIZE >= total || isLoading}
+                    onClick={() => setPage(p => p + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
+
+export default ReviewPage;
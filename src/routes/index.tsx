@@ -5,6 +5,7 @@ import RegisterPage from '../pages/RegisterPage';
 import DashboardPage from '../pages/DashboardPage';
 import GeneratorPage from '../pages/GeneratorPage';
 import ProjectsPage from '../pages/ProjectsPage';
+import ReviewPage from '../pages/ReviewPage';
 
 export const router = createBrowserRouter([
   {
@@ -31,6 +32,14 @@ export const router = createBrowserRouter([
       </AuthGuard>
     ),
   },
+  {
+    path: '/review',
+    element: (
+      <AuthGuard>
+        <ReviewPage />
+      </AuthGuard>
+    ),
+  },
   {
     path: '/dashboard',
     element: (
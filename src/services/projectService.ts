@@ -0,0 +1,305 @@
+import type {
+  BaselineWithJob,
+  CaptureCredentialsInput,
+  JobAction,
+  LoginFlowInput,
+  Project,
+  ProjectCredentials,
+  ProjectLoginFlow,
+  ProjectSchedule,
+  ProjectSettings,
+  ProjectSummary,
+  ReviewItem,
+  ReviewStatus,
+  ScheduleUrlMode,
+  ScreenshotBaseline,
+  ScreenshotDiff,
+  ScreenshotOptions,
+  SitemapJob,
+  ScreenshotJob,
+  ScreenshotRun,
+} from '../types/database.types';
+
+export interface Paginated {
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ProjectInput {
+  name?: string;
+  domain?: string;
+  description?: string | null;
+  settings?: ProjectSettings;
+}
+
+export interface ScheduleInput {
+  name?: string | null;
+  cronExpression?: string;
+  timezone?: string;
+  urlMode?: ScheduleUrlMode;
+  urls?: string[];
+  maxUrls?: number;
+  options?: ScreenshotOptions;
+  isActive?: boolean;
+}
+
+// Call an /api route with the user's access token
+async function request<T>(accessToken: string, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data as T;
+}
+
+// Get one page of the user's projects, most recently active first
+export async function getProjects(
+  accessToken: string,
+  { page = 1, pageSize = 10, search = '' }: { page?: number; pageSize?: number; search?: string } = {}
+): Promise<{ projects: ProjectSummary[] } & Paginated> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (search) params.set('search', search);
+  return request(accessToken, `/projects?${params}`);
+}
+
+// Get a project with its latest sitemap job
+export async function getProject(
+  accessToken: string,
+  projectId: string
+): Promise<{ project: ProjectSummary; sitemapJob: SitemapJob | null }> {
+  return request(accessToken, `/projects/${projectId}`);
+}
+
+// Get one page of a project's screenshot jobs, newest first, optionally from one run
+export async function getProjectScreenshots(
+  accessToken: string,
+  projectId: string,
+  { page = 1, pageSize = 24, runId }: { page?: number; pageSize?: number; runId?: string } = {}
+): Promise<{ screenshots: ScreenshotJob[] } & Paginated> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (runId) params.set('runId', runId);
+  return request(accessToken, `/projects/${projectId}/screenshots?${params}`);
+}
+
+// Get one page of a project's runs with their statistics, newest first
+export async function getProjectRuns(
+  accessToken: string,
+  projectId: string,
+  { page = 1, pageSize = 10 }: { page?: number; pageSize?: number } = {}
+): Promise<{ runs: ScreenshotRun[] } & Paginated> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  return request(accessToken, `/projects/${projectId}/runs?${params}`);
+}
+
+// Create a project
+export async function createProject(accessToken: string, input: ProjectInput): Promise<Project> {
+  const data = await request<{ project: Project }>(accessToken, '/projects', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.project;
+}
+
+// Update a project's name, domain, description or settings
+export async function updateProject(
+  accessToken: string,
+  projectId: string,
+  input: ProjectInput
+): Promise<Project> {
+  const data = await request<{ project: Project }>(accessToken, `/projects/${projectId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(input),
+  });
+  return data.project;
+}
+
+// Delete a project (its jobs are kept but no longer belong to a project)
+export async function deleteProject(accessToken: string, projectId: string): Promise<void> {
+  await request(accessToken, `/projects/${projectId}`, { method: 'DELETE' });
+}
+
+// Get the names of a project's saved capture credentials, or null if none
+export async function getProjectCredentials(
+  accessToken: string,
+  projectId: string
+): Promise<ProjectCredentials | null> {
+  const data = await request<{ credentials: ProjectCredentials | null }>(
+    accessToken,
+    `/projects/${projectId}/credentials`
+  );
+  return data.credentials;
+}
+
+// Replace a project's saved capture credentials
+export async function saveProjectCredentials(
+  accessToken: string,
+  projectId: string,
+  input: CaptureCredentialsInput
+): Promise<ProjectCredentials> {
+  const data = await request<{ credentials: ProjectCredentials }>(accessToken, `/projects/${projectId}/credentials`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+  return data.credentials;
+}
+
+// Remove a project's saved capture credentials
+export async function deleteProjectCredentials(accessToken: string, projectId: string): Promise<void> {
+  await request(accessToken, `/projects/${projectId}/credentials`, { method: 'DELETE' });
+}
+
+// Get a project's login flow, or null if it has none
+export async function getProjectLoginFlow(accessToken: string, projectId: string): Promise<ProjectLoginFlow | null> {
+  const data = await request<{ loginFlow: ProjectLoginFlow | null }>(accessToken, `/projects/${projectId}/login-flow`);
+  return data.loginFlow;
+}
+
+// Create or replace a project's login flow
+export async function saveProjectLoginFlow(
+  accessToken: string,
+  projectId: string,
+  input: LoginFlowInput
+): Promise<ProjectLoginFlow> {
+  const data = await request<{ loginFlow: ProjectLoginFlow }>(accessToken, `/projects/${projectId}/login-flow`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+  return data.loginFlow;
+}
+
+// Remove a project's login flow
+export async function deleteProjectLoginFlow(accessToken: string, projectId: string): Promise<void> {
+  await request(accessToken, `/projects/${projectId}/login-flow`, { method: 'DELETE' });
+}
+
+// Get a project's schedules
+export async function getProjectSchedules(
+  accessToken: string,
+  projectId: string
+): Promise<ProjectSchedule[]> {
+  const data = await request<{ schedules: ProjectSchedule[] }>(accessToken, `/projects/${projectId}/schedules`);
+  return data.schedules;
+}
+
+// Create a recurring capture schedule for a project
+export async function createProjectSchedule(
+  accessToken: string,
+  projectId: string,
+  input: ScheduleInput
+): Promise<ProjectSchedule> {
+  const data = await request<{ schedule: ProjectSchedule }>(accessToken, `/projects/${projectId}/schedules`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.schedule;
+}
+
+// Update a schedule (pause/resume with isActive)
+export async function updateSchedule(
+  accessToken: string,
+  scheduleId: string,
+  input: ScheduleInput
+): Promise<ProjectSchedule> {
+  const data = await request<{ schedule: ProjectSchedule }>(accessToken, `/schedules/${scheduleId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(input),
+  });
+  return data.schedule;
+}
+
+// Delete a schedule
+export async function deleteSchedule(accessToken: string, scheduleId: string): Promise<void> {
+  await request(accessToken, `/schedules/${scheduleId}`, { method: 'DELETE' });
+}
+
+// Pause, resume or cancel the unfinished screenshots of a run, or retry its failed ones
+export async function controlRun(
+  accessToken: string,
+  runId: string,
+  action: JobAction
+): Promise<{ updated: number }> {
+  return request(accessToken, `/screenshots/batches/${runId}`, {
+    method: 'POST',
+    body: JSON.stringify({ action }),
+  });
+}
+
+// Visual diffs of a run's screenshots
+export async function getRunDiffs(accessToken: string, projectId: string, runId: string): Promise<ScreenshotDiff[]> {
+  const params = new URLSearchParams({ runId });
+  const data = await request<{ diffs: ScreenshotDiff[] }>(accessToken, `/projects/${projectId}/diffs?${params}`);
+  return data.diffs;
+}
+
+// Queue visual diffs of a run against the project's previous run
+export async function compareRun(
+  accessToken: string,
+  projectId: string,
+  runId: string
+): Promise<{ baseRunId: string; diffs: ScreenshotDiff[] }> {
+  return request(accessToken, `/projects/${projectId}/diffs`, {
+    method: 'POST',
+    body: JSON.stringify({ runId }),
+  });
+}
+
+// Approved baselines of a project
+export async function getProjectBaselines(accessToken: string, projectId: string): Promise<BaselineWithJob[]> {
+  const data = await request<{ baselines: BaselineWithJob[] }>(accessToken, `/projects/${projectId}/baselines`);
+  return data.baselines;
+}
+
+// Approve a screenshot as the baseline for its URL and viewport
+export async function setProjectBaseline(
+  accessToken: string,
+  projectId: string,
+  jobId: string
+): Promise<ScreenshotBaseline> {
+  const data = await request<{ baseline: ScreenshotBaseline }>(accessToken, `/projects/${projectId}/baselines`, {
+    method: 'POST',
+    body: JSON.stringify({ jobId }),
+  });
+  return data.baseline;
+}
+
+// Remove a baseline; later captures of the page are no longer reviewed
+export async function deleteBaseline(accessToken: string, baselineId: string): Promise<void> {
+  await request(accessToken, `/baselines/${baselineId}`, { method: 'DELETE' });
+}
+
+// Review queue, newest first
+export async function getReviews(
+  accessToken: string,
+  { status = 'pending', projectId, page = 1, pageSize = 20 }: {
+    status?: Exclude<ReviewStatus, 'unchanged'>;
+    projectId?: string;
+    page?: number;
+    pageSize?: number;
+  } = {}
+): Promise<{ reviews: ReviewItem[] } & Paginated> {
+  const params = new URLSearchParams({ status, page: String(page), pageSize: String(pageSize) });
+  if (projectId) params.set('projectId', projectId);
+  return request(accessToken, `/reviews?${params}`);
+}
+
+// Approve (promote to the new baseline) or reject a change
+export async function reviewChange(
+  accessToken: string,
+  reviewId: string,
+  action: 'approve' | 'reject'
+): Promise<ScreenshotDiff> {
+  const data = await request<{ review: ScreenshotDiff }>(accessToken, `/reviews/${reviewId}`, {
+    method: 'POST',
+    body: JSON.stringify({ action }),
+  });
+  return data.review;
+}
@@ -1,5 +1,5 @@
 import { supabase } from './supabase';
-import type { SitemapJob, CrawlJob } from '../types/database.types';
+import type { SitemapJob, CrawlJob, JobAction } from '../types/database.types';
 
 // Parse XML sitemap content
 function parseSitemapXml(xmlContent: string): string[] {
@@ -186,7 +186,9 @@ export async function createCrawlJob(
   sitemapJobId: string,
   domain: string,
   maxUrls: number = 500,
-  crawlDepth: number = 3
+  crawlDepth: number = 3,
+  includePatterns: string[] = [],
+  excludePatterns: string[] = []
 ): Promise<CrawlJob> {
   const { data, error } = await supabase
     .from('crawl_jobs')
@@ -197,6 +199,8 @@ export async function createCrawlJob(
       status: 'pending' as const,
       max_urls: maxUrls,
       crawl_depth: crawlDepth,
+      include_patterns: includePatterns,
+      exclude_patterns: excludePatterns,
       discovered_urls: [] as string[],
     } as never)
     .select()
@@ -229,3 +233,20 @@ export async function getCrawlJob(jobId: string): Promise<CrawlJob | null> {
   if (error) return null;
   return data;
 }
+
+// Pause, resume or cancel a crawl job (and the sitemap job waiting on it)
+export async function controlCrawlJob(accessToken: string, jobId: string, action: JobAction): Promise<void> {
+  const response = await fetch(`/api/sitemap/crawls/${jobId}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ action }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to update crawl job');
+  }
+}
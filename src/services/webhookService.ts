@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import type { WebhookEndpoint, WebhookDelivery, WebhookEvent } from '../types/database.types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'screenshot.completed',
+  'screenshot.failed',
+  'sitemap.completed',
+  'sitemap.failed',
+  'crawl.completed',
+  'crawl.failed',
+];
+
+// Get user's webhook endpoints
+export async function getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as WebhookEndpoint[];
+}
+
+// Register a new webhook endpoint through the API, which checks the URL is
+// public (the secret is generated by the database)
+export async function createWebhookEndpoint(
+  accessToken: string,
+  url: string,
+  events: WebhookEvent[] = WEBHOOK_EVENTS
+): Promise<WebhookEndpoint> {
+  const response = await fetch('/api/v1/webhooks', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ url, events }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add webhook');
+  }
+  return data.endpoint as WebhookEndpoint;
+}
+
+// Enable/disable a webhook endpoint; the response leaves out the secret
+export async function setWebhookEndpointActive(
+  accessToken: string,
+  endpointId: string,
+  isActive: boolean
+): Promise<Omit<WebhookEndpoint, 'secret' | 'user_id'>> {
+  const response = await fetch(`/api/v1/webhooks/${endpointId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ isActive }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update webhook');
+  }
+  return data.endpoint;
+}
+
+// Delete a webhook endpoint
+export async function deleteWebhookEndpoint(endpointId: string): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId);
+
+  if (error) throw error;
+}
+
+// Get the most recent webhook deliveries across all endpoints
+export async function getRecentWebhookDeliveries(
+  userId: string,
+  limit: number = 10
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as WebhookDelivery[];
+}
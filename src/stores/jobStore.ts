@@ -104,7 +104,7 @@ export const useJobStore = create<JobState>()((set, get) => ({
   updateScreenshotJob: (id, updates) =>
     set((state) => {
       const newActiveIds = new Set(state.activeScreenshotJobIds);
-      if (updates.status === 'completed' || updates.status === 'failed') {
+      if (updates.status === 'completed' || updates.status === 'failed' || updates.status === 'cancelled') {
         newActiveIds.delete(id);
       }
       return {
@@ -3,9 +3,52 @@
 
 export type UserRole = 'user' | 'admin';
 export type UserStatus = 'active' | 'inactive';
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
-export type SitemapSource = 'sitemap_xml' | 'sitemap_index' | 'sitemap_html' | 'robots_txt' | 'screaming_frog';
-export type DeviceType = 'desktop' | 'tablet' | 'mobile';
+export type JobStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// Actions accepted by the pause/resume/cancel endpoints
+export type JobAction = 'pause' | 'resume' | 'cancel' | 'retry';
+
+// Category of a screenshot job's last error (see worker/capture-errors.js)
+export type ScreenshotErrorCode =
+  | 'timeout'
+  | 'dns'
+  | 'tls'
+  | 'network'
+  | 'http_status'
+  | 'blocked'
+  | 'selector_not_found'
+  | 'script_error'
+  | 'action_failed'
+  | 'login_failed'
+  | 'upload_failed'
+  | 'worker_lost'
+  | 'unknown';
+export type SitemapSource = 'sitemap_xml' | 'sitemap_index' | 'sitemap_html' | 'robots_txt' | 'screaming_frog' | 'crawler';
+export type CrawlEngine = 'auto' | 'screaming_frog' | 'native';
+// Device profiles of api/_lib/devices.ts, or 'custom' for a size of your own
+export type DeviceType =
+  | 'desktop'
+  | 'laptop'
+  | 'tablet'
+  | 'mobile'
+  | 'iphone-se'
+  | 'iphone-15'
+  | 'iphone-15-pro-max'
+  | 'pixel-8'
+  | 'galaxy-s23'
+  | 'ipad-air'
+  | 'ipad-pro-12'
+  | 'custom';
+export type WebhookEvent =
+  | 'screenshot.completed'
+  | 'screenshot.failed'
+  | 'sitemap.completed'
+  | 'sitemap.failed'
+  | 'crawl.completed'
+  | 'crawl.failed';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+export type RunSource = 'dashboard' | 'api' | 'schedule';
+export type ScheduleUrlMode = 'saved' | 'rediscover';
 
 export interface Profile {
   id: string;
@@ -16,6 +59,95 @@ export interface Profile {
   status: UserStatus;
   api_key: string | null;
   api_key_created_at: string | null;
+  webhook_secret: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Defaults applied when generating screenshots from a project
+export interface ProjectSettings {
+  deviceType?: DeviceType;
+  fullPage?: boolean;
+  delay?: number;
+}
+
+export interface Project {
+  id: string;
+  user_id: string;
+  name: string;
+  domain: string;
+  description: string | null;
+  settings: ProjectSettings;
+  created_at: string;
+  updated_at: string;
+}
+
+// Saved capture credentials of a project; values are never returned
+export interface ProjectCredentials {
+  cookies: string[];
+  headers: string[];
+  basicAuth: boolean;
+  updatedAt: string;
+}
+
+// Credentials sent to save on a project
+export interface CaptureCredentialsInput {
+  cookies?: { name: string; value: string; domain?: string; path?: string }[];
+  extraHeaders?: Record<string, string>;
+  basicAuth?: { username: string; password: string };
+}
+
+// A project's login flow, without its username and password
+export interface ProjectLoginFlow {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string | null;
+  successSelector: string;
+  sessionUpdatedAt: string | null;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+// Login flow sent to save on a project; the username and password can be
+// left out to keep the saved ones
+export interface LoginFlowInput {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector?: string | null;
+  successSelector: string;
+  username?: string;
+  password?: string;
+}
+
+// Row of the project_summaries view
+export interface ProjectSummary extends Project {
+  screenshot_count: number;
+  completed_screenshot_count: number;
+  url_count: number;
+  latest_sitemap_job_id: string | null;
+  latest_sitemap_status: JobStatus | null;
+  last_activity_at: string;
+}
+
+export interface ProjectSchedule {
+  id: string;
+  user_id: string;
+  project_id: string;
+  name: string | null;
+  cron_expression: string;
+  timezone: string;
+  url_mode: ScheduleUrlMode;
+  urls: string[];
+  max_urls: number;
+  options: ScreenshotOptions;
+  is_active: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_batch_id: string | null;
+  pending_sitemap_job_id: string | null;
+  last_error: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -23,11 +155,13 @@ export interface Profile {
 export interface SitemapJob {
   id: string;
   user_id: string;
+  project_id: string | null;
   domain: string;
   status: JobStatus;
   urls: string[];
   source: SitemapSource | null;
   error_message: string | null;
+  callback_url: string | null;
   created_at: string;
   completed_at: string | null;
 }
@@ -36,11 +170,28 @@ export interface CrawlJob {
   id: string;
   user_id: string;
   sitemap_job_id: string;
+  project_id: string | null;
   domain: string;
   status: JobStatus;
   max_urls: number;
   crawl_depth: number;
+  include_patterns: string[];
+  exclude_patterns: string[];
+  engine: CrawlEngine;
+  render: boolean;
+  engine_used: Exclude<CrawlEngine, 'auto'> | null;
   discovered_urls: string[];
+  crawl_progress: number;
+  crawl_queued: number;
+  crawl_total: number;
+  crawl_errors: number;
+  current_url: string | null;
+  eta_at: string | null;
+  progress_updated_at: string | null;
+  worker_id: string | null;
+  lease_expires_at: string | null;
+  attempts: number;
+  heartbeat_at: string | null;
   error_message: string | null;
   started_at: string | null;
   completed_at: string | null;
@@ -54,26 +205,184 @@ export interface ScreenshotOptions {
   viewport?: {
     width: number;
     height: number;
+    deviceScaleFactor?: number;
+    isMobile?: boolean;
+    hasTouch?: boolean;
   };
   deviceType?: DeviceType;
+  userAgent?: string;
+  // Several devices, one job each; a run lists the devices it captured
+  deviceTypes?: DeviceType[];
+  viewports?: { width: number; height: number; deviceScaleFactor?: number }[];
   delay?: number;
+  format?: 'png' | 'jpeg' | 'pdf';
+  quality?: number;
+  // Page setup for the pdf format
+  pdf?: PdfOptions;
+  selector?: string;
+  selectorAll?: string;
+  padding?: number;
+  clip?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  injectCss?: string;
+  injectJs?: string;
+  hideSelectors?: string[];
+  actions?: ScreenshotAction[];
+}
+
+export type PaperSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal' | 'Tabloid';
+
+export interface PdfOptions {
+  paperSize?: PaperSize;
+  landscape?: boolean;
+  // CSS lengths such as '10mm'
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+  printBackground?: boolean;
+  media?: 'screen' | 'print';
+}
+
+// Interaction run before capture (see worker/page-actions.js)
+export type ScreenshotAction =
+  | { type: 'click'; selector: string; timeout?: number }
+  | { type: 'type'; selector: string; text: string; timeout?: number }
+  | { type: 'press'; key: string }
+  | { type: 'hover'; selector: string; timeout?: number }
+  | { type: 'scrollTo'; selector: string; timeout?: number }
+  | { type: 'waitForSelector'; selector: string; timeout?: number }
+  | { type: 'waitForNetworkIdle'; timeout?: number }
+  | { type: 'wait'; ms: number };
+
+export interface ScreenshotActionResult {
+  type: ScreenshotAction['type'];
+  status: 'completed' | 'failed' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
+
+export interface ScreenshotBatch {
+  id: string;
+  user_id: string;
+  sitemap_job_id: string | null;
+  project_id: string | null;
+  schedule_id: string | null;
+  options: ScreenshotOptions;
+  total_jobs: number;
+  source: RunSource;
+  created_at: string;
+}
+
+// Row of the screenshot_runs view: a batch with its job statistics
+export interface ScreenshotRun extends ScreenshotBatch {
+  completed_count: number;
+  failed_count: number;
+  pending_count: number;
+  processing_count: number;
+  paused_count: number;
+  cancelled_count: number;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_seconds: number | null;
 }
 
 export interface ScreenshotJob {
   id: string;
   user_id: string;
   sitemap_job_id: string | null;
+  batch_id: string | null;
+  project_id: string | null;
   url: string;
   status: JobStatus;
   options: ScreenshotOptions;
   screenshot_url: string | null;
+  // One image per matched element for selectorAll jobs
+  screenshot_urls: string[];
   thumbnail_url: string | null;
   error_message: string | null;
+  error_code: ScreenshotErrorCode | null;
+  action_results: ScreenshotActionResult[];
+  // Encrypted credentials sent with the request, see capture_credentials
+  credentials_id: string | null;
+  // Shared by the jobs capturing one URL on several devices
+  device_group_id: string | null;
+  callback_url: string | null;
+  worker_id: string | null;
+  lease_expires_at: string | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  heartbeat_at: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Review state of a diff against a baseline; null for ad-hoc diffs
+export type ReviewStatus = 'pending' | 'unchanged' | 'approved' | 'rejected';
+
+// Bounding box of a changed area, in screenshot pixels
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotDiff {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  base_job_id: string;
+  compare_job_id: string;
+  url: string;
+  device_type: DeviceType;
+  threshold: number;
+  status: JobStatus;
+  diff_url: string | null;
+  width: number | null;
+  height: number | null;
+  mismatch_pixels: number | null;
+  total_pixels: number | null;
+  mismatch_percentage: number | null;
+  regions: DiffRegion[];
+  error_message: string | null;
+  baseline_id: string | null;
+  review_status: ReviewStatus | null;
+  reviewed_at: string | null;
   created_at: string;
+  updated_at: string;
   started_at: string | null;
   completed_at: string | null;
 }
 
+// Approved screenshot of a project page that later captures are diffed against
+export interface ScreenshotBaseline {
+  id: string;
+  user_id: string;
+  project_id: string;
+  url: string;
+  device_type: DeviceType;
+  job_id: string;
+  approved_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Baseline with its screenshot, as listed for a project
+export interface BaselineWithJob extends ScreenshotBaseline {
+  job: Pick<ScreenshotJob, 'screenshot_url' | 'created_at'> | null;
+}
+
+// Review queue entry: a baseline diff with both screenshots and its project
+export interface ReviewItem extends ScreenshotDiff {
+  project: Pick<Project, 'id' | 'name' | 'domain'> | null;
+  base_job: Pick<ScreenshotJob, 'screenshot_url' | 'created_at'> | null;
+  compare_job: Pick<ScreenshotJob, 'screenshot_url' | 'created_at' | 'batch_id'> | null;
+}
+
 export interface ApiUsage {
   id: string;
   user_id: string;
@@ -84,6 +393,36 @@ export interface ApiUsage {
   created_at: string;
 }
 
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  user_id: string;
+  endpoint_id: string | null;
+  url: string;
+  event: WebhookEvent;
+  job_type: 'screenshot' | 'sitemap' | 'crawl';
+  job_id: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+  created_at: string;
+}
+
 // Supabase Database type definition
 export interface Database {
   public: {
@@ -96,6 +435,24 @@ export interface Database {
         };
         Update: Partial<Omit<Profile, 'id'>>;
       };
+      projects: {
+        Row: Project;
+        Insert: Omit<Project, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<Project, 'id'>>;
+      };
+      project_schedules: {
+        Row: ProjectSchedule;
+        Insert: Omit<ProjectSchedule, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<ProjectSchedule, 'id'>>;
+      };
       sitemap_jobs: {
         Row: SitemapJob;
         Insert: Omit<SitemapJob, 'id' | 'created_at'> & {
@@ -120,6 +477,34 @@ export interface Database {
         };
         Update: Partial<Omit<ScreenshotJob, 'id'>>;
       };
+      screenshot_batches: {
+        Row: ScreenshotBatch;
+        Insert: Omit<ScreenshotBatch, 'id' | 'source' | 'created_at'> & {
+          id?: string;
+          source?: RunSource;
+          created_at?: string;
+        };
+        Update: Partial<Omit<ScreenshotBatch, 'id'>>;
+      };
+      screenshot_diffs: {
+        Row: ScreenshotDiff;
+        Insert: Omit<ScreenshotDiff, 'id' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<ScreenshotDiff, 'id'>>;
+      };
+      screenshot_baselines: {
+        Row: ScreenshotBaseline;
+        Insert: Omit<ScreenshotBaseline, 'id' | 'approved_at' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          approved_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<ScreenshotBaseline, 'id'>>;
+      };
       api_usage: {
         Row: ApiUsage;
         Insert: Omit<ApiUsage, 'id' | 'created_at'> & {
@@ -128,6 +513,32 @@ export interface Database {
         };
         Update: Partial<Omit<ApiUsage, 'id'>>;
       };
+      webhook_endpoints: {
+        Row: WebhookEndpoint;
+        Insert: Omit<WebhookEndpoint, 'id' | 'secret' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          secret?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<WebhookEndpoint, 'id'>>;
+      };
+      webhook_deliveries: {
+        Row: WebhookDelivery;
+        Insert: Omit<WebhookDelivery, 'id' | 'created_at'> & {
+          id?: string;
+          created_at?: string;
+        };
+        Update: Partial<Omit<WebhookDelivery, 'id'>>;
+      };
+    };
+    Views: {
+      project_summaries: {
+        Row: ProjectSummary;
+      };
+      screenshot_runs: {
+        Row: ScreenshotRun;
+      };
     };
   };
 }
@@ -0,0 +1,91 @@
+-- ScreenshotPro Webhooks
+-- Outgoing notifications when screenshot, sitemap and crawl jobs finish
+
+-- ============================================
+-- SIGNING SECRET + PER-REQUEST CALLBACKS
+-- ============================================
+-- Per-request callbacks (callbackUrl) are signed with the profile's secret,
+-- registered endpoints are signed with their own secret.
+ALTER TABLE public.profiles
+  ADD COLUMN webhook_secret TEXT DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+ALTER TABLE public.screenshot_jobs ADD COLUMN callback_url TEXT;
+ALTER TABLE public.sitemap_jobs ADD COLUMN callback_url TEXT;
+
+-- ============================================
+-- WEBHOOK ENDPOINTS TABLE
+-- ============================================
+CREATE TABLE public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  events TEXT[] NOT NULL DEFAULT ARRAY[
+    'screenshot.completed', 'screenshot.failed',
+    'sitemap.completed', 'sitemap.failed',
+    'crawl.completed', 'crawl.failed'
+  ],
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- WEBHOOK DELIVERIES TABLE (delivery log)
+-- ============================================
+CREATE TABLE public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint_id UUID REFERENCES public.webhook_endpoints(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  event TEXT NOT NULL,
+  job_type TEXT NOT NULL CHECK (job_type IN ('screenshot', 'sitemap', 'crawl')),
+  job_id UUID NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER DEFAULT 0,
+  response_status INTEGER,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id);
+CREATE INDEX idx_webhook_deliveries_user_id ON public.webhook_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_pending ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Webhook endpoints policies
+CREATE POLICY "Users can view own webhook endpoints" ON public.webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own webhook endpoints" ON public.webhook_endpoints
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own webhook endpoints" ON public.webhook_endpoints
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own webhook endpoints" ON public.webhook_endpoints
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Webhook deliveries policies (written by workers with the service key)
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
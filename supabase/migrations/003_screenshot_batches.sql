@@ -0,0 +1,37 @@
+-- ScreenshotPro Screenshot Batches
+-- Groups screenshot jobs created by one POST /api/v1/screenshots/batch call
+
+-- ============================================
+-- SCREENSHOT BATCHES TABLE
+-- ============================================
+CREATE TABLE public.screenshot_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  sitemap_job_id UUID REFERENCES public.sitemap_jobs(id) ON DELETE SET NULL,
+  options JSONB DEFAULT '{}'::jsonb,
+  total_jobs INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN batch_id UUID REFERENCES public.screenshot_batches(id) ON DELETE SET NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_screenshot_batches_user_id ON public.screenshot_batches(user_id);
+CREATE INDEX idx_screenshot_jobs_batch_id ON public.screenshot_jobs(batch_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.screenshot_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own screenshot batches" ON public.screenshot_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own screenshot batches" ON public.screenshot_batches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own screenshot batches" ON public.screenshot_batches
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,124 @@
+-- ScreenshotPro Projects
+-- First-class projects instead of grouping jobs by hostname in the browser
+
+-- ============================================
+-- PROJECTS TABLE
+-- ============================================
+CREATE TABLE public.projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  description TEXT,
+  settings JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.sitemap_jobs
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+ALTER TABLE public.crawl_jobs
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+ALTER TABLE public.screenshot_batches
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_projects_user_id ON public.projects(user_id, updated_at DESC);
+CREATE INDEX idx_projects_user_domain ON public.projects(user_id, domain);
+CREATE INDEX idx_sitemap_jobs_project_id ON public.sitemap_jobs(project_id, created_at DESC);
+CREATE INDEX idx_crawl_jobs_project_id ON public.crawl_jobs(project_id);
+CREATE INDEX idx_screenshot_jobs_project_id ON public.screenshot_jobs(project_id, created_at DESC);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own projects" ON public.projects
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own projects" ON public.projects
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own projects" ON public.projects
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own projects" ON public.projects
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- PROJECT SUMMARIES VIEW
+-- ============================================
+-- Per-project counts for the paginated project list. security_invoker keeps
+-- the projects RLS policies in force when queried with a user token.
+CREATE OR REPLACE VIEW public.project_summaries
+WITH (security_invoker = true) AS
+SELECT
+  p.*,
+  COALESCE(s.screenshot_count, 0) AS screenshot_count,
+  COALESCE(s.completed_screenshot_count, 0) AS completed_screenshot_count,
+  COALESCE(jsonb_array_length(latest_sitemap.urls), 0) AS url_count,
+  latest_sitemap.id AS latest_sitemap_job_id,
+  latest_sitemap.status AS latest_sitemap_status,
+  GREATEST(p.updated_at, s.last_screenshot_at, latest_sitemap.created_at) AS last_activity_at
+FROM public.projects p
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) AS screenshot_count,
+    COUNT(*) FILTER (WHERE sj.status = 'completed') AS completed_screenshot_count,
+    MAX(sj.created_at) AS last_screenshot_at
+  FROM public.screenshot_jobs sj
+  WHERE sj.project_id = p.id
+) s ON true
+LEFT JOIN LATERAL (
+  SELECT sm.id, sm.status, sm.urls, sm.created_at
+  FROM public.sitemap_jobs sm
+  WHERE sm.project_id = p.id
+  ORDER BY sm.created_at DESC
+  LIMIT 1
+) latest_sitemap ON true;
+
+-- ============================================
+-- BACKFILL: one project per user + hostname
+-- ============================================
+WITH job_domains AS (
+  SELECT user_id,
+    regexp_replace(split_part(regexp_replace(domain, '^https?://', ''), '/', 1), '^www\.', '') AS host,
+    created_at
+  FROM public.sitemap_jobs
+  UNION ALL
+  SELECT user_id,
+    regexp_replace(split_part(regexp_replace(url, '^https?://', ''), '/', 1), '^www\.', '') AS host,
+    created_at
+  FROM public.screenshot_jobs
+)
+INSERT INTO public.projects (user_id, name, domain, created_at, updated_at)
+SELECT user_id, host, host, MIN(created_at), MAX(created_at)
+FROM job_domains
+WHERE user_id IS NOT NULL AND host <> ''
+GROUP BY user_id, host;
+
+UPDATE public.sitemap_jobs j SET project_id = p.id
+FROM public.projects p
+WHERE p.user_id = j.user_id
+  AND p.domain = regexp_replace(split_part(regexp_replace(j.domain, '^https?://', ''), '/', 1), '^www\.', '');
+
+UPDATE public.crawl_jobs j SET project_id = s.project_id
+FROM public.sitemap_jobs s
+WHERE s.id = j.sitemap_job_id;
+
+UPDATE public.screenshot_jobs j SET project_id = p.id
+FROM public.projects p
+WHERE p.user_id = j.user_id
+  AND p.domain = regexp_replace(split_part(regexp_replace(j.url, '^https?://', ''), '/', 1), '^www\.', '');
@@ -0,0 +1,64 @@
+-- ScreenshotPro Screenshot Runs
+-- Every screenshot generation (dashboard or batch API) is recorded as a run in
+-- screenshot_batches, so past captures of a project can be browsed and compared
+
+-- ============================================
+-- SCREENSHOT BATCHES: RUN SOURCE
+-- ============================================
+ALTER TABLE public.screenshot_batches
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('dashboard', 'api'));
+
+CREATE INDEX idx_screenshot_batches_project_id ON public.screenshot_batches(project_id, created_at DESC);
+
+-- ============================================
+-- BACKFILL: one run per dashboard generation
+-- ============================================
+-- /api/screenshots/generate inserted all of a run's jobs in one statement, so
+-- they share a created_at timestamp
+WITH runs AS (
+  INSERT INTO public.screenshot_batches (user_id, sitemap_job_id, project_id, options, total_jobs, source, created_at)
+  SELECT user_id, sitemap_job_id, project_id, (array_agg(options))[1], COUNT(*), 'dashboard', created_at
+  FROM public.screenshot_jobs
+  WHERE batch_id IS NULL
+  GROUP BY user_id, sitemap_job_id, project_id, created_at
+  RETURNING id, user_id, sitemap_job_id, project_id, created_at
+)
+UPDATE public.screenshot_jobs j SET batch_id = r.id
+FROM runs r
+WHERE j.batch_id IS NULL
+  AND j.user_id IS NOT DISTINCT FROM r.user_id
+  AND j.sitemap_job_id IS NOT DISTINCT FROM r.sitemap_job_id
+  AND j.project_id IS NOT DISTINCT FROM r.project_id
+  AND j.created_at = r.created_at;
+
+-- ============================================
+-- RUN STATISTICS VIEW
+-- ============================================
+-- duration_seconds runs from queueing to the last finished job and is only
+-- set once nothing in the run is pending or processing
+CREATE OR REPLACE VIEW public.screenshot_runs
+WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COALESCE(s.completed_count, 0) AS completed_count,
+  COALESCE(s.failed_count, 0) AS failed_count,
+  COALESCE(s.pending_count, 0) AS pending_count,
+  COALESCE(s.processing_count, 0) AS processing_count,
+  s.started_at,
+  s.finished_at,
+  CASE
+    WHEN COALESCE(s.pending_count, 0) + COALESCE(s.processing_count, 0) = 0 AND s.finished_at IS NOT NULL
+    THEN EXTRACT(EPOCH FROM (s.finished_at - b.created_at))::INTEGER
+  END AS duration_seconds
+FROM public.screenshot_batches b
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE sj.status = 'completed') AS completed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'failed') AS failed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'pending') AS pending_count,
+    COUNT(*) FILTER (WHERE sj.status = 'processing') AS processing_count,
+    MIN(sj.started_at) AS started_at,
+    MAX(sj.completed_at) AS finished_at
+  FROM public.screenshot_jobs sj
+  WHERE sj.batch_id = b.id
+) s ON true;
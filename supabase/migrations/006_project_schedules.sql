@@ -0,0 +1,101 @@
+-- ScreenshotPro Project Schedules
+-- Recurring captures of a project, enqueued by worker/scheduler.js
+
+-- ============================================
+-- PROJECT SCHEDULES TABLE
+-- ============================================
+CREATE TABLE public.project_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT,
+  cron_expression TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  -- 'saved' captures the stored URL list, 'rediscover' reads the sitemap on every run
+  url_mode TEXT NOT NULL DEFAULT 'saved' CHECK (url_mode IN ('saved', 'rediscover')),
+  urls JSONB DEFAULT '[]'::jsonb,
+  max_urls INTEGER NOT NULL DEFAULT 100,
+  options JSONB DEFAULT '{}'::jsonb,
+  is_active BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_batch_id UUID REFERENCES public.screenshot_batches(id) ON DELETE SET NULL,
+  -- Set while a run waits for a crawl because the site has no sitemap
+  pending_sitemap_job_id UUID REFERENCES public.sitemap_jobs(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Runs started by a schedule
+ALTER TABLE public.screenshot_batches
+  ADD COLUMN schedule_id UUID REFERENCES public.project_schedules(id) ON DELETE SET NULL;
+
+ALTER TABLE public.screenshot_batches
+  DROP CONSTRAINT screenshot_batches_source_check,
+  ADD CONSTRAINT screenshot_batches_source_check CHECK (source IN ('dashboard', 'api', 'schedule'));
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_project_schedules_project_id ON public.project_schedules(project_id);
+CREATE INDEX idx_project_schedules_due ON public.project_schedules(next_run_at) WHERE is_active = true;
+CREATE INDEX idx_project_schedules_pending_crawl ON public.project_schedules(pending_sitemap_job_id)
+  WHERE pending_sitemap_job_id IS NOT NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.project_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own project schedules" ON public.project_schedules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own project schedules" ON public.project_schedules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own project schedules" ON public.project_schedules
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own project schedules" ON public.project_schedules
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_project_schedules_updated_at
+  BEFORE UPDATE ON public.project_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- RUN STATISTICS VIEW
+-- ============================================
+-- Recreated so b.* picks up schedule_id
+DROP VIEW public.screenshot_runs;
+
+CREATE VIEW public.screenshot_runs
+WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COALESCE(s.completed_count, 0) AS completed_count,
+  COALESCE(s.failed_count, 0) AS failed_count,
+  COALESCE(s.pending_count, 0) AS pending_count,
+  COALESCE(s.processing_count, 0) AS processing_count,
+  s.started_at,
+  s.finished_at,
+  CASE
+    WHEN COALESCE(s.pending_count, 0) + COALESCE(s.processing_count, 0) = 0 AND s.finished_at IS NOT NULL
+    THEN EXTRACT(EPOCH FROM (s.finished_at - b.created_at))::INTEGER
+  END AS duration_seconds
+FROM public.screenshot_batches b
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE sj.status = 'completed') AS completed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'failed') AS failed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'pending') AS pending_count,
+    COUNT(*) FILTER (WHERE sj.status = 'processing') AS processing_count,
+    MIN(sj.started_at) AS started_at,
+    MAX(sj.completed_at) AS finished_at
+  FROM public.screenshot_jobs sj
+  WHERE sj.batch_id = b.id
+) s ON true;
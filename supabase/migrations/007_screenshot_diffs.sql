@@ -0,0 +1,62 @@
+-- ScreenshotPro Visual Diffs
+-- Pixel comparison of two completed captures of the same URL and viewport,
+-- computed by the screenshot worker (worker/visual-diff.js)
+
+-- ============================================
+-- SCREENSHOT DIFFS TABLE
+-- ============================================
+CREATE TABLE public.screenshot_diffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  -- The earlier capture and the one compared against it
+  base_job_id UUID NOT NULL REFERENCES public.screenshot_jobs(id) ON DELETE CASCADE,
+  compare_job_id UUID NOT NULL REFERENCES public.screenshot_jobs(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  device_type TEXT NOT NULL DEFAULT 'desktop',
+  -- Per-pixel color tolerance (0-1); higher ignores smaller color changes
+  threshold NUMERIC(4, 3) NOT NULL DEFAULT 0.1 CHECK (threshold >= 0 AND threshold <= 1),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  diff_url TEXT,
+  width INTEGER,
+  height INTEGER,
+  mismatch_pixels INTEGER,
+  total_pixels INTEGER,
+  mismatch_percentage NUMERIC(6, 3),
+  -- Bounding boxes of changed areas: [{ x, y, width, height }]
+  regions JSONB DEFAULT '[]'::jsonb,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE (base_job_id, compare_job_id, threshold)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_screenshot_diffs_user_id ON public.screenshot_diffs(user_id);
+CREATE INDEX idx_screenshot_diffs_compare_job_id ON public.screenshot_diffs(compare_job_id);
+CREATE INDEX idx_screenshot_diffs_pending ON public.screenshot_diffs(created_at) WHERE status = 'pending';
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.screenshot_diffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own screenshot diffs" ON public.screenshot_diffs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own screenshot diffs" ON public.screenshot_diffs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own screenshot diffs" ON public.screenshot_diffs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_screenshot_diffs_updated_at
+  BEFORE UPDATE ON public.screenshot_diffs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
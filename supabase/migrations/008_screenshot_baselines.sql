@@ -0,0 +1,60 @@
+-- ScreenshotPro Baselines
+-- An approved screenshot per project, URL and viewport. Every later capture of
+-- the same page is diffed against it and changed pages wait in the review
+-- queue until a reviewer approves (new baseline) or rejects them.
+
+-- ============================================
+-- SCREENSHOT BASELINES TABLE
+-- ============================================
+CREATE TABLE public.screenshot_baselines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  device_type TEXT NOT NULL DEFAULT 'desktop',
+  job_id UUID NOT NULL REFERENCES public.screenshot_jobs(id) ON DELETE CASCADE,
+  approved_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, url, device_type)
+);
+
+-- ============================================
+-- SCREENSHOT DIFFS: REVIEW STATE
+-- ============================================
+-- Only diffs against a baseline are reviewed; 'unchanged' diffs skip the queue
+ALTER TABLE public.screenshot_diffs
+  ADD COLUMN baseline_id UUID REFERENCES public.screenshot_baselines(id) ON DELETE SET NULL,
+  ADD COLUMN review_status TEXT CHECK (review_status IN ('pending', 'unchanged', 'approved', 'rejected')),
+  ADD COLUMN reviewed_at TIMESTAMPTZ;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_screenshot_baselines_job_id ON public.screenshot_baselines(job_id);
+CREATE INDEX idx_screenshot_diffs_review_queue ON public.screenshot_diffs(user_id, created_at DESC)
+  WHERE review_status = 'pending';
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+ALTER TABLE public.screenshot_baselines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own screenshot baselines" ON public.screenshot_baselines
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own screenshot baselines" ON public.screenshot_baselines
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own screenshot baselines" ON public.screenshot_baselines
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own screenshot baselines" ON public.screenshot_baselines
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_screenshot_baselines_updated_at
+  BEFORE UPDATE ON public.screenshot_baselines
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
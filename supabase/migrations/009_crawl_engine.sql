@@ -0,0 +1,23 @@
+-- ScreenshotPro Crawl Engines
+-- Crawl jobs can run on Screaming Frog or the worker's built-in crawler
+-- (worker/native-crawler.js). 'auto' uses Screaming Frog when the worker has it
+-- and the job needs nothing only the built-in crawler does: rendering
+-- JavaScript, crawl rules other than the defaults, or a project login flow.
+
+-- ============================================
+-- CRAWL JOBS: ENGINE SELECTION
+-- ============================================
+ALTER TABLE public.crawl_jobs
+  ADD COLUMN engine TEXT NOT NULL DEFAULT 'auto' CHECK (engine IN ('auto', 'screaming_frog', 'native')),
+  -- Render pages in headless Chrome before extracting links (built-in crawler only)
+  ADD COLUMN render BOOLEAN NOT NULL DEFAULT false,
+  -- Engine the worker actually ran, set when the job starts
+  ADD COLUMN engine_used TEXT CHECK (engine_used IN ('screaming_frog', 'native'));
+
+-- ============================================
+-- SITEMAP JOBS: CRAWLER SOURCE
+-- ============================================
+ALTER TABLE public.sitemap_jobs
+  DROP CONSTRAINT sitemap_jobs_source_check,
+  ADD CONSTRAINT sitemap_jobs_source_check
+    CHECK (source IN ('sitemap_xml', 'sitemap_index', 'sitemap_html', 'robots_txt', 'screaming_frog', 'crawler'));
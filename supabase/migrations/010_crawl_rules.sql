@@ -0,0 +1,12 @@
+-- ScreenshotPro Crawl Rules
+-- Include/exclude URL patterns for crawl jobs, alongside max_urls and crawl_depth.
+-- Patterns are JavaScript regular expressions matched anywhere in the URL.
+
+-- ============================================
+-- CRAWL JOBS: URL PATTERNS
+-- ============================================
+ALTER TABLE public.crawl_jobs
+  -- Only URLs matching one of these are collected and followed (all URLs when empty)
+  ADD COLUMN include_patterns TEXT[] NOT NULL DEFAULT '{}',
+  -- URLs matching one of these are neither collected nor followed
+  ADD COLUMN exclude_patterns TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,23 @@
+-- ScreenshotPro Crawl Progress
+-- Live progress written by the crawl worker while a crawl runs and streamed
+-- to the Generator page over realtime (crawl_jobs is already published).
+
+-- ============================================
+-- CRAWL JOBS: PROGRESS
+-- ============================================
+-- crawl_progress and crawl_total were written by the worker before they were
+-- part of the schema; IF NOT EXISTS keeps databases that added them by hand working.
+ALTER TABLE public.crawl_jobs
+  -- URLs crawled so far
+  ADD COLUMN IF NOT EXISTS crawl_progress INTEGER NOT NULL DEFAULT 0,
+  -- Crawled plus queued URLs
+  ADD COLUMN IF NOT EXISTS crawl_total INTEGER NOT NULL DEFAULT 0,
+  -- URLs discovered and waiting to be crawled
+  ADD COLUMN crawl_queued INTEGER NOT NULL DEFAULT 0,
+  -- URLs that failed to load or returned an error status
+  ADD COLUMN crawl_errors INTEGER NOT NULL DEFAULT 0,
+  -- URL most recently crawled
+  ADD COLUMN current_url TEXT,
+  -- Estimated completion time, extrapolated from the crawl rate so far
+  ADD COLUMN eta_at TIMESTAMPTZ,
+  ADD COLUMN progress_updated_at TIMESTAMPTZ;
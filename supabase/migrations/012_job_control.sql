@@ -0,0 +1,60 @@
+-- ScreenshotPro Job Control
+-- Queued and running jobs can be paused, resumed and cancelled. Paused jobs are
+-- skipped by the workers until resumed; cancelled jobs are final. A paused crawl
+-- restarts from the beginning when resumed.
+
+-- ============================================
+-- JOB STATUSES
+-- ============================================
+ALTER TABLE public.sitemap_jobs
+  DROP CONSTRAINT sitemap_jobs_status_check,
+  ADD CONSTRAINT sitemap_jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'paused', 'cancelled'));
+
+ALTER TABLE public.crawl_jobs
+  DROP CONSTRAINT crawl_jobs_status_check,
+  ADD CONSTRAINT crawl_jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'paused', 'cancelled'));
+
+ALTER TABLE public.screenshot_jobs
+  DROP CONSTRAINT screenshot_jobs_status_check,
+  ADD CONSTRAINT screenshot_jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'paused', 'cancelled'));
+
+-- ============================================
+-- RUN STATISTICS VIEW
+-- ============================================
+-- Recreated with paused and cancelled counts; a run with paused jobs is not finished
+DROP VIEW public.screenshot_runs;
+
+CREATE VIEW public.screenshot_runs
+WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COALESCE(s.completed_count, 0) AS completed_count,
+  COALESCE(s.failed_count, 0) AS failed_count,
+  COALESCE(s.pending_count, 0) AS pending_count,
+  COALESCE(s.processing_count, 0) AS processing_count,
+  COALESCE(s.paused_count, 0) AS paused_count,
+  COALESCE(s.cancelled_count, 0) AS cancelled_count,
+  s.started_at,
+  s.finished_at,
+  CASE
+    WHEN COALESCE(s.pending_count, 0) + COALESCE(s.processing_count, 0) + COALESCE(s.paused_count, 0) = 0
+      AND s.finished_at IS NOT NULL
+    THEN EXTRACT(EPOCH FROM (s.finished_at - b.created_at))::INTEGER
+  END AS duration_seconds
+FROM public.screenshot_batches b
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE sj.status = 'completed') AS completed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'failed') AS failed_count,
+    COUNT(*) FILTER (WHERE sj.status = 'pending') AS pending_count,
+    COUNT(*) FILTER (WHERE sj.status = 'processing') AS processing_count,
+    COUNT(*) FILTER (WHERE sj.status = 'paused') AS paused_count,
+    COUNT(*) FILTER (WHERE sj.status = 'cancelled') AS cancelled_count,
+    MIN(sj.started_at) AS started_at,
+    MAX(sj.completed_at) AS finished_at
+  FROM public.screenshot_jobs sj
+  WHERE sj.batch_id = b.id
+) s ON true;
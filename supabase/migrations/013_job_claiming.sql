@@ -0,0 +1,88 @@
+-- ScreenshotPro Job Claiming
+-- Workers claim jobs through claim_screenshot_jobs / claim_crawl_jobs, which
+-- lock pending rows with FOR UPDATE SKIP LOCKED, so any number of workers can
+-- poll the same queue without capturing or crawling a job twice. Claimed jobs
+-- record the worker and a lease; a job whose lease has expired was left behind
+-- by a worker that died.
+
+-- ============================================
+-- CLAIM COLUMNS
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  -- Worker that claimed the job (WORKER_ID, hostname-pid by default)
+  ADD COLUMN worker_id TEXT,
+  ADD COLUMN lease_expires_at TIMESTAMPTZ;
+
+ALTER TABLE public.crawl_jobs
+  ADD COLUMN worker_id TEXT,
+  ADD COLUMN lease_expires_at TIMESTAMPTZ;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Claims scan pending jobs oldest first
+CREATE INDEX idx_screenshot_jobs_pending ON public.screenshot_jobs(created_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_crawl_jobs_pending ON public.crawl_jobs(created_at)
+  WHERE status = 'pending';
+
+-- ============================================
+-- CLAIM FUNCTIONS
+-- ============================================
+-- Claim up to p_limit pending screenshot jobs for a worker
+CREATE OR REPLACE FUNCTION public.claim_screenshot_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.screenshot_jobs AS pending
+    WHERE pending.status = 'pending'
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim up to p_limit pending crawl jobs for a worker
+CREATE OR REPLACE FUNCTION public.claim_crawl_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 1200
+)
+RETURNS SETOF public.crawl_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.crawl_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.crawl_jobs AS pending
+    WHERE pending.status = 'pending'
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the workers (service role) claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_screenshot_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_crawl_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
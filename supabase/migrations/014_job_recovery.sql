@@ -0,0 +1,156 @@
+-- ScreenshotPro Job Recovery
+-- Workers renew the lease on the job they are working on with a heartbeat.
+-- A processing job whose lease expires was left behind by a worker that crashed
+-- or was killed: the reaper functions, called from the workers' poll loops,
+-- return it to pending, or fail it once it has been attempted p_max_attempts times.
+
+-- ============================================
+-- ATTEMPTS AND HEARTBEATS
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  -- Times the job has been claimed
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN heartbeat_at TIMESTAMPTZ;
+
+ALTER TABLE public.crawl_jobs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN heartbeat_at TIMESTAMPTZ;
+
+-- Jobs claimed before leases existed get an hour to finish
+UPDATE public.screenshot_jobs
+SET lease_expires_at = NOW() + INTERVAL '1 hour'
+WHERE status = 'processing' AND lease_expires_at IS NULL;
+
+UPDATE public.crawl_jobs
+SET lease_expires_at = NOW() + INTERVAL '1 hour'
+WHERE status = 'processing' AND lease_expires_at IS NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Reapers scan processing jobs by lease
+CREATE INDEX idx_screenshot_jobs_lease ON public.screenshot_jobs(lease_expires_at)
+  WHERE status = 'processing';
+CREATE INDEX idx_crawl_jobs_lease ON public.crawl_jobs(lease_expires_at)
+  WHERE status = 'processing';
+
+-- ============================================
+-- CLAIM FUNCTIONS
+-- ============================================
+-- Recreated to count attempts and start the heartbeat
+CREATE OR REPLACE FUNCTION public.claim_screenshot_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = job.attempts + 1,
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.screenshot_jobs AS pending
+    WHERE pending.status = 'pending'
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.claim_crawl_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 1200
+)
+RETURNS SETOF public.crawl_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.crawl_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = job.attempts + 1,
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.crawl_jobs AS pending
+    WHERE pending.status = 'pending'
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- REAPER FUNCTIONS
+-- ============================================
+-- Requeue or fail screenshot jobs whose lease has expired, returning them
+CREATE OR REPLACE FUNCTION public.reap_screenshot_jobs(p_max_attempts INTEGER DEFAULT 3)
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = CASE WHEN job.attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+    error_message = CASE
+      WHEN job.attempts >= p_max_attempts
+        THEN format('Worker stopped responding during each of %s attempts', job.attempts)
+      ELSE job.error_message
+    END,
+    completed_at = CASE WHEN job.attempts >= p_max_attempts THEN NOW() ELSE NULL END,
+    worker_id = NULL,
+    lease_expires_at = NULL
+  WHERE job.id IN (
+    SELECT expired.id
+    FROM public.screenshot_jobs AS expired
+    WHERE expired.status = 'processing' AND expired.lease_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Requeue or fail crawl jobs whose lease has expired, returning them
+CREATE OR REPLACE FUNCTION public.reap_crawl_jobs(p_max_attempts INTEGER DEFAULT 3)
+RETURNS SETOF public.crawl_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.crawl_jobs AS job
+  SET
+    status = CASE WHEN job.attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+    error_message = CASE
+      WHEN job.attempts >= p_max_attempts
+        THEN format('Worker stopped responding during each of %s attempts', job.attempts)
+      ELSE job.error_message
+    END,
+    completed_at = CASE WHEN job.attempts >= p_max_attempts THEN NOW() ELSE NULL END,
+    current_url = NULL,
+    eta_at = NULL,
+    worker_id = NULL,
+    lease_expires_at = NULL
+  WHERE job.id IN (
+    SELECT expired.id
+    FROM public.crawl_jobs AS expired
+    WHERE expired.status = 'processing' AND expired.lease_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the workers (service role) reap jobs
+REVOKE EXECUTE ON FUNCTION public.reap_screenshot_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reap_crawl_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,66 @@
+-- ScreenshotPro Capture Concurrency
+-- Screenshot workers capture several pages at once. To avoid hammering a single
+-- client site, claim_screenshot_jobs skips pending jobs on hosts that already
+-- have p_max_per_host jobs processing, across all workers.
+
+-- ============================================
+-- HELPERS
+-- ============================================
+-- Lowercased host of a URL, without port or credentials
+CREATE OR REPLACE FUNCTION public.url_host(p_url TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(substring(p_url FROM '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^/?#@]*@)?([^/?#:]+)'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Claims count processing jobs per host
+CREATE INDEX idx_screenshot_jobs_processing_host ON public.screenshot_jobs(public.url_host(url))
+  WHERE status = 'processing';
+
+-- ============================================
+-- CLAIM FUNCTION
+-- ============================================
+-- Replaced with a per-host limit (NULL for none)
+DROP FUNCTION public.claim_screenshot_jobs(TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.claim_screenshot_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_max_per_host INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = job.attempts + 1,
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.screenshot_jobs AS pending
+    WHERE pending.status = 'pending'
+      AND (
+        p_max_per_host IS NULL
+        OR (
+          SELECT COUNT(*)
+          FROM public.screenshot_jobs AS running
+          WHERE running.status = 'processing'
+            AND public.url_host(running.url) = public.url_host(pending.url)
+        ) < p_max_per_host
+      )
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_screenshot_jobs(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
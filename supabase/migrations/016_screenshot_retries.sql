@@ -0,0 +1,95 @@
+-- ScreenshotPro Screenshot Retries
+-- Failed captures are classified (error_code) and transient failures are
+-- retried with exponential backoff until the job has been attempted
+-- max_attempts times. Jobs waiting for a retry are pending with next_attempt_at
+-- in the future.
+
+-- ============================================
+-- SCREENSHOT JOBS: RETRIES
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 10),
+  -- Earliest time a retry may be claimed
+  ADD COLUMN next_attempt_at TIMESTAMPTZ,
+  -- Category of the last error, see worker/capture-errors.js
+  ADD COLUMN error_code TEXT CHECK (error_code IN (
+    'timeout', 'dns', 'tls', 'network', 'http_status', 'blocked', 'upload_failed', 'worker_lost', 'unknown'
+  ));
+
+-- ============================================
+-- CLAIM FUNCTION
+-- ============================================
+-- Recreated to hold back retries until their backoff has elapsed
+CREATE OR REPLACE FUNCTION public.claim_screenshot_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_max_per_host INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = job.attempts + 1,
+    next_attempt_at = NULL,
+    started_at = NOW()
+  WHERE job.id IN (
+    SELECT pending.id
+    FROM public.screenshot_jobs AS pending
+    WHERE pending.status = 'pending'
+      AND (pending.next_attempt_at IS NULL OR pending.next_attempt_at <= NOW())
+      AND (
+        p_max_per_host IS NULL
+        OR (
+          SELECT COUNT(*)
+          FROM public.screenshot_jobs AS running
+          WHERE running.status = 'processing'
+            AND public.url_host(running.url) = public.url_host(pending.url)
+        ) < p_max_per_host
+      )
+    ORDER BY pending.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- REAPER FUNCTION
+-- ============================================
+-- Replaced to use each job's max_attempts instead of a worker setting
+DROP FUNCTION public.reap_screenshot_jobs(INTEGER);
+
+CREATE FUNCTION public.reap_screenshot_jobs()
+RETURNS SETOF public.screenshot_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.screenshot_jobs AS job
+  SET
+    status = CASE WHEN job.attempts >= job.max_attempts THEN 'failed' ELSE 'pending' END,
+    error_message = CASE
+      WHEN job.attempts >= job.max_attempts
+        THEN format('Worker stopped responding during each of %s attempts', job.attempts)
+      ELSE job.error_message
+    END,
+    error_code = CASE WHEN job.attempts >= job.max_attempts THEN 'worker_lost' ELSE job.error_code END,
+    completed_at = CASE WHEN job.attempts >= job.max_attempts THEN NOW() ELSE NULL END,
+    worker_id = NULL,
+    lease_expires_at = NULL
+  WHERE job.id IN (
+    SELECT expired.id
+    FROM public.screenshot_jobs AS expired
+    WHERE expired.status = 'processing' AND expired.lease_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.reap_screenshot_jobs() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,19 @@
+-- ScreenshotPro Element Capture
+-- Jobs can capture one element (options.selector), every matching element
+-- (options.selectorAll) or a fixed region (options.clip) instead of the page.
+-- A selectorAll job produces one image per match, stored in screenshot_urls;
+-- screenshot_url always holds the first image.
+
+-- ============================================
+-- SCREENSHOT JOBS: ELEMENT CAPTURE
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN screenshot_urls TEXT[] NOT NULL DEFAULT '{}';
+
+-- A selector that matches nothing is not retried
+ALTER TABLE public.screenshot_jobs
+  DROP CONSTRAINT screenshot_jobs_error_code_check,
+  ADD CONSTRAINT screenshot_jobs_error_code_check CHECK (error_code IN (
+    'timeout', 'dns', 'tls', 'network', 'http_status', 'blocked', 'selector_not_found',
+    'upload_failed', 'worker_lost', 'unknown'
+  ));
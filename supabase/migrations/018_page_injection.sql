@@ -0,0 +1,15 @@
+-- ScreenshotPro Page Injection
+-- Jobs can hide elements (options.hideSelectors), add a stylesheet
+-- (options.injectCss) and run a script (options.injectJs) before capture. A
+-- script that throws or times out fails the job with script_error, which is
+-- not retried.
+
+-- ============================================
+-- SCREENSHOT JOBS: ERROR CODES
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  DROP CONSTRAINT screenshot_jobs_error_code_check,
+  ADD CONSTRAINT screenshot_jobs_error_code_check CHECK (error_code IN (
+    'timeout', 'dns', 'tls', 'network', 'http_status', 'blocked', 'selector_not_found',
+    'script_error', 'upload_failed', 'worker_lost', 'unknown'
+  ));
@@ -0,0 +1,19 @@
+-- ScreenshotPro Capture Actions
+-- Jobs can run a list of interactions (options.actions: click, type, press,
+-- hover, scroll, waits) before capture. Each step's outcome is stored in
+-- action_results, so a failed job shows which step broke; the job itself fails
+-- with action_failed.
+
+-- ============================================
+-- SCREENSHOT JOBS: ACTIONS
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  -- One entry per action: {type, status, durationMs, error}
+  ADD COLUMN action_results JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE public.screenshot_jobs
+  DROP CONSTRAINT screenshot_jobs_error_code_check,
+  ADD CONSTRAINT screenshot_jobs_error_code_check CHECK (error_code IN (
+    'timeout', 'dns', 'tls', 'network', 'http_status', 'blocked', 'selector_not_found',
+    'script_error', 'action_failed', 'upload_failed', 'worker_lost', 'unknown'
+  ));
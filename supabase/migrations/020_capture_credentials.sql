@@ -0,0 +1,45 @@
+-- ScreenshotPro Capture Credentials
+-- Cookies, extra headers and HTTP basic auth for password-protected sites.
+-- Credentials are encrypted by the API (AES-256-GCM, CREDENTIALS_KEY) and only
+-- the service role can read them. Jobs refer to the credentials sent with
+-- their request; a project's saved credentials (project_id set) are used by
+-- its jobs that brought none, including scheduled runs.
+
+-- ============================================
+-- CAPTURE CREDENTIALS TABLE
+-- ============================================
+CREATE TABLE public.capture_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Set for a project's saved credentials, NULL for a request's
+  project_id UUID UNIQUE REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- "iv:tag:ciphertext", base64
+  credentials TEXT NOT NULL,
+  -- Cookie and header names, safe to show: {cookies, headers, basicAuth}
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN credentials_id UUID REFERENCES public.capture_credentials(id) ON DELETE SET NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_capture_credentials_user_id ON public.capture_credentials(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+-- No policies: only the API and workers (service role) read or write credentials
+ALTER TABLE public.capture_credentials ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.capture_credentials FROM anon, authenticated;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_capture_credentials_updated_at
+  BEFORE UPDATE ON public.capture_credentials
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
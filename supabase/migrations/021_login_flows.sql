@@ -0,0 +1,57 @@
+-- ScreenshotPro Login Flows
+-- A project can save a login recipe for pages behind a login form: the login
+-- page, the username, password, submit and success selectors, and the
+-- username and password (encrypted like capture_credentials). Workers log in
+-- once per browser context and cache the session cookies here, encrypted, so
+-- other captures and the built-in crawler reuse them until a capture is sent
+-- back to the login page.
+
+-- ============================================
+-- PROJECT LOGIN FLOWS TABLE
+-- ============================================
+CREATE TABLE public.project_login_flows (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  login_url TEXT NOT NULL,
+  username_selector TEXT NOT NULL,
+  password_selector TEXT NOT NULL,
+  -- NULL submits by pressing Enter in the password field
+  submit_selector TEXT,
+  -- Present once the login has succeeded
+  success_selector TEXT NOT NULL,
+  -- Encrypted {username, password}
+  secrets TEXT NOT NULL,
+  -- Encrypted session cookies from the last successful login
+  session TEXT,
+  session_updated_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_login_flows_user_id ON public.project_login_flows(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+-- No policies: only the API and workers (service role) read or write login flows
+ALTER TABLE public.project_login_flows ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.project_login_flows FROM anon, authenticated;
+
+-- ============================================
+-- SCREENSHOT JOBS: ERROR CODES
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  DROP CONSTRAINT screenshot_jobs_error_code_check,
+  ADD CONSTRAINT screenshot_jobs_error_code_check CHECK (error_code IN (
+    'timeout', 'dns', 'tls', 'network', 'http_status', 'blocked', 'selector_not_found',
+    'script_error', 'action_failed', 'login_failed', 'upload_failed', 'worker_lost', 'unknown'
+  ));
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE OR REPLACE TRIGGER update_project_login_flows_updated_at
+  BEFORE UPDATE ON public.project_login_flows
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,13 @@
+-- ScreenshotPro Device Groups
+-- A request can capture the same URL on several devices (options.deviceTypes
+-- or options.viewports). It fans out into one job per device; the jobs of a
+-- URL share a device_group_id so they can be shown and exported together.
+
+-- ============================================
+-- SCREENSHOT JOBS: DEVICE GROUPS
+-- ============================================
+ALTER TABLE public.screenshot_jobs
+  ADD COLUMN device_group_id UUID;
+
+CREATE INDEX idx_screenshot_jobs_device_group_id ON public.screenshot_jobs(device_group_id)
+  WHERE device_group_id IS NOT NULL;
@@ -0,0 +1,10 @@
+-- ScreenshotPro Webhook Endpoint Writes
+-- Endpoints are created and updated through /api/v1/webhooks, which only
+-- accepts public http(s) URLs. Users can no longer write the table directly;
+-- they can still view and delete their endpoints.
+
+-- ============================================
+-- WEBHOOK ENDPOINTS: API-ONLY WRITES
+-- ============================================
+DROP POLICY "Users can insert own webhook endpoints" ON public.webhook_endpoints;
+DROP POLICY "Users can update own webhook endpoints" ON public.webhook_endpoints;
@@ -0,0 +1,12 @@
+-- ScreenshotPro Schedule Writes
+-- Schedules are created and updated through /api/projects/[id]/schedules and
+-- /api/schedules/[id], which check project ownership, limit cron to hourly,
+-- validate the timezone and screenshot options and reject credentials and
+-- multi-device options. The scheduler runs whatever is stored, so users can no
+-- longer write the table directly; they can still view and delete schedules.
+
+-- ============================================
+-- PROJECT SCHEDULES: API-ONLY WRITES
+-- ============================================
+DROP POLICY "Users can insert own project schedules" ON public.project_schedules;
+DROP POLICY "Users can update own project schedules" ON public.project_schedules;
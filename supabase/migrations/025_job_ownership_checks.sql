@@ -0,0 +1,85 @@
+-- ScreenshotPro Job Ownership Checks
+-- The workers load a job's project login flow and capture credentials with the
+-- service role. Users can still insert and update their own jobs directly (the
+-- dashboard pauses and cancels them), so the project and credentials a job
+-- points to must belong to the same user, or a job could be made to use
+-- another user's saved sign-in.
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+-- Users cannot read capture_credentials, so the check runs as the owner
+CREATE OR REPLACE FUNCTION public.owns_capture_credentials(target_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.capture_credentials
+    WHERE id = target_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.owns_project(target_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = target_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- SITEMAP JOBS
+-- ============================================
+DROP POLICY "Users can insert own sitemap jobs" ON public.sitemap_jobs;
+DROP POLICY "Users can update own sitemap jobs" ON public.sitemap_jobs;
+
+CREATE POLICY "Users can insert own sitemap jobs" ON public.sitemap_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+  );
+
+CREATE POLICY "Users can update own sitemap jobs" ON public.sitemap_jobs
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+  );
+
+-- ============================================
+-- CRAWL JOBS
+-- ============================================
+DROP POLICY "Users can insert own crawl jobs" ON public.crawl_jobs;
+DROP POLICY "Users can update own crawl jobs" ON public.crawl_jobs;
+
+CREATE POLICY "Users can insert own crawl jobs" ON public.crawl_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+  );
+
+CREATE POLICY "Users can update own crawl jobs" ON public.crawl_jobs
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+  );
+
+-- ============================================
+-- SCREENSHOT JOBS
+-- ============================================
+DROP POLICY "Users can insert own screenshot jobs" ON public.screenshot_jobs;
+DROP POLICY "Users can update own screenshot jobs" ON public.screenshot_jobs;
+
+CREATE POLICY "Users can insert own screenshot jobs" ON public.screenshot_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+    AND (credentials_id IS NULL OR public.owns_capture_credentials(credentials_id))
+  );
+
+CREATE POLICY "Users can update own screenshot jobs" ON public.screenshot_jobs
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR public.owns_project(project_id))
+    AND (credentials_id IS NULL OR public.owns_capture_credentials(credentials_id))
+  );
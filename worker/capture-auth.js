@@ -0,0 +1,145 @@
+/**
+ * Authenticated capture
+ *
+ * Loads the credentials for a screenshot job: those sent with its request
+ * (`credentials_id`), or else its project's saved credentials, which are only
+ * used on the project's domain and its subdomains. Either must belong to the
+ * job's owner. They are encrypted by the API with AES-256-GCM
+ * (api/_lib/credentials.ts) and decrypted here with the same CREDENTIALS_KEY.
+ *
+ * Cookies without a domain are set for the page's URL. Extra headers and the
+ * basic auth `Authorization` header are only added to requests to the page's
+ * own host, so they never reach third-party scripts, fonts or trackers.
+ * Credential values are never logged.
+ *
+ * Environment Variables:
+ * - CREDENTIALS_KEY: 32-byte key, base64 encoded, shared with the API
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { CaptureError } from './capture-errors.js';
+
+function getKey() {
+  const key = Buffer.from(process.env.CREDENTIALS_KEY || '', 'base64');
+  if (key.length !== 32) {
+    throw new CaptureError('unknown', 'CREDENTIALS_KEY is not set; cannot use stored credentials', { retryable: false });
+  }
+  return key;
+}
+
+/**
+ * Encrypt a JSON value as "iv:tag:ciphertext", as the API does
+ */
+export function encryptSecret(value) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value encrypted by the API or encryptSecret
+ */
+export function decryptSecret(encrypted) {
+  const key = getKey();
+  const [iv, tag, ciphertext] = encrypted.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+/**
+ * Load and decrypt a job's credentials, or null if it has none
+ */
+export async function loadCaptureCredentials(supabase, job) {
+  let query = supabase
+    .from('capture_credentials')
+    .select('credentials, project:projects(domain)')
+    .eq('user_id', job.user_id);
+
+  if (job.credentials_id) {
+    query = query.eq('id', job.credentials_id);
+  } else if (job.project_id) {
+    query = query.eq('project_id', job.project_id);
+  } else {
+    return null;
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw new Error(`Failed to load credentials: ${error.message}`);
+  if (!data) return null;
+
+  // A job can belong to a project yet capture another site
+  if (!job.credentials_id && !isProjectHost(job.url, data.project.domain)) {
+    console.log('   Project credentials not used: the URL is outside the project domain');
+    return null;
+  }
+
+  return decryptSecret(data.credentials);
+}
+
+/**
+ * Whether a URL is on a project's domain (stored without www.) or a subdomain
+ */
+function isProjectHost(url, domain) {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Headers added to the page host's requests, or null for none
+ */
+export function getAuthHeaders(credentials) {
+  if (!credentials) return null;
+
+  const headers = {};
+  for (const [name, value] of Object.entries(credentials.extraHeaders || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  if (credentials.basicAuth) {
+    const { username, password } = credentials.basicAuth;
+    headers.authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return Object.keys(headers).length > 0 ? headers : null;
+}
+
+/**
+ * Cookies in the form page.setCookie expects
+ */
+export function getAuthCookies(credentials, pageUrl) {
+  return (credentials?.cookies || []).map(({ name, value, domain, path = '/' }) => ({
+    name,
+    value,
+    path,
+    ...(domain ? { domain } : { url: pageUrl }),
+  }));
+}
+
+/**
+ * Whether a request goes to the page's own host
+ */
+export function isPageHost(requestUrl, pageHost) {
+  try {
+    return new URL(requestUrl).hostname === pageHost;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short description of a job's credentials for logs: kinds and counts only
+ */
+export function describeCredentials(credentials) {
+  const parts = [];
+  if (credentials.cookies?.length) parts.push(`${credentials.cookies.length} cookie(s)`);
+  const headerCount = Object.keys(credentials.extraHeaders || {}).length;
+  if (headerCount) parts.push(`${headerCount} header(s)`);
+  if (credentials.basicAuth) parts.push('basic auth');
+  return parts.join(', ');
+}
@@ -0,0 +1,87 @@
+/**
+ * Screenshot error taxonomy
+ *
+ * Every failed capture is classified with an `error_code`, which decides
+ * whether the job is retried:
+ *
+ * - timeout: navigation or page timed out (retried)
+ * - dns: host name did not resolve (retried)
+ * - tls: certificate or TLS handshake error (not retried)
+ * - network: connection refused, reset or unreachable (retried)
+ * - http_status: the page responded with a 5xx status (retried)
+ * - blocked: rate limited (429, retried), bot challenge or blocked by the browser (not retried)
+ * - selector_not_found: the selector or selectorAll option matched no visible element (not retried)
+ * - script_error: the injectJs option threw or timed out (not retried)
+ * - action_failed: a pre-capture action failed (retried only if it timed out)
+ * - login_failed: the project's login flow failed (retried only if it timed out),
+ *   or the page still redirected to the login page after logging in (not retried)
+ * - upload_failed: the screenshot could not be stored (retried)
+ * - unknown: anything else (retried)
+ *
+ * Jobs abandoned by a crashed worker are failed by the reaper with `worker_lost`.
+ */
+
+export class CaptureError extends Error {
+  constructor(code, message, { retryable = true, httpStatus = null } = {}) {
+    super(message);
+    this.name = 'CaptureError';
+    this.code = code;
+    this.retryable = retryable;
+    this.httpStatus = httpStatus;
+  }
+}
+
+// Chromium net:: errors by category
+const NET_ERRORS = [
+  { pattern: /ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED|ENOTFOUND|EAI_AGAIN/, code: 'dns', retryable: true },
+  { pattern: /ERR_CERT_|ERR_SSL_|ERR_BAD_SSL|CERT_HAS_EXPIRED|UNABLE_TO_VERIFY_LEAF_SIGNATURE/, code: 'tls', retryable: false },
+  { pattern: /ERR_TIMED_OUT|ERR_CONNECTION_TIMED_OUT|ETIMEDOUT/, code: 'timeout', retryable: true },
+  { pattern: /ERR_BLOCKED_BY_|ERR_ACCESS_DENIED/, code: 'blocked', retryable: false },
+  {
+    pattern: /ERR_CONNECTION_|ERR_ADDRESS_UNREACHABLE|ERR_INTERNET_DISCONNECTED|ERR_EMPTY_RESPONSE|ECONNREFUSED|ECONNRESET/,
+    code: 'network',
+    retryable: true,
+  },
+];
+
+/**
+ * Turn a page response into an error, or null if the page should be captured
+ *
+ * Other 4xx pages (e.g. a 404) are captured as they are.
+ */
+export function checkResponse(response) {
+  if (!response) return null;
+
+  const status = response.status();
+  if (status === 429) {
+    return new CaptureError('blocked', 'Rate limited by the site (HTTP 429)', { httpStatus: status });
+  }
+  if (status === 403 && response.headers()['cf-mitigated'] === 'challenge') {
+    return new CaptureError('blocked', 'Blocked by a bot challenge (HTTP 403)', { retryable: false, httpStatus: status });
+  }
+  if (status >= 500) {
+    return new CaptureError('http_status', `Page responded with HTTP ${status}`, { httpStatus: status });
+  }
+  return null;
+}
+
+/**
+ * Classify any error thrown while capturing
+ */
+export function classifyError(error) {
+  if (error instanceof CaptureError) return error;
+
+  const message = error?.message || String(error);
+
+  if (error?.name === 'TimeoutError' || /timeout|timed out/i.test(message)) {
+    return new CaptureError('timeout', message);
+  }
+
+  for (const { pattern, code, retryable } of NET_ERRORS) {
+    if (pattern.test(message)) {
+      return new CaptureError(code, message, { retryable });
+    }
+  }
+
+  return new CaptureError('unknown', message);
+}
@@ -0,0 +1,81 @@
+/**
+ * Capture regions
+ *
+ * Turns a job's region options into the clip rectangles passed to
+ * `page.screenshot`, in page coordinates:
+ *
+ * - selector: the first matching element's bounding box, plus `padding`
+ * - selectorAll: one rectangle per matching element, up to MAX_ELEMENT_CAPTURES
+ * - clip: the given rectangle as it is
+ *
+ * Without any of these the whole page (or viewport) is captured, returned as a
+ * single `null` region.
+ */
+
+import { CaptureError } from './capture-errors.js';
+
+const MAX_ELEMENT_CAPTURES = 20;
+
+/**
+ * Resolve the regions to capture on a loaded page
+ *
+ * @param {import('puppeteer').Page} page
+ * @param {object} options - The job's screenshot options
+ * @returns {Promise<Array<{x: number, y: number, width: number, height: number} | null>>}
+ */
+export async function getCaptureRegions(page, options = {}) {
+  const { selector, selectorAll, padding = 0, clip } = options;
+
+  if (clip) {
+    return [clip];
+  }
+
+  const query = selectorAll || selector;
+  if (!query) {
+    return [null];
+  }
+
+  let regions;
+  try {
+    regions = await page.evaluate((query, matchAll, limit) => {
+      const elements = matchAll
+        ? Array.from(document.querySelectorAll(query))
+        : [document.querySelector(query)].filter(Boolean);
+
+      return elements
+        .map((el) => {
+          const rect = el.getBoundingClientRect();
+          return {
+            x: rect.left + window.scrollX,
+            y: rect.top + window.scrollY,
+            width: rect.width,
+            height: rect.height,
+          };
+        })
+        // Hidden elements have no box to capture
+        .filter((rect) => rect.width > 0 && rect.height > 0)
+        .slice(0, limit);
+    }, query, Boolean(selectorAll), MAX_ELEMENT_CAPTURES);
+  } catch (error) {
+    // querySelector throws a SyntaxError for an invalid selector
+    if (/not a valid selector/i.test(error.message)) {
+      throw new CaptureError('selector_not_found', `Invalid selector "${query}"`, { retryable: false });
+    }
+    throw error;
+  }
+
+  if (regions.length === 0) {
+    throw new CaptureError('selector_not_found', `No visible element matches "${query}"`, { retryable: false });
+  }
+
+  return regions.map((rect) => {
+    const x = Math.max(0, rect.x - padding);
+    const y = Math.max(0, rect.y - padding);
+    return {
+      x,
+      y,
+      width: rect.x + rect.width + padding - x,
+      height: rect.y + rect.height + padding - y,
+    };
+  });
+}
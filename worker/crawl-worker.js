@@ -1,19 +1,27 @@
 /**
- * Screaming Frog Crawl Worker
+ * Crawl Worker
  *
  * This worker polls Supabase for pending crawl jobs and processes them
- * using Screaming Frog SEO Spider in headless mode.
+ * using Screaming Frog SEO Spider in headless mode, or the built-in crawler
+ * (native-crawler.js) when the job asks for it or Screaming Frog is not
+ * installed.
  *
  * Requirements:
- * - Screaming Frog SEO Spider installed at /usr/bin/screamingfrogseospider
- * - Valid Screaming Frog license activated
  * - Node.js 18+
+ * - Optional: Screaming Frog SEO Spider installed at /usr/bin/screamingfrogseospider
+ *   with a valid license activated
+ * - Optional: Puppeteer, for crawl jobs that render JavaScript
  *
  * Environment Variables:
  * - SUPABASE_URL: Your Supabase project URL
  * - SUPABASE_SERVICE_KEY: Your Supabase service role key
  * - SF_OUTPUT_DIR: Directory for Screaming Frog output files
  * - POLL_INTERVAL: Polling interval in milliseconds (default: 10000)
+ * - CRAWL_ENGINE: Engine for jobs set to 'auto': auto, screaming_frog or native (default: auto)
+ * - CRAWL_CONCURRENCY: Parallel requests per built-in crawl (default: 4)
+ * - CREDENTIALS_KEY: Key for decrypting project login flows, the same as the API's
+ * - LOGIN_TIMEOUT: Time allowed for each step of a project's login flow in milliseconds (default: 30000)
+ * - WORKER_ID: Name recorded on claimed jobs (default: hostname-pid)
  */
 
 import { createClient } from '@supabase/supabase-js';
@@ -22,7 +30,12 @@ import { readFile, mkdir, rm, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { parse } from 'csv-parse/sync';
 import { join } from 'path';
+import { hostname } from 'os';
 import 'dotenv/config';
+import { notifyJobFinished, processDueDeliveries } from './webhooks.js';
+import { crawlSite, launchBrowser, LoginRequiredError } from './native-crawler.js';
+import { loadLoginFlow, refreshLoginSession } from './login-flows.js';
+import { JOB_LEASE, reapExpiredJobs, releaseWorkerJobs, startHeartbeat } from './job-recovery.js';
 
 // Configuration
 const SUPABASE_URL = process.env.SUPABASE_URL;
@@ -32,6 +45,20 @@ const SF_PATH = process.env.SF_PATH || '/usr/bin/screamingfrogseospider';
 const SF_CONFIG_DIR = process.env.SF_CONFIG_DIR || '/var/screenshotpro/configs';
 const POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || '10000', 10);
 const MAX_CRAWL_TIME = parseInt(process.env.MAX_CRAWL_TIME || '900000', 10); // 15 minutes
+const CRAWL_ENGINE = process.env.CRAWL_ENGINE || 'auto';
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+// Progress is written to the job at most this often (ms)
+const PROGRESS_UPDATE_INTERVAL = 2000;
+// How often a running job is checked for a pause or cancel (ms)
+const STATUS_CHECK_INTERVAL = 5000;
+// Crawl limits of jobs that don't set their own (the crawl_jobs column defaults)
+const DEFAULT_MAX_URLS = 500;
+const DEFAULT_CRAWL_DEPTH = 3;
+
+if (!['auto', 'screaming_frog', 'native'].includes(CRAWL_ENGINE)) {
+  console.error(`Invalid CRAWL_ENGINE: ${CRAWL_ENGINE} (expected auto, screaming_frog or native)`);
+  process.exit(1);
+}
 
 if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
   console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_KEY');
@@ -41,33 +68,210 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
 console.log('='.repeat(50));
-console.log('ScreenshotPro Crawl Worker (Screaming Frog)');
+console.log('ScreenshotPro Crawl Worker');
 console.log('='.repeat(50));
 console.log(`Supabase URL: ${SUPABASE_URL}`);
 console.log(`Output Directory: ${SF_OUTPUT_DIR}`);
 console.log(`Config Directory: ${SF_CONFIG_DIR}`);
 console.log(`Screaming Frog Path: ${SF_PATH}`);
+console.log(`Default Engine: ${CRAWL_ENGINE}`);
+console.log(`Worker ID: ${WORKER_ID}`);
 console.log(`Poll Interval: ${POLL_INTERVAL}ms`);
 console.log(`Max Crawl Time: ${MAX_CRAWL_TIME}ms`);
 console.log('='.repeat(50));
 
+// Set on startup
+let sfAvailable = false;
+
 /**
  * Check if Screaming Frog is installed
  */
 function checkScreamingFrog() {
   if (!existsSync(SF_PATH)) {
-    console.error(`Screaming Frog not found at ${SF_PATH}`);
-    console.error('Please install Screaming Frog SEO Spider');
+    console.warn(`⚠️  Screaming Frog not found at ${SF_PATH}, using the built-in crawler`);
     return false;
   }
   console.log('✅ Screaming Frog found');
   return true;
 }
 
+/**
+ * Whether a job sets a depth, URL count or URL patterns other than the defaults
+ *
+ * The Screaming Frog CLI only reads such limits from a saved config, so it
+ * would crawl the whole site and the rules could only trim its export.
+ */
+function hasCrawlRules(job) {
+  return (job.max_urls ?? DEFAULT_MAX_URLS) !== DEFAULT_MAX_URLS
+    || (job.crawl_depth ?? DEFAULT_CRAWL_DEPTH) !== DEFAULT_CRAWL_DEPTH
+    || job.include_patterns?.length > 0
+    || job.exclude_patterns?.length > 0;
+}
+
+/**
+ * Pick the engine for a job
+ */
+function resolveEngine(job, loginFlow) {
+  if (job.engine && job.engine !== 'auto') {
+    return job.engine;
+  }
+  // Only the built-in crawler renders JavaScript, applies crawl rules and
+  // signs in through login flows, whatever the worker's default
+  if (job.render || hasCrawlRules(job) || loginFlow) {
+    return 'native';
+  }
+  if (CRAWL_ENGINE === 'auto') {
+    return sfAvailable ? 'screaming_frog' : 'native';
+  }
+  return CRAWL_ENGINE;
+}
+
+/**
+ * Raised when a running job is paused or cancelled from the dashboard
+ */
+class JobStoppedError extends Error {
+  constructor(status) {
+    super(`Crawl ${status}`);
+    this.name = 'JobStoppedError';
+    this.status = status;
+  }
+}
+
+/**
+ * Abort a running job when its status is changed to paused or cancelled
+ *
+ * Returns a function that stops watching.
+ */
+function watchJobStatus(jobId, controller) {
+  const interval = setInterval(async () => {
+    const { data, error } = await supabase
+      .from('crawl_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single();
+
+    if (!error && (data.status === 'paused' || data.status === 'cancelled')) {
+      clearInterval(interval);
+      controller.abort(new JobStoppedError(data.status));
+    }
+  }, STATUS_CHECK_INTERVAL);
+
+  return () => clearInterval(interval);
+}
+
+/**
+ * Compile a job's include/exclude patterns
+ */
+function compilePatterns(job) {
+  const compile = (patterns) => (patterns || []).map((pattern) => {
+    try {
+      return new RegExp(pattern);
+    } catch {
+      throw new Error(`Invalid URL pattern: ${pattern}`);
+    }
+  });
+  return { include: compile(job.include_patterns), exclude: compile(job.exclude_patterns) };
+}
+
+/**
+ * Write crawl progress to the job, at most every PROGRESS_UPDATE_INTERVAL
+ *
+ * The ETA extrapolates the crawl rate so far over the queued URLs.
+ */
+function createProgressReporter(jobId) {
+  const startedAt = Date.now();
+  let lastUpdate = 0;
+
+  return async ({ crawled, queued, errors = 0, currentUrl = null }) => {
+    const now = Date.now();
+    if (now - lastUpdate < PROGRESS_UPDATE_INTERVAL) return;
+    lastUpdate = now;
+
+    const rate = crawled / Math.max(1, (now - startedAt) / 1000); // URLs per second
+    const etaAt = rate > 0 ? new Date(now + (queued / rate) * 1000).toISOString() : null;
+
+    const { error } = await supabase
+      .from('crawl_jobs')
+      .update({
+        crawl_progress: crawled,
+        crawl_queued: queued,
+        crawl_total: crawled + queued,
+        crawl_errors: errors,
+        current_url: currentUrl,
+        eta_at: etaAt,
+        progress_updated_at: new Date(now).toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      console.error('Failed to update progress:', error.message);
+    } else {
+      console.log(`Progress update: ${crawled}/${crawled + queued} URLs`);
+    }
+  };
+}
+
+/**
+ * Log in through a project's login flow in a throwaway browser
+ */
+async function logIn(flow) {
+  const browser = await launchBrowser();
+  try {
+    return await refreshLoginSession(supabase, flow, () => browser.newPage());
+  } finally {
+    await browser.close().catch(() => {});
+  }
+}
+
+/**
+ * Run the built-in crawler
+ */
+async function runNativeCrawl(job, loginFlow, signal) {
+  const crawl = (session) => crawlSite({
+    startUrl: job.domain,
+    maxUrls: job.max_urls || DEFAULT_MAX_URLS,
+    maxDepth: job.crawl_depth ?? DEFAULT_CRAWL_DEPTH,
+    ...compilePatterns(job),
+    render: job.render,
+    deadline: Date.now() + MAX_CRAWL_TIME,
+    onProgress: createProgressReporter(job.id),
+    signal,
+    session,
+  });
+
+  // Projects with a login flow are crawled signed in, reusing the session
+  // the screenshot worker cached when there is one
+  let result;
+  if (loginFlow) {
+    const cached = loginFlow.sessionCookies;
+    try {
+      result = await crawl({ loginUrl: loginFlow.loginUrl, cookies: cached || await logIn(loginFlow) });
+    } catch (error) {
+      // A fresh login that lands on the login page again is not retried
+      if (!(error instanceof LoginRequiredError) || !cached) throw error;
+      console.log('Session expired, logging in again...');
+      result = await crawl({ loginUrl: loginFlow.loginUrl, cookies: await logIn(loginFlow) });
+    }
+  } else {
+    result = await crawl(null);
+  }
+
+  console.log(`Crawled ${result.fetched} URLs, ${result.blocked} blocked by robots.txt`);
+  if (result.timedOut) {
+    console.warn(`Crawl stopped after ${MAX_CRAWL_TIME}ms, keeping ${result.urls.length} URLs found so far`);
+  }
+  if (result.urls.length === 0) {
+    throw new Error(`No pages found at ${job.domain}`);
+  }
+
+  return { urls: result.urls, crawled: result.fetched, errors: result.errors };
+}
+
 /**
  * Run Screaming Frog crawl
  */
-async function runCrawl(domain, jobId) {
+async function runCrawl(domain, jobId, signal) {
+  const reportProgress = createProgressReporter(jobId);
   const outputDir = join(SF_OUTPUT_DIR, jobId);
 
   // Clean and create output directory
@@ -85,9 +289,6 @@ async function runCrawl(domain, jobId) {
   const baseConfigPath = join(SF_CONFIG_DIR, 'base.seospiderconfig');
   const hasConfig = existsSync(baseConfigPath);
 
-  // Track last progress update to avoid too many DB writes
-  let lastProgressUpdate = 0;
-
   return new Promise((resolve, reject) => {
     // Ensure domain has protocol
     const crawlUrl = domain.startsWith('http') ? domain : `https://${domain}`;
@@ -123,26 +324,8 @@ async function runCrawl(domain, jobId) {
       // Parse SF progress: "SpiderProgress [mActive=5, mCompleted=100, mWaiting=500"
       const match = output.match(/mCompleted=(\d+),\s*mWaiting=(\d+)/);
       if (match) {
-        const completed = parseInt(match[1]);
-        const waiting = parseInt(match[2]);
-        const total = completed + waiting;
-
-        // Update DB every 50 URLs to reduce writes
-        if (completed - lastProgressUpdate >= 50) {
-          lastProgressUpdate = completed;
-          try {
-            await supabase
-              .from('crawl_jobs')
-              .update({
-                crawl_progress: completed,
-                crawl_total: total
-              })
-              .eq('id', jobId);
-            console.log(`Progress update: ${completed}/${total} URLs`);
-          } catch (err) {
-            console.error('Failed to update progress:', err.message);
-          }
-        }
+        // Errors are only known from the export, once the crawl finishes
+        await reportProgress({ crawled: parseInt(match[1]), queued: parseInt(match[2]) });
       }
     });
 
@@ -163,19 +346,32 @@ async function runCrawl(domain, jobId) {
       reject(err);
     });
 
-    // Timeout handler
-    const timeout = setTimeout(() => {
+    const stopProcess = () => {
       sfProcess.kill('SIGTERM');
       setTimeout(() => {
-        if (!sfProcess.killed) {
+        if (sfProcess.exitCode === null && sfProcess.signalCode === null) {
           sfProcess.kill('SIGKILL');
         }
       }, 5000);
+    };
+
+    // Timeout handler
+    const timeout = setTimeout(() => {
+      stopProcess();
       reject(new Error(`Crawl timed out after ${MAX_CRAWL_TIME}ms`));
     }, MAX_CRAWL_TIME);
 
+    // Paused or cancelled from the dashboard
+    const onAbort = () => {
+      console.log('Stopping Screaming Frog');
+      stopProcess();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
     sfProcess.on('close', () => {
       clearTimeout(timeout);
+      signal.removeEventListener('abort', onAbort);
     });
   });
 }
@@ -226,26 +422,68 @@ async function parseCSVFile(csvPath) {
     bom: true,
   });
 
-  const urls = [];
+  const pages = [];
+  let errors = 0;
 
   for (const record of records) {
     // Screaming Frog uses "Address" column for URLs
     const url = record['Address'] || record['URL'] || record['address'] || record['url'];
     const statusCode = record['Status Code'] || record['status_code'];
     const contentType = record['Content Type'] || record['content_type'];
+    const depth = record['Crawl Depth'] || record['crawl_depth'];
+
+    // No response (status 0), client and server errors
+    if (statusCode && !/^[23]/.test(statusCode)) {
+      errors++;
+    }
 
     if (url && url.startsWith('http')) {
       // Only include successful HTML pages
       if (!statusCode || statusCode === '200') {
         if (!contentType || contentType.includes('text/html')) {
-          urls.push(url);
+          pages.push({ url, depth: depth ? parseInt(depth, 10) : null });
         }
       }
     }
   }
 
-  console.log(`Found ${urls.length} URLs`);
-  return [...new Set(urls)]; // Remove duplicates
+  console.log(`Found ${pages.length} URLs`);
+  // Remove duplicates
+  const seen = new Set();
+  return {
+    pages: pages.filter((page) => !seen.has(page.url) && seen.add(page.url)),
+    crawled: records.length,
+    errors,
+  };
+}
+
+/**
+ * Hold Screaming Frog results to the default crawl depth and URL limit
+ *
+ * Screaming Frog jobs never carry other rules: the API rejects them for jobs
+ * that ask for it and 'auto' jobs with rules use the built-in crawler.
+ */
+function applyCrawlRules(job, pages) {
+  const maxDepth = job.crawl_depth ?? DEFAULT_CRAWL_DEPTH;
+  const { include, exclude } = compilePatterns(job);
+
+  const urls = pages
+    .filter((page) => page.depth === null || page.depth <= maxDepth)
+    .map((page) => page.url)
+    .filter((url) => include.length === 0 || include.some((pattern) => pattern.test(url)))
+    .filter((url) => !exclude.some((pattern) => pattern.test(url)));
+
+  if (urls.length < pages.length) {
+    console.log(`Crawl rules kept ${urls.length} of ${pages.length} URLs`);
+  }
+
+  // Enforce max_urls limit from database
+  const maxUrls = job.max_urls || DEFAULT_MAX_URLS;
+  if (urls.length > maxUrls) {
+    console.log(`Limiting URLs from ${urls.length} to ${maxUrls}`);
+    return urls.slice(0, maxUrls);
+  }
+  return urls;
 }
 
 /**
@@ -255,87 +493,184 @@ async function processCrawlJob(job) {
   console.log(`\nProcessing job ${job.id}`);
   console.log(`Domain: ${job.domain}`);
 
+  const controller = new AbortController();
+  let stopWatching = () => {};
+  const stopHeartbeat = startHeartbeat(supabase, 'crawl', job.id, WORKER_ID);
+
   try {
-    // Update job status to processing
-    await supabase
+    const loginFlow = await loadLoginFlow(supabase, job);
+    const engine = resolveEngine(job, loginFlow);
+    console.log(`Engine: ${engine}${job.render ? ' (rendering JavaScript)' : ''}`);
+
+    // Reset progress left over from an earlier attempt
+    const { data: claimed, error: claimError } = await supabase
       .from('crawl_jobs')
       .update({
-        status: 'processing',
-        started_at: new Date().toISOString(),
+        engine_used: engine,
+        crawl_progress: 0,
+        crawl_queued: 0,
+        crawl_total: 0,
+        crawl_errors: 0,
+        current_url: null,
+        eta_at: null,
       })
-      .eq('id', job.id);
+      .eq('id', job.id)
+      .eq('worker_id', WORKER_ID)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      console.log(`Job ${job.id} was stopped before it started, skipping`);
+      return { success: false, skipped: true };
+    }
 
-    // Run the crawl
-    const { outputDir } = await runCrawl(job.domain, job.id);
+    stopWatching = watchJobStatus(job.id, controller);
+
+    let urls;
+    let stats;
+    let outputDir = null;
+    if (engine === 'native') {
+      ({ urls, ...stats } = await runNativeCrawl(job, loginFlow, controller.signal));
+    } else {
+      if (!sfAvailable) {
+        throw new Error('Screaming Frog is not installed on this worker');
+      }
+      // It would crawl signed out and find only the public pages
+      if (loginFlow) {
+        throw new Error('Screaming Frog cannot use the project\'s login flow; crawl with the built-in crawler');
+      }
+      // It would crawl the whole site and only trim the export
+      if (hasCrawlRules(job)) {
+        throw new Error('Screaming Frog cannot apply crawl rules; crawl with the built-in crawler');
+      }
 
-    // Parse the results
-    let urls = await parseCSVOutput(outputDir);
+      // Run the crawl
+      ({ outputDir } = await runCrawl(job.domain, job.id, controller.signal));
 
-    // Enforce max_urls limit from database
-    const maxUrls = job.max_urls || 500;
-    if (urls.length > maxUrls) {
-      console.log(`Limiting URLs from ${urls.length} to ${maxUrls}`);
-      urls = urls.slice(0, maxUrls);
+      // Parse the results
+      const { pages, ...csvStats } = await parseCSVOutput(outputDir);
+      urls = applyCrawlRules(job, pages);
+      stats = csvStats;
     }
 
-    // Update job with results
-    await supabase
+    stopWatching();
+
+    // Update job with results, unless it was stopped as the crawl finished
+    const { data: completedJob } = await supabase
       .from('crawl_jobs')
       .update({
         status: 'completed',
         discovered_urls: urls,
+        crawl_progress: stats.crawled,
+        crawl_queued: 0,
+        crawl_total: stats.crawled,
+        crawl_errors: stats.errors,
+        current_url: null,
+        eta_at: null,
+        progress_updated_at: new Date().toISOString(),
+        lease_expires_at: null,
         completed_at: new Date().toISOString(),
       })
-      .eq('id', job.id);
+      .eq('id', job.id)
+      .eq('status', 'processing')
+      .eq('worker_id', WORKER_ID)
+      .select()
+      .maybeSingle();
+
+    if (!completedJob) {
+      throw new JobStoppedError('stopped');
+    }
+
+    await notifyJobFinished(supabase, 'crawl', completedJob);
 
     // Update associated sitemap job if exists
     if (job.sitemap_job_id) {
-      await supabase
+      const { data: sitemapJob } = await supabase
         .from('sitemap_jobs')
         .update({
           status: 'completed',
           urls,
-          source: 'screaming_frog',
+          source: engine === 'native' ? 'crawler' : 'screaming_frog',
           completed_at: new Date().toISOString(),
         })
-        .eq('id', job.sitemap_job_id);
+        .eq('id', job.sitemap_job_id)
+        .select()
+        .single();
+
+      await notifyJobFinished(supabase, 'sitemap', sitemapJob);
     }
 
     // Cleanup output directory
-    try {
-      await rm(outputDir, { recursive: true, force: true });
-    } catch (cleanupErr) {
-      console.warn(`Failed to cleanup ${outputDir}:`, cleanupErr.message);
+    if (outputDir) {
+      try {
+        await rm(outputDir, { recursive: true, force: true });
+      } catch (cleanupErr) {
+        console.warn(`Failed to cleanup ${outputDir}:`, cleanupErr.message);
+      }
     }
 
     console.log(`Job ${job.id} completed with ${urls.length} URLs`);
     return { success: true, urlCount: urls.length };
   } catch (error) {
+    stopWatching();
+
+    // The job's status was already set by whoever paused or cancelled it
+    if (error instanceof JobStoppedError) {
+      console.log(`Job ${job.id}: ${error.message}`);
+      try {
+        await rm(join(SF_OUTPUT_DIR, job.id), { recursive: true, force: true });
+      } catch (cleanupErr) {
+        console.warn(`Failed to cleanup output for ${job.id}:`, cleanupErr.message);
+      }
+      return { success: false, stopped: error.status };
+    }
+
     console.error(`Job ${job.id} failed:`, error.message);
 
     // Update job with error
-    await supabase
+    const { data: failedJob } = await supabase
       .from('crawl_jobs')
       .update({
         status: 'failed',
         error_message: error.message,
+        current_url: null,
+        eta_at: null,
+        lease_expires_at: null,
         completed_at: new Date().toISOString(),
       })
-      .eq('id', job.id);
+      .eq('id', job.id)
+      .eq('status', 'processing')
+      .eq('worker_id', WORKER_ID)
+      .select()
+      .maybeSingle();
+
+    if (!failedJob) {
+      console.log(`Job ${job.id} was stopped before it failed`);
+      return { success: false, error: error.message };
+    }
+
+    await notifyJobFinished(supabase, 'crawl', failedJob);
 
     // Update associated sitemap job if exists
     if (job.sitemap_job_id) {
-      await supabase
+      const { data: sitemapJob } = await supabase
         .from('sitemap_jobs')
         .update({
           status: 'failed',
           error_message: error.message,
           completed_at: new Date().toISOString(),
         })
-        .eq('id', job.sitemap_job_id);
+        .eq('id', job.sitemap_job_id)
+        .select()
+        .single();
+
+      await notifyJobFinished(supabase, 'sitemap', sitemapJob);
     }
 
     return { success: false, error: error.message };
+  } finally {
+    stopHeartbeat();
   }
 }
 
@@ -344,16 +679,18 @@ async function processCrawlJob(job) {
  */
 async function pollForJobs() {
   try {
-    // Get pending crawl jobs
-    const { data: jobs, error } = await supabase
-      .from('crawl_jobs')
-      .select('*')
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true })
-      .limit(1);
+    // Requeue jobs left behind by workers that crashed
+    await reapExpiredJobs(supabase, 'crawl');
+
+    // Claim the oldest pending crawl job; other workers skip the locked row
+    const { data: jobs, error } = await supabase.rpc('claim_crawl_jobs', {
+      p_worker_id: WORKER_ID,
+      p_limit: 1,
+      p_lease_seconds: Math.ceil(JOB_LEASE / 1000),
+    });
 
     if (error) {
-      console.error('Error fetching jobs:', error.message);
+      console.error('Error claiming jobs:', error.message);
       return;
     }
 
@@ -361,6 +698,9 @@ async function pollForJobs() {
       const job = jobs[0];
       await processCrawlJob(job);
     }
+
+    // Retry webhook deliveries whose backoff has elapsed
+    await processDueDeliveries(supabase);
   } catch (error) {
     console.error('Poll error:', error.message);
   }
@@ -371,8 +711,9 @@ async function pollForJobs() {
  */
 async function main() {
   // Check Screaming Frog installation
-  if (!checkScreamingFrog()) {
-    console.error('Cannot start worker without Screaming Frog');
+  sfAvailable = checkScreamingFrog();
+  if (!sfAvailable && CRAWL_ENGINE === 'screaming_frog') {
+    console.error('Cannot start worker without Screaming Frog (CRAWL_ENGINE=screaming_frog)');
     process.exit(1);
   }
 
@@ -390,15 +731,15 @@ async function main() {
 }
 
 // Handle shutdown gracefully
-process.on('SIGINT', () => {
+// Running crawls are returned to the queue for another worker
+async function shutdown() {
   console.log('\nShutting down worker...');
+  await releaseWorkerJobs(supabase, 'crawl', WORKER_ID);
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  console.log('\nShutting down worker...');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // Start worker
 main().catch((err) => {
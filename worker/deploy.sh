@@ -83,6 +83,7 @@ echo ""
 echo "4. Start the worker:"
 echo "   cd /opt/screenshotpro-worker"
 echo "   pm2 start crawl-worker.js --name sf-worker"
+echo "   pm2 start scheduler.js --name scheduler"
 echo "   pm2 save"
 echo "   pm2 startup"
 echo ""
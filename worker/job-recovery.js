@@ -0,0 +1,134 @@
+/**
+ * Job leases and recovery
+ *
+ * Shared by the screenshot and crawl workers. A worker claims a job with a
+ * lease (`lease_expires_at`) and renews it with a heartbeat while it works. If
+ * the worker crashes or is killed, the lease runs out and `reapExpiredJobs`,
+ * called from each poll tick, returns the job to `pending` or, once it has been
+ * claimed MAX_JOB_ATTEMPTS times (a screenshot job's own `max_attempts`), fails
+ * it. Jobs held by a worker that shuts down cleanly are released straight away
+ * by `releaseWorkerJobs`.
+ *
+ * Environment Variables:
+ * - JOB_LEASE: Lease length in milliseconds, renewed every quarter lease (default: 60000)
+ * - MAX_JOB_ATTEMPTS: Claims before an abandoned crawl job is failed (default: 3)
+ */
+
+import { notifyJobFinished } from './webhooks.js';
+
+export const JOB_LEASE = parseInt(process.env.JOB_LEASE || '60000', 10);
+const MAX_JOB_ATTEMPTS = parseInt(process.env.MAX_JOB_ATTEMPTS || '3', 10);
+const HEARTBEAT_INTERVAL = Math.max(1000, Math.floor(JOB_LEASE / 4));
+
+const TABLES = {
+  screenshot: 'screenshot_jobs',
+  crawl: 'crawl_jobs',
+};
+
+/**
+ * Renew a claimed job's lease until the returned function is called
+ */
+export function startHeartbeat(supabase, jobType, jobId, workerId) {
+  const interval = setInterval(async () => {
+    const now = Date.now();
+    const { error } = await supabase
+      .from(TABLES[jobType])
+      .update({
+        heartbeat_at: new Date(now).toISOString(),
+        lease_expires_at: new Date(now + JOB_LEASE).toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('worker_id', workerId)
+      .eq('status', 'processing');
+
+    if (error) {
+      console.error(`Heartbeat for ${jobType} job ${jobId} failed:`, error.message);
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  return () => clearInterval(interval);
+}
+
+/**
+ * Requeue or fail jobs whose lease has expired
+ *
+ * @param {object} supabase - Supabase client (service role)
+ * @param {'screenshot' | 'crawl'} jobType
+ */
+export async function reapExpiredJobs(supabase, jobType) {
+  try {
+    // Screenshot jobs carry their own max_attempts
+    const { data: jobs, error } = await supabase.rpc(
+      `reap_${TABLES[jobType]}`,
+      jobType === 'crawl' ? { p_max_attempts: MAX_JOB_ATTEMPTS } : {}
+    );
+
+    if (error) {
+      console.error(`Error reaping ${jobType} jobs:`, error.message);
+      return;
+    }
+
+    for (const job of jobs || []) {
+      if (job.status === 'pending') {
+        console.warn(`♻️  Requeued ${jobType} job ${job.id} after its worker stopped responding (attempt ${job.attempts})`);
+        continue;
+      }
+
+      console.warn(`❌ Failed ${jobType} job ${job.id}: ${job.error_message}`);
+      await notifyJobFinished(supabase, jobType, job);
+
+      // The sitemap job waiting on a crawl fails with it
+      if (jobType === 'crawl' && job.sitemap_job_id) {
+        const { data: sitemapJob } = await supabase
+          .from('sitemap_jobs')
+          .update({
+            status: 'failed',
+            error_message: job.error_message,
+            completed_at: new Date().toISOString(),
+          })
+          .eq('id', job.sitemap_job_id)
+          .in('status', ['pending', 'processing'])
+          .select()
+          .maybeSingle();
+
+        await notifyJobFinished(supabase, 'sitemap', sitemapJob);
+      }
+    }
+  } catch (error) {
+    console.error(`Reaper error (${jobType}):`, error.message);
+  }
+}
+
+/**
+ * Return a worker's processing jobs to the queue, on shutdown
+ *
+ * The attempt is not counted against the job.
+ */
+export async function releaseWorkerJobs(supabase, jobType, workerId) {
+  const { data: jobs, error } = await supabase
+    .from(TABLES[jobType])
+    .select('id, attempts')
+    .eq('worker_id', workerId)
+    .eq('status', 'processing');
+
+  if (error) {
+    console.error(`Failed to release ${jobType} jobs:`, error.message);
+    return;
+  }
+
+  for (const job of jobs || []) {
+    await supabase
+      .from(TABLES[jobType])
+      .update({
+        status: 'pending',
+        worker_id: null,
+        lease_expires_at: null,
+        attempts: Math.max(0, job.attempts - 1),
+      })
+      .eq('id', job.id)
+      .eq('worker_id', workerId)
+      .eq('status', 'processing');
+
+    console.log(`Released ${jobType} job ${job.id}`);
+  }
+}
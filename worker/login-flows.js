@@ -0,0 +1,180 @@
+/**
+ * Login flows
+ *
+ * Shared by the screenshot and crawl workers. A project's login flow
+ * (project_login_flows) is a recipe for signing in through a login form:
+ * open `login_url`, type the username and password into their fields, click
+ * `submit_selector` (or press Enter) and wait for `success_selector`.
+ *
+ * The cookies of a successful login are cached on the flow, encrypted, so
+ * captures in other browser contexts, other workers and the built-in crawler
+ * reuse the session instead of logging in again. A capture that lands back on
+ * the login page logs in again and replaces the cached session.
+ *
+ * Environment Variables:
+ * - LOGIN_TIMEOUT: Time allowed for each login step in milliseconds (default: 30000)
+ */
+
+import { CaptureError } from './capture-errors.js';
+import { decryptSecret, encryptSecret } from './capture-auth.js';
+
+const LOGIN_TIMEOUT = parseInt(process.env.LOGIN_TIMEOUT || '30000', 10);
+
+// Cookie fields page.setCookie accepts
+const COOKIE_FIELDS = ['name', 'value', 'domain', 'path', 'expires', 'httpOnly', 'secure', 'sameSite'];
+
+/**
+ * Load the login flow of a job's project with its secrets and cached session,
+ * or null. The flow must belong to the job's owner.
+ */
+export async function loadLoginFlow(supabase, job) {
+  if (!job.project_id) return null;
+
+  const { data: flow, error } = await supabase
+    .from('project_login_flows')
+    .select('project_id, user_id, login_url, username_selector, password_selector, submit_selector, success_selector, secrets, session')
+    .eq('project_id', job.project_id)
+    .eq('user_id', job.user_id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load login flow: ${error.message}`);
+  if (!flow) return null;
+
+  return {
+    projectId: flow.project_id,
+    userId: flow.user_id,
+    loginUrl: flow.login_url,
+    usernameSelector: flow.username_selector,
+    passwordSelector: flow.password_selector,
+    submitSelector: flow.submit_selector,
+    successSelector: flow.success_selector,
+    ...decryptSecret(flow.secrets),
+    sessionCookies: flow.session ? decryptSecret(flow.session) : null,
+  };
+}
+
+/**
+ * Whether a URL is the flow's login page, i.e. the session has expired
+ */
+export function isLoginPage(url, flow) {
+  try {
+    const current = new URL(url);
+    const login = new URL(flow.loginUrl);
+    return current.host === login.host && current.pathname.replace(/\/$/, '') === login.pathname.replace(/\/$/, '');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cookie header value for the session cookies that apply to a URL, or null
+ *
+ * For fetches outside a browser, such as the built-in crawler's.
+ */
+export function getCookieHeader(cookies, url) {
+  let target;
+  try {
+    target = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const now = Date.now() / 1000;
+  const matching = (cookies || []).filter((cookie) => {
+    const domain = (cookie.domain || '').replace(/^\./, '');
+    const domainMatches = target.hostname === domain || target.hostname.endsWith(`.${domain}`);
+    const pathMatches = target.pathname.startsWith(cookie.path || '/');
+    const expired = cookie.expires > 0 && cookie.expires < now;
+    return domainMatches && pathMatches && !expired && (!cookie.secure || target.protocol === 'https:');
+  });
+
+  return matching.length > 0 ? matching.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ') : null;
+}
+
+/**
+ * Sign in on a page and return the session cookies
+ *
+ * Throws a `login_failed` CaptureError; only timeouts are retried.
+ */
+export async function performLogin(page, flow) {
+  const step = async (description, action) => {
+    try {
+      return await action();
+    } catch (error) {
+      throw new CaptureError('login_failed', `Login failed to ${description}: ${error.message}`, {
+        retryable: error.name === 'TimeoutError',
+      });
+    }
+  };
+
+  console.log(`   🔑 Logging in at ${flow.loginUrl}`);
+  await step('open the login page', () => page.goto(flow.loginUrl, { waitUntil: 'networkidle2', timeout: LOGIN_TIMEOUT }));
+
+  await step('fill in the username', async () => {
+    const field = await page.waitForSelector(flow.usernameSelector, { visible: true, timeout: LOGIN_TIMEOUT });
+    await field.type(flow.username);
+  });
+
+  const passwordField = await step('fill in the password', async () => {
+    const field = await page.waitForSelector(flow.passwordSelector, { visible: true, timeout: LOGIN_TIMEOUT });
+    await field.type(flow.password);
+    return field;
+  });
+
+  await step('submit the form', async () => {
+    if (flow.submitSelector) {
+      const submit = await page.waitForSelector(flow.submitSelector, { visible: true, timeout: LOGIN_TIMEOUT });
+      await submit.click();
+    } else {
+      await passwordField.press('Enter');
+    }
+  });
+
+  await step('reach the signed-in page', () =>
+    page.waitForSelector(flow.successSelector, { timeout: LOGIN_TIMEOUT })
+  );
+
+  // Cookies of the login host and wherever the login landed
+  const cookies = await page.cookies(flow.loginUrl, page.url());
+  const unique = new Map(cookies.map((cookie) => [`${cookie.domain}|${cookie.path}|${cookie.name}`, cookie]));
+  return [...unique.values()].map((cookie) =>
+    Object.fromEntries(COOKIE_FIELDS.filter((field) => cookie[field] !== undefined).map((field) => [field, cookie[field]]))
+  );
+}
+
+/**
+ * Cache a login's session cookies on the flow, or record why it failed
+ */
+export async function saveLoginResult(supabase, flow, { cookies = null, error = null }) {
+  const updates = cookies
+    ? { session: encryptSecret(cookies), session_updated_at: new Date().toISOString(), last_error: null }
+    : { session: null, session_updated_at: null, last_error: error };
+
+  const { error: updateError } = await supabase
+    .from('project_login_flows')
+    .update(updates)
+    .eq('project_id', flow.projectId)
+    .eq('user_id', flow.userId);
+
+  if (updateError) {
+    console.error(`Failed to save login session for project ${flow.projectId}:`, updateError.message);
+  }
+}
+
+/**
+ * Log in with a fresh page from `openPage`, cache the session and return its cookies
+ */
+export async function refreshLoginSession(supabase, flow, openPage) {
+  const page = await openPage();
+  try {
+    const cookies = await performLogin(page, flow);
+    await saveLoginResult(supabase, flow, { cookies });
+    console.log(`   🔑 Logged in for project ${flow.projectId}`);
+    return cookies;
+  } catch (error) {
+    await saveLoginResult(supabase, flow, { error: error.message });
+    throw error;
+  } finally {
+    await page.close();
+  }
+}
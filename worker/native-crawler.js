@@ -0,0 +1,422 @@
+/**
+ * Built-in crawler
+ *
+ * Alternative to Screaming Frog for crawl jobs: a breadth-first crawl from the
+ * start URL that fetches pages and extracts their links, optionally rendering
+ * them in headless Chrome first so client-side links are found. Only
+ * same-origin HTML pages returning 200 are collected, robots.txt is honoured
+ * and the crawl stops at `maxUrls` pages or `maxDepth` links from the start.
+ * Include/exclude regex patterns limit which URLs are collected and followed;
+ * the start page is always fetched so its links can be followed.
+ *
+ * With a `session` from a project's login flow, pages are fetched with its
+ * cookies; pages that redirect to the login form are skipped, and a start page
+ * that does fails the crawl with LoginRequiredError so the session can be
+ * renewed.
+ */
+
+import { getCookieHeader, isLoginPage } from './login-flows.js';
+
+const USER_AGENT = 'ScreenshotPro Crawler';
+const ROBOTS_AGENT = 'screenshotpro';
+const FETCH_TIMEOUT = 15000;
+const RENDER_TIMEOUT = 30000;
+const MAX_CRAWL_DELAY = 10000;
+const CRAWL_CONCURRENCY = parseInt(process.env.CRAWL_CONCURRENCY || '4', 10);
+// Non-HTML responses and redirects count against this, so it is a multiple of maxUrls
+const FETCH_BUDGET_FACTOR = 3;
+
+// Links to these are never pages
+const ASSET_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|svg|ico|bmp|tiff?|css|js|mjs|json|xml|rss|atom|txt|pdf|docx?|xlsx?|pptx?|zip|rar|gz|tar|7z|mp3|wav|ogg|mp4|m4v|mov|avi|webm|woff2?|ttf|otf|eot|exe|dmg|apk)$/i;
+
+/**
+ * Parse the robots.txt rules that apply to this crawler
+ *
+ * Uses the group naming our user agent if there is one, otherwise the `*` group.
+ */
+export function parseRobotsTxt(robotsTxt) {
+  const groups = [];
+  let current = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay > 0) {
+        current.crawlDelay = Math.min(delay * 1000, MAX_CRAWL_DELAY);
+      }
+    }
+  }
+
+  // Agents are lower-cased when parsed, so this compares the product token exactly
+  const group = groups.find((g) => g.agents.includes(ROBOTS_AGENT))
+    || groups.find((g) => g.agents.includes('*'));
+
+  return { rules: group?.rules || [], crawlDelay: group?.crawlDelay || 0 };
+}
+
+/**
+ * Match a robots.txt path pattern (supports `*` and a trailing `$`)
+ */
+function matchesRobotsPath(pattern, path) {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether robots.txt allows a path; the longest matching rule wins, Allow on ties
+ */
+export function isAllowedByRobots(robots, path) {
+  let best = null;
+  for (const rule of robots.rules) {
+    if (!matchesRobotsPath(rule.path, path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return !best || best.allow;
+}
+
+async function fetchRobots(origin) {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    if (!response.ok) return { rules: [], crawlDelay: 0 };
+    return parseRobotsTxt(await response.text());
+  } catch {
+    return { rules: [], crawlDelay: 0 };
+  }
+}
+
+function decodeEntities(value) {
+  return value
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0*39;|&apos;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>');
+}
+
+/**
+ * Extract link targets from HTML, resolved against the page (or its <base href>)
+ */
+export function extractLinks(html, pageUrl) {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  let baseUrl = pageUrl;
+  const baseMatch = withoutComments.match(/<base\s[^>]*href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  if (baseMatch) {
+    try {
+      baseUrl = new URL(decodeEntities(baseMatch[1] ?? baseMatch[2] ?? baseMatch[3]), pageUrl).href;
+    } catch {
+      // Keep the page URL
+    }
+  }
+
+  const links = [];
+  const linkRegex = /<(?:a|area)\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi;
+  let match;
+  while ((match = linkRegex.exec(withoutComments)) !== null) {
+    const tag = match[0];
+    if (/\srel\s*=\s*["']?[^"'>]*\bnofollow\b/i.test(tag) || /\sdownload[\s=>]/i.test(tag)) continue;
+
+    const href = decodeEntities((match[1] ?? match[2] ?? match[3]).trim());
+    if (!href || /^(javascript|mailto|tel|data):/i.test(href)) continue;
+
+    try {
+      links.push(new URL(href, baseUrl).href);
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+  return links;
+}
+
+/**
+ * Canonical form used to de-duplicate URLs: no fragment
+ */
+function normalizeUrl(url) {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/**
+ * Fetch a page without rendering
+ */
+async function fetchPage(url, session) {
+  const cookie = session ? getCookieHeader(session.cookies, url) : null;
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml',
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  });
+
+  const contentType = response.headers.get('content-type') || '';
+  const isHtml = contentType.includes('text/html') || contentType.includes('application/xhtml+xml');
+
+  return {
+    status: response.status,
+    finalUrl: response.url || url,
+    isHtml,
+    html: response.ok && isHtml ? await response.text() : null,
+  };
+}
+
+/**
+ * Load and render a page in headless Chrome
+ */
+async function renderPage(browser, url, session) {
+  const page = await browser.newPage();
+  try {
+    await page.setUserAgent(USER_AGENT);
+    if (session?.cookies.length) {
+      await page.setCookie(...session.cookies);
+    }
+    // Skip heavy resources; only the DOM is needed
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (['image', 'media', 'font'].includes(request.resourceType())) {
+        request.abort();
+      } else {
+        request.continue();
+      }
+    });
+
+    const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: RENDER_TIMEOUT });
+    const contentType = response?.headers()['content-type'] || '';
+    const isHtml = contentType.includes('text/html') || contentType.includes('application/xhtml+xml');
+    const status = response?.status() ?? 0;
+
+    return {
+      status,
+      finalUrl: page.url(),
+      isHtml,
+      html: status === 200 && isHtml ? await page.content() : null,
+    };
+  } finally {
+    await page.close();
+  }
+}
+
+export async function launchBrowser() {
+  // Loaded lazily so crawls without rendering don't need Chromium
+  const { default: puppeteer } = await import('puppeteer');
+  return puppeteer.launch({
+    headless: 'new',
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+    ],
+  });
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class LoginRequiredError extends Error {
+  constructor(url) {
+    super(`${url} redirected to the login page`);
+    this.name = 'LoginRequiredError';
+  }
+}
+
+/**
+ * Crawl a site
+ *
+ * `include` and `exclude` are arrays of RegExp tested against the full URL.
+ * Returns the discovered page URLs in crawl order. When `deadline` (epoch ms)
+ * passes, the pages found so far are returned with `timedOut` set.
+ * `onProgress({ crawled, queued, errors, currentUrl })` is called after each
+ * URL; `queued` counts URLs waiting, up to the number still allowed.
+ * Aborting `signal` stops the crawl between URLs and rejects with its reason.
+ * `session` ({ cookies, loginUrl }) crawls as a signed-in user.
+ */
+export async function crawlSite({
+  startUrl,
+  maxUrls = 500,
+  maxDepth = 3,
+  include = [],
+  exclude = [],
+  render = false,
+  deadline = Infinity,
+  onProgress,
+  signal,
+  session = null,
+}) {
+  let start = normalizeUrl(startUrl.startsWith('http') ? startUrl : `https://${startUrl}`);
+
+  // Follow a redirect on the start URL (e.g. to www or https) to pin the origin
+  try {
+    const cookie = session ? getCookieHeader(session.cookies, start) : null;
+    const response = await fetch(start, {
+      method: 'HEAD',
+      headers: { 'User-Agent': USER_AGENT, ...(cookie ? { Cookie: cookie } : {}) },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    if (response.url) start = normalizeUrl(response.url);
+  } catch {
+    // Let the crawl report the failure when fetching the page
+  }
+
+  const origin = new URL(start).origin;
+  const robots = await fetchRobots(origin);
+  // A Crawl-delay allows one request per delay, so those sites are crawled one page at a time
+  const concurrency = render || robots.crawlDelay > 0 ? 1 : Math.max(1, CRAWL_CONCURRENCY);
+  const fetchBudget = maxUrls * FETCH_BUDGET_FACTOR;
+
+  const seen = new Set([start]);
+  const pages = [];
+  let frontier = [start];
+  let fetched = 0;
+  let blocked = 0;
+  let errors = 0;
+  let timedOut = false;
+
+  const browser = render ? await launchBrowser() : null;
+
+  const matchesPatterns = (url) =>
+    (include.length === 0 || include.some((pattern) => pattern.test(url)))
+    && !exclude.some((pattern) => pattern.test(url));
+
+  // The start page (and its redirect) is fetched whatever the patterns say
+  const isCrawlable = (url, isStart = false) => {
+    const parsed = new URL(url);
+    if (parsed.origin !== origin) return false;
+    if (ASSET_EXTENSIONS.test(parsed.pathname)) return false;
+    if (!isStart && !matchesPatterns(url)) return false;
+    if (!isAllowedByRobots(robots, parsed.pathname + parsed.search)) {
+      blocked++;
+      return false;
+    }
+    return true;
+  };
+
+  try {
+    if (!isCrawlable(start, true)) {
+      throw new Error(`robots.txt disallows crawling ${start}`);
+    }
+
+    // Fetch a URL, collect it if it is a page and queue its links
+    const visit = async (url, depth, next) => {
+      let result;
+      try {
+        result = browser ? await renderPage(browser, url, session) : await fetchPage(url, session);
+      } catch (error) {
+        errors++;
+        console.warn(`   ⚠️  ${url}: ${error.message}`);
+        return;
+      }
+
+      if (result.status >= 400) {
+        errors++;
+        return;
+      }
+
+      const finalUrl = normalizeUrl(result.finalUrl);
+
+      // An expired session sends pages to the login form
+      if (session && isLoginPage(finalUrl, session)) {
+        if (depth === 0) throw new LoginRequiredError(url);
+        return;
+      }
+
+      // A redirect may leave the site or land on a page already seen
+      if (finalUrl !== url) {
+        if (seen.has(finalUrl) || !isCrawlable(finalUrl, depth === 0)) return;
+        seen.add(finalUrl);
+      }
+
+      if (result.status !== 200 || !result.isHtml || pages.length >= maxUrls) return;
+
+      if (depth > 0 || matchesPatterns(finalUrl)) {
+        pages.push(finalUrl);
+      }
+
+      if (depth < maxDepth) {
+        for (const link of extractLinks(result.html, finalUrl)) {
+          const linkUrl = normalizeUrl(link);
+          if (seen.has(linkUrl) || !isCrawlable(linkUrl)) continue;
+          seen.add(linkUrl);
+          next.push(linkUrl);
+        }
+      }
+    };
+
+    for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next = [];
+      let index = 0;
+
+      const crawlNext = async () => {
+        while (index < frontier.length && pages.length < maxUrls && fetched < fetchBudget) {
+          signal?.throwIfAborted();
+          if (Date.now() >= deadline) {
+            timedOut = true;
+            return;
+          }
+
+          const url = frontier[index++];
+          fetched++;
+          await visit(url, depth, next);
+
+          if (onProgress) {
+            await onProgress({
+              crawled: fetched,
+              queued: Math.min(frontier.length - index + next.length, fetchBudget - fetched, maxUrls - pages.length),
+              errors,
+              currentUrl: url,
+            });
+          }
+
+          if (robots.crawlDelay) {
+            await sleep(robots.crawlDelay);
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: concurrency }, crawlNext));
+
+      if (timedOut || pages.length >= maxUrls || fetched >= fetchBudget) break;
+      frontier = next;
+    }
+  } finally {
+    if (browser) await browser.close();
+  }
+
+  return { urls: pages, fetched, blocked, errors, timedOut };
+}
@@ -0,0 +1,116 @@
+/**
+ * Pre-capture actions
+ *
+ * Runs a job's `actions` in order on the loaded page, after page injection and
+ * before the capture delay. Each step is recorded in `results`, which is
+ * stored on the job as `action_results`:
+ *
+ *   { type, status: 'completed' | 'failed' | 'skipped', durationMs, error? }
+ *
+ * The first failing step stops the run, marks the rest skipped and fails the
+ * capture with `action_failed`. Steps that timed out waiting for the page are
+ * retried with the job; anything else (a bad key name, a missing element
+ * after the page settled) is not. Typed text is never logged.
+ *
+ * Environment Variables:
+ * - ACTION_TIMEOUT: Default time a step waits for its element, in milliseconds (default: 10000)
+ */
+
+import { CaptureError } from './capture-errors.js';
+
+const ACTION_TIMEOUT = parseInt(process.env.ACTION_TIMEOUT || '10000', 10);
+const NETWORK_IDLE_TIME = 500;
+
+/**
+ * Wait for a step's element to be visible and return its handle
+ */
+function waitForElement(page, action) {
+  return page.waitForSelector(action.selector, {
+    visible: true,
+    timeout: action.timeout || ACTION_TIMEOUT,
+  });
+}
+
+/**
+ * Run one step
+ */
+async function runAction(page, action) {
+  switch (action.type) {
+    case 'click': {
+      const element = await waitForElement(page, action);
+      await element.click();
+      break;
+    }
+    case 'type': {
+      const element = await waitForElement(page, action);
+      await element.type(action.text);
+      break;
+    }
+    case 'press':
+      await page.keyboard.press(action.key);
+      break;
+    case 'hover': {
+      const element = await waitForElement(page, action);
+      await element.hover();
+      break;
+    }
+    case 'scrollTo': {
+      const element = await waitForElement(page, action);
+      await element.evaluate((el) => el.scrollIntoView({ block: 'center' }));
+      break;
+    }
+    case 'waitForSelector':
+      await waitForElement(page, action);
+      break;
+    case 'waitForNetworkIdle':
+      await page.waitForNetworkIdle({ idleTime: NETWORK_IDLE_TIME, timeout: action.timeout || ACTION_TIMEOUT });
+      break;
+    case 'wait':
+      await new Promise((resolve) => setTimeout(resolve, action.ms));
+      break;
+    default:
+      throw new Error(`Unknown action type "${action.type}"`);
+  }
+}
+
+/**
+ * Short description of a step for logs and errors
+ */
+function describeAction(action) {
+  if (action.selector) return `${action.type} "${action.selector}"`;
+  if (action.type === 'press') return `press ${action.key}`;
+  if (action.type === 'wait') return `wait ${action.ms}ms`;
+  return action.type;
+}
+
+/**
+ * Run a job's actions in order, recording each step in results
+ *
+ * @param {import('puppeteer').Page} page
+ * @param {Array<object>} actions - The job's `actions` option
+ * @param {Array<object>} results - Filled with one entry per action
+ */
+export async function runPageActions(page, actions, results) {
+  for (const [index, action] of actions.entries()) {
+    const description = describeAction(action);
+    const started = Date.now();
+
+    try {
+      await runAction(page, action);
+    } catch (error) {
+      results.push({ type: action.type, status: 'failed', durationMs: Date.now() - started, error: error.message });
+      for (const skipped of actions.slice(index + 1)) {
+        results.push({ type: skipped.type, status: 'skipped', durationMs: 0 });
+      }
+
+      throw new CaptureError(
+        'action_failed',
+        `Action ${index + 1} (${description}) failed: ${error.message}`,
+        { retryable: error.name === 'TimeoutError' }
+      );
+    }
+
+    results.push({ type: action.type, status: 'completed', durationMs: Date.now() - started });
+    console.log(`   Action ${index + 1}/${actions.length}: ${description}`);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Page injection
+ *
+ * Applies a job's `hideSelectors`, `injectCss` and `injectJs` options to a
+ * loaded page, after the scroll pass and before the capture delay. Scripts run
+ * in the page's own context, not the worker's, and are given
+ * INJECT_SCRIPT_TIMEOUT to finish; a script that throws or runs out of time
+ * fails the job with `script_error`.
+ *
+ * Environment Variables:
+ * - INJECT_SCRIPT_TIMEOUT: Time allowed for an injectJs script in milliseconds (default: 10000)
+ */
+
+import { CaptureError } from './capture-errors.js';
+
+const INJECT_SCRIPT_TIMEOUT = parseInt(process.env.INJECT_SCRIPT_TIMEOUT || '10000', 10);
+
+/**
+ * Whether a job injects anything, so the page must bypass its CSP
+ */
+export function hasPageInjections(options = {}) {
+  return Boolean(options.injectCss || options.injectJs || options.hideSelectors?.length);
+}
+
+/**
+ * Apply a job's injections to a loaded page
+ *
+ * @param {import('puppeteer').Page} page
+ * @param {object} options - The job's screenshot options
+ */
+export async function applyPageInjections(page, options = {}) {
+  const { injectCss, injectJs, hideSelectors = [] } = options;
+
+  // One rule per selector, so an invalid selector only drops its own rule
+  const hideCss = hideSelectors
+    .map((selector) => `${selector} { visibility: hidden !important; }`)
+    .join('\n');
+  const css = [hideCss, injectCss].filter(Boolean).join('\n');
+
+  if (css) {
+    await page.addStyleTag({ content: css });
+    console.log(`   Injected CSS (${hideSelectors.length} hidden selector(s))`);
+  }
+
+  if (injectJs) {
+    let timer;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CaptureError('script_error', `injectJs did not finish within ${INJECT_SCRIPT_TIMEOUT}ms`, { retryable: false })),
+        INJECT_SCRIPT_TIMEOUT
+      );
+    });
+
+    // Evaluated as an async function body, so the script can await and return a promise
+    const evaluation = page.evaluate(`(async () => {\n${injectJs}\n})()`).catch((error) => {
+      throw new CaptureError('script_error', `injectJs failed: ${error.message}`, { retryable: false });
+    });
+
+    try {
+      await Promise.race([evaluation, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+    console.log('   Injected script finished');
+  }
+}
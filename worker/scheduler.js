@@ -0,0 +1,361 @@
+/**
+ * Project Schedule Runner
+ *
+ * Polls project_schedules for due schedules and enqueues a screenshot run for
+ * each: a screenshot_batches row plus one screenshot_jobs row per URL, picked
+ * up by the screenshot worker. "rediscover" schedules read the sitemap first;
+ * sites without one get a crawl job and the run is enqueued once it finishes.
+ *
+ * Environment Variables:
+ * - SUPABASE_URL: Your Supabase project URL
+ * - SUPABASE_SERVICE_KEY: Your Supabase service role key
+ * - SCHEDULER_INTERVAL: Polling interval in milliseconds (default: 60000)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { CronExpressionParser } from 'cron-parser';
+import 'dotenv/config';
+import { notifyJobFinished } from './webhooks.js';
+import { discoverSitemapUrls } from './sitemap-discovery.js';
+
+// Configuration
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+const SCHEDULER_INTERVAL = parseInt(process.env.SCHEDULER_INTERVAL || '60000', 10);
+const MAX_SCHEDULES_PER_TICK = 20;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+console.log('='.repeat(50));
+console.log('ScreenshotPro Scheduler');
+console.log('='.repeat(50));
+console.log(`Supabase URL: ${SUPABASE_URL}`);
+console.log(`Poll Interval: ${SCHEDULER_INTERVAL}ms`);
+console.log('='.repeat(50));
+
+/**
+ * Next time a schedule fires after `from`
+ */
+function getNextRunAt(schedule, from = new Date()) {
+  return CronExpressionParser.parse(schedule.cron_expression, {
+    tz: schedule.timezone,
+    currentDate: from,
+  }).next().toDate().toISOString();
+}
+
+/**
+ * Create the run (screenshot_batches row) and its screenshot jobs
+ */
+async function enqueueRun(schedule, urls, sitemapJobId = null) {
+  const selected = urls.slice(0, schedule.max_urls);
+  if (selected.length === 0) {
+    throw new Error('No URLs to capture');
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('screenshot_batches')
+    .insert({
+      user_id: schedule.user_id,
+      project_id: schedule.project_id,
+      schedule_id: schedule.id,
+      sitemap_job_id: sitemapJobId,
+      options: schedule.options,
+      total_jobs: selected.length,
+      source: 'schedule',
+    })
+    .select()
+    .single();
+
+  if (runError) throw runError;
+
+  const { error: jobsError } = await supabase
+    .from('screenshot_jobs')
+    .insert(selected.map((url) => ({
+      user_id: schedule.user_id,
+      project_id: schedule.project_id,
+      batch_id: run.id,
+      sitemap_job_id: sitemapJobId,
+      url,
+      status: 'pending',
+      options: schedule.options,
+    })));
+
+  if (jobsError) throw jobsError;
+
+  // Scheduled captures count towards screenshot usage
+  await supabase.from('api_usage').insert({
+    user_id: schedule.user_id,
+    endpoint: 'screenshot',
+    date: new Date().toISOString().split('T')[0],
+    request_count: selected.length,
+  });
+
+  console.log(`📸 Schedule ${schedule.id}: queued ${selected.length} screenshots (run ${run.id})`);
+  return run;
+}
+
+/**
+ * Discover the project's sitemap, falling back to a crawl when there is none.
+ * Returns the URLs, or null when the run has to wait for the crawl.
+ */
+async function rediscoverUrls(schedule) {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('domain')
+    .eq('id', schedule.project_id)
+    .single();
+
+  if (projectError) throw projectError;
+
+  const baseUrl = `https://${project.domain}`;
+
+  const { data: sitemapJob, error: sitemapError } = await supabase
+    .from('sitemap_jobs')
+    .insert({
+      user_id: schedule.user_id,
+      project_id: schedule.project_id,
+      domain: baseUrl,
+      status: 'processing',
+      urls: [],
+    })
+    .select()
+    .single();
+
+  if (sitemapError) throw sitemapError;
+
+  let discovered;
+  try {
+    discovered = await discoverSitemapUrls(baseUrl);
+  } catch (error) {
+    // Don't leave the sitemap job processing; runSchedule records the error
+    const { data: failedJob } = await supabase
+      .from('sitemap_jobs')
+      .update({
+        status: 'failed',
+        error_message: error.message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', sitemapJob.id)
+      .select()
+      .single();
+
+    if (failedJob) {
+      await notifyJobFinished(supabase, 'sitemap', failedJob);
+    }
+    throw error;
+  }
+
+  const { urls, source } = discovered;
+
+  if (urls.length > 0) {
+    const { data: completedJob } = await supabase
+      .from('sitemap_jobs')
+      .update({
+        status: 'completed',
+        urls,
+        source,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', sitemapJob.id)
+      .select()
+      .single();
+
+    if (completedJob) {
+      await notifyJobFinished(supabase, 'sitemap', completedJob);
+    }
+    return { urls, sitemapJobId: sitemapJob.id };
+  }
+
+  // No sitemap - hand over to the crawl worker, which sets the source by the engine it uses
+  const { error: crawlError } = await supabase
+    .from('crawl_jobs')
+    .insert({
+      user_id: schedule.user_id,
+      project_id: schedule.project_id,
+      sitemap_job_id: sitemapJob.id,
+      domain: baseUrl,
+      status: 'pending',
+      max_urls: schedule.max_urls,
+      discovered_urls: [],
+    });
+
+  if (crawlError) throw crawlError;
+
+  await supabase
+    .from('project_schedules')
+    .update({ pending_sitemap_job_id: sitemapJob.id })
+    .eq('id', schedule.id);
+
+  console.log(`🕷️ Schedule ${schedule.id}: no sitemap for ${project.domain}, waiting for crawl`);
+  return { urls: null, sitemapJobId: sitemapJob.id };
+}
+
+/**
+ * Run one due schedule
+ */
+async function runSchedule(schedule) {
+  // Claim the schedule by moving next_run_at forward; if another scheduler
+  // got there first the update matches no row
+  const { data: claimed, error: claimError } = await supabase
+    .from('project_schedules')
+    .update({
+      next_run_at: getNextRunAt(schedule),
+      last_run_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .select();
+
+  if (claimError || !claimed || claimed.length === 0) {
+    return;
+  }
+
+  console.log(`\n⏰ Running schedule ${schedule.id} (${schedule.name || schedule.cron_expression})`);
+
+  try {
+    if (schedule.pending_sitemap_job_id) {
+      throw new Error('Previous run is still waiting for its crawl; skipped');
+    }
+
+    let run = null;
+    if (schedule.url_mode === 'rediscover') {
+      const { urls, sitemapJobId } = await rediscoverUrls(schedule);
+      if (urls) {
+        run = await enqueueRun(schedule, urls, sitemapJobId);
+      }
+    } else {
+      run = await enqueueRun(schedule, Array.isArray(schedule.urls) ? schedule.urls : []);
+    }
+
+    await supabase
+      .from('project_schedules')
+      .update({
+        last_error: null,
+        ...(run ? { last_batch_id: run.id } : {}),
+      })
+      .eq('id', schedule.id);
+  } catch (error) {
+    console.error(`❌ Schedule ${schedule.id} failed:`, error.message);
+    await supabase
+      .from('project_schedules')
+      .update({ last_error: error.message })
+      .eq('id', schedule.id);
+  }
+}
+
+/**
+ * Enqueue runs whose crawl has finished
+ */
+async function processPendingCrawls() {
+  const { data: schedules, error } = await supabase
+    .from('project_schedules')
+    .select('*, sitemap_job:sitemap_jobs!pending_sitemap_job_id(id, status, urls, error_message)')
+    .not('pending_sitemap_job_id', 'is', null)
+    .limit(MAX_SCHEDULES_PER_TICK);
+
+  if (error) {
+    console.error('Error fetching pending crawls:', error.message);
+    return;
+  }
+
+  for (const schedule of schedules || []) {
+    const sitemapJob = schedule.sitemap_job;
+    // Paused crawls keep the schedule waiting until they are resumed or cancelled
+    if (sitemapJob && !['completed', 'failed', 'cancelled'].includes(sitemapJob.status)) {
+      continue;
+    }
+
+    // Release the schedule before enqueueing so a crash cannot enqueue twice
+    const { data: released } = await supabase
+      .from('project_schedules')
+      .update({ pending_sitemap_job_id: null })
+      .eq('id', schedule.id)
+      .eq('pending_sitemap_job_id', schedule.pending_sitemap_job_id)
+      .select();
+
+    if (!released || released.length === 0) continue;
+
+    try {
+      if (!sitemapJob || sitemapJob.status === 'failed') {
+        throw new Error(`Crawl failed: ${sitemapJob?.error_message || 'sitemap job missing'}`);
+      }
+      if (sitemapJob.status === 'cancelled') {
+        throw new Error('Crawl cancelled');
+      }
+
+      const run = await enqueueRun(schedule, Array.isArray(sitemapJob.urls) ? sitemapJob.urls : [], sitemapJob.id);
+      await supabase
+        .from('project_schedules')
+        .update({ last_error: null, last_batch_id: run.id })
+        .eq('id', schedule.id);
+    } catch (err) {
+      console.error(`❌ Schedule ${schedule.id} failed:`, err.message);
+      await supabase
+        .from('project_schedules')
+        .update({ last_error: err.message })
+        .eq('id', schedule.id);
+    }
+  }
+}
+
+/**
+ * Poll for due schedules
+ */
+async function pollForSchedules() {
+  try {
+    const { data: schedules, error } = await supabase
+      .from('project_schedules')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_run_at', new Date().toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(MAX_SCHEDULES_PER_TICK);
+
+    if (error) {
+      console.error('Error fetching schedules:', error.message);
+      return;
+    }
+
+    for (const schedule of schedules || []) {
+      await runSchedule(schedule);
+    }
+
+    await processPendingCrawls();
+  } catch (error) {
+    console.error('Poll error:', error.message);
+  }
+}
+
+/**
+ * Main loop
+ */
+async function main() {
+  console.log('\nScheduler started. Polling for due schedules...\n');
+
+  setInterval(pollForSchedules, SCHEDULER_INTERVAL);
+
+  // Initial poll
+  await pollForSchedules();
+}
+
+// Handle shutdown gracefully
+process.on('SIGINT', () => {
+  console.log('\nShutting down scheduler...');
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  console.log('\nShutting down scheduler...');
+  process.exit(0);
+});
+
+// Start scheduler
+main().catch((err) => {
+  console.error('Scheduler error:', err);
+  process.exit(1);
+});
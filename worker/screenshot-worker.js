@@ -1,6 +1,16 @@
 /**
  * Screenshot Worker
  * Processes screenshot jobs using Puppeteer
+ *
+ * Environment Variables:
+ * - CAPTURE_CONCURRENCY: Pages captured at once (default: 4)
+ * - MAX_CAPTURES_PER_HOST: Jobs processing at once per site, across all workers (default: 2)
+ * - BROWSER_RECYCLE_AFTER: Captures before Chromium is restarted to free memory (default: 100)
+ * - RETRY_BASE_DELAY: Delay before the first retry of a failed capture, doubling each time (default: 30000)
+ * - INJECT_SCRIPT_TIMEOUT: Time allowed for a job's injectJs script in milliseconds (default: 10000)
+ * - ACTION_TIMEOUT: Default time a pre-capture action waits for its element in milliseconds (default: 10000)
+ * - CREDENTIALS_KEY: Key for decrypting capture credentials, the same as the API's
+ * - LOGIN_TIMEOUT: Time allowed for each step of a project's login flow in milliseconds (default: 30000)
  */
 
 import 'dotenv/config';
@@ -8,7 +18,17 @@ import puppeteer from 'puppeteer';
 import { createClient } from '@supabase/supabase-js';
 import path from 'path';
 import fs from 'fs';
+import { hostname } from 'os';
 import { fileURLToPath } from 'url';
+import { notifyJobFinished, processDueDeliveries } from './webhooks.js';
+import { processPendingDiffs, queueBaselineDiff } from './visual-diff.js';
+import { JOB_LEASE, reapExpiredJobs, releaseWorkerJobs, startHeartbeat } from './job-recovery.js';
+import { CaptureError, checkResponse, classifyError } from './capture-errors.js';
+import { getCaptureRegions } from './capture-regions.js';
+import { applyPageInjections, hasPageInjections } from './page-injection.js';
+import { runPageActions } from './page-actions.js';
+import { describeCredentials, getAuthCookies, getAuthHeaders, isPageHost, loadCaptureCredentials } from './capture-auth.js';
+import { isLoginPage, loadLoginFlow, refreshLoginSession } from './login-flows.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,13 +38,21 @@ const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
 const POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || '5000');
 const SCREENSHOT_DIR = process.env.SCREENSHOT_DIR || '/var/screenshotpro/screenshots';
-
-// Viewport configurations
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+const CAPTURE_CONCURRENCY = Math.max(1, parseInt(process.env.CAPTURE_CONCURRENCY || '4'));
+const MAX_CAPTURES_PER_HOST = Math.max(1, parseInt(process.env.MAX_CAPTURES_PER_HOST || '2'));
+const BROWSER_RECYCLE_AFTER = Math.max(1, parseInt(process.env.BROWSER_RECYCLE_AFTER || '100'));
+const RETRY_BASE_DELAY = parseInt(process.env.RETRY_BASE_DELAY || '30000');
+const RETRY_MAX_DELAY = 30 * 60 * 1000; // 30 minutes
+
+// The API stores each job's emulated viewport and user agent (api/_lib/devices.ts);
+// these cover jobs and schedules created before it did
 const VIEWPORTS = {
   desktop: { width: 1920, height: 1080 },
   tablet: { width: 768, height: 1024 },
   mobile: { width: 375, height: 667 },
 };
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 // Validate environment
 if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
@@ -45,15 +73,24 @@ console.log('ScreenshotPro Screenshot Worker');
 console.log('==================================================');
 console.log(`Supabase URL: ${SUPABASE_URL}`);
 console.log(`Screenshot Directory: ${SCREENSHOT_DIR}`);
+console.log(`Worker ID: ${WORKER_ID}`);
 console.log(`Poll Interval: ${POLL_INTERVAL}ms`);
+console.log(`Concurrency: ${CAPTURE_CONCURRENCY} (max ${MAX_CAPTURES_PER_HOST} per host)`);
 console.log('==================================================');
 
 let browser = null;
+let browserLaunch = null;
+// Captures started on the current browser
+let browserCaptures = 0;
+// Open pages per browser, so a retired browser closes once its captures finish
+const openPages = new Map();
+// Signed-in browser contexts by project, for projects with a login flow
+const loginSessions = new Map();
 
 async function initBrowser() {
-  if (!browser) {
+  if (!browserLaunch) {
     // Use Puppeteer's bundled Chromium (don't specify executablePath)
-    browser = await puppeteer.launch({
+    browserLaunch = puppeteer.launch({
       headless: 'new',
       args: [
         '--no-sandbox',
@@ -62,10 +99,130 @@ async function initBrowser() {
         '--disable-gpu',
         '--disable-software-rasterizer',
       ],
+    }).then((launched) => {
+      browser = launched;
+      browserCaptures = 0;
+      openPages.set(launched, 0);
+
+      // Relaunch on the next capture if Chromium crashes
+      launched.on('disconnected', () => {
+        openPages.delete(launched);
+        if (browser === launched) {
+          browser = null;
+          browserLaunch = null;
+        }
+      });
+
+      console.log('Browser initialized');
+      return launched;
+    }).catch((error) => {
+      browserLaunch = null;
+      throw error;
+    });
+  }
+  return browserLaunch;
+}
+
+/**
+ * Sign a new browser context in, with the flow's cached session or by logging in
+ */
+async function startLoginSession(session, flow) {
+  session.context = await session.browser.createBrowserContext();
+
+  if (flow.sessionCookies?.length) {
+    const page = await session.context.newPage();
+    try {
+      await page.setCookie(...flow.sessionCookies);
+    } finally {
+      await page.close();
+    }
+    return;
+  }
+
+  await refreshLoginSession(supabase, flow, () => session.context.newPage());
+}
+
+/**
+ * The signed-in context for a project on the current browser, started once
+ * and shared by its captures
+ */
+async function getLoginSession(current, flow) {
+  let session = loginSessions.get(flow.projectId);
+
+  if (!session || session.browser !== current) {
+    session = { browser: current, context: null, ready: null, relogin: null };
+    session.ready = startLoginSession(session, flow).catch(async (error) => {
+      if (loginSessions.get(flow.projectId) === session) {
+        loginSessions.delete(flow.projectId);
+      }
+      await session.context?.close().catch(() => {});
+      throw error;
     });
-    console.log('Browser initialized');
+    loginSessions.set(flow.projectId, session);
+  }
+
+  await session.ready;
+  return session;
+}
+
+/**
+ * Log a session in again after its cookies expired; concurrent captures share one login
+ */
+async function reloginSession(session, flow) {
+  if (!session.relogin) {
+    session.relogin = refreshLoginSession(supabase, flow, () => session.context.newPage()).finally(() => {
+      session.relogin = null;
+    });
+  }
+  await session.relogin;
+}
+
+/**
+ * Open a page for a capture, recycling Chromium every BROWSER_RECYCLE_AFTER captures
+ *
+ * With a login flow the page opens in the project's signed-in context.
+ */
+async function openPage(loginFlow = null) {
+  if (browser && browserCaptures >= BROWSER_RECYCLE_AFTER) {
+    console.log(`♻️  Recycling browser after ${browserCaptures} captures`);
+    const retired = browser;
+    browser = null;
+    browserLaunch = null;
+    if (openPages.get(retired) === 0) {
+      await retired.close();
+    }
+  }
+
+  const current = await initBrowser();
+  browserCaptures++;
+  openPages.set(current, (openPages.get(current) || 0) + 1);
+
+  try {
+    if (!loginFlow) {
+      return await current.newPage();
+    }
+    const session = await getLoginSession(current, loginFlow);
+    return await session.context.newPage();
+  } catch (error) {
+    await closePage(current, null);
+    throw error;
+  }
+}
+
+/**
+ * Close a capture's page, and its browser if it has been retired
+ */
+async function closePage(pageBrowser, page) {
+  if (page) {
+    await page.close().catch(() => {});
+  }
+
+  const remaining = (openPages.get(pageBrowser) || 1) - 1;
+  openPages.set(pageBrowser, remaining);
+  if (remaining === 0 && pageBrowser !== browser) {
+    openPages.delete(pageBrowser);
+    await pageBrowser.close().catch(() => {});
   }
-  return browser;
 }
 
 // Ad/tracker domains to block
@@ -119,6 +276,44 @@ const COOKIE_DOMAINS = [
   'osano.com',
 ];
 
+/**
+ * Navigate to a URL, falling back to DOMContentLoaded when the network never settles
+ */
+async function navigateTo(page, url) {
+  try {
+    return await page.goto(url, {
+      waitUntil: 'networkidle0',
+      timeout: 60000,
+    });
+  } catch (navError) {
+    if (navError.name === 'TimeoutError') {
+      console.log('   Timeout on networkidle0, trying domcontentloaded...');
+      return await page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout: 30000,
+      });
+    }
+    throw navError;
+  }
+}
+
+/**
+ * Print the page to a PDF with the job's page setup
+ */
+async function renderPdf(page, filepath, pdf = {}) {
+  const { paperSize = 'A4', landscape = false, margin, printBackground = true, media = 'screen' } = pdf;
+
+  // Screen media keeps the page looking as it does in the browser
+  await page.emulateMediaType(media);
+  await page.pdf({
+    path: filepath,
+    format: paperSize,
+    landscape,
+    margin,
+    printBackground,
+  });
+}
+
 async function takeScreenshot(job) {
   const { id, url, user_id, options = {} } = job;
 
@@ -130,24 +325,32 @@ async function takeScreenshot(job) {
     noAds = false,
     noCookies = false,
     deviceType = 'desktop',
+    viewport = VIEWPORTS[deviceType] || VIEWPORTS.desktop,
+    userAgent = DEFAULT_USER_AGENT,
     delay = 2,
     format = 'png',
     quality = 90,
   } = options;
 
   console.log(`\n📸 Taking screenshot: ${url}`);
-  console.log(`   Options: viewport=${deviceType}, fullPage=${fullPage}, scrollPage=${scrollPage}, noAds=${noAds}, noCookies=${noCookies}, fresh=${fresh}, format=${format}, delay=${delay}s`);
+  console.log(`   Options: device=${deviceType} (${viewport.width}x${viewport.height}@${viewport.deviceScaleFactor ?? 1}x), fullPage=${fullPage}, scrollPage=${scrollPage}, noAds=${noAds}, noCookies=${noCookies}, fresh=${fresh}, format=${format}, delay=${delay}s`);
 
-  const browser = await initBrowser();
-  const page = await browser.newPage();
+  // Projects with a login flow capture in a signed-in browser context
+  const loginFlow = await loadLoginFlow(supabase, job);
+  const page = await openPage(loginFlow);
+  const pageBrowser = page.browser();
+  const actionResults = [];
 
   try {
-    // Set viewport
-    const viewportConfig = VIEWPORTS[deviceType] || VIEWPORTS.desktop;
-    await page.setViewport({ ...viewportConfig, deviceScaleFactor: 1 });
-
-    // Set User-Agent
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    // Emulate the device: size, pixel ratio, mobile and touch
+    await page.setViewport({
+      width: viewport.width,
+      height: viewport.height,
+      deviceScaleFactor: viewport.deviceScaleFactor ?? 1,
+      isMobile: viewport.isMobile ?? false,
+      hasTouch: viewport.hasTouch ?? false,
+    });
+    await page.setUserAgent(userAgent);
 
     // Disable cache if fresh option is enabled
     if (fresh) {
@@ -155,8 +358,25 @@ async function takeScreenshot(job) {
       console.log('   Cache disabled');
     }
 
-    // Block ads, trackers, and cookie consent scripts
-    if (noAds || noCookies) {
+    // Injected styles and scripts must not be blocked by the site's CSP
+    if (hasPageInjections(options)) {
+      await page.setBypassCSP(true);
+    }
+
+    // Cookies, headers and basic auth for protected sites
+    const credentials = await loadCaptureCredentials(supabase, job);
+    const authHeaders = getAuthHeaders(credentials);
+    const pageHost = new URL(url).hostname;
+    if (credentials) {
+      const cookies = getAuthCookies(credentials, url);
+      if (cookies.length > 0) {
+        await page.setCookie(...cookies);
+      }
+      console.log(`   Credentials: ${describeCredentials(credentials)}`);
+    }
+
+    // Block ads, trackers, and cookie consent scripts, and add auth headers
+    if (noAds || noCookies || authHeaders) {
       await page.setRequestInterception(true);
       page.on('request', (request) => {
         const requestUrl = request.url().toLowerCase();
@@ -178,11 +398,15 @@ async function takeScreenshot(job) {
 
         if (shouldBlock) {
           request.abort();
+        } else if (authHeaders && isPageHost(request.url(), pageHost)) {
+          request.continue({ headers: { ...request.headers(), ...authHeaders } });
         } else {
           request.continue();
         }
       });
-      console.log(`   Request blocking enabled (noAds=${noAds}, noCookies=${noCookies})`);
+      if (noAds || noCookies) {
+        console.log(`   Request blocking enabled (noAds=${noAds}, noCookies=${noCookies})`);
+      }
     }
 
     // Set longer timeouts for complex pages
@@ -191,23 +415,27 @@ async function takeScreenshot(job) {
 
     // Navigate to URL with fallback
     console.log(`   Navigating to: ${url}`);
-    try {
-      await page.goto(url, {
-        waitUntil: 'networkidle0',
-        timeout: 60000,
-      });
-    } catch (navError) {
-      if (navError.name === 'TimeoutError') {
-        console.log('   Timeout on networkidle0, trying domcontentloaded...');
-        await page.goto(url, {
-          waitUntil: 'domcontentloaded',
-          timeout: 30000,
+    let response = await navigateTo(page, url);
+
+    // Landing on the login page means the session expired: log in again and retry once
+    if (loginFlow && isLoginPage(page.url(), loginFlow)) {
+      console.log('   Redirected to the login page, logging in again...');
+      const session = loginSessions.get(loginFlow.projectId);
+      if (session && session.browser === pageBrowser) {
+        await reloginSession(session, loginFlow);
+      }
+      response = await navigateTo(page, url);
+
+      if (isLoginPage(page.url(), loginFlow)) {
+        throw new CaptureError('login_failed', 'Still redirected to the login page after logging in', {
+          retryable: false,
         });
-      } else {
-        throw navError;
       }
     }
 
+    const responseError = checkResponse(response);
+    if (responseError) throw responseError;
+
     // Scroll page to load lazy content if enabled
     if (scrollPage) {
       console.log('   Scrolling page...');
@@ -352,138 +580,251 @@ async function takeScreenshot(job) {
       console.log('   Cookie banners removed');
     }
 
+    // Hide elements, add styles and run the job's script
+    if (hasPageInjections(options)) {
+      await applyPageInjections(page, options);
+    }
+
+    // Click, type and wait through the job's actions
+    if (options.actions?.length) {
+      await runPageActions(page, options.actions, actionResults);
+    }
+
     // Wait for specified delay
     if (delay > 0) {
       console.log(`   Waiting ${delay}s...`);
       await new Promise(resolve => setTimeout(resolve, delay * 1000));
     }
 
+    // Element, multi-element or clip captures produce one region each
+    const regions = await getCaptureRegions(page, options);
+    if (regions[0]) {
+      console.log(`   Capturing ${regions.length} region(s)`);
+    }
+
     // Determine file extension and content type
-    const fileExt = format === 'jpeg' ? 'jpg' : 'png';
-    const contentType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-    const filename = `screenshot_${id}_${Date.now()}.${fileExt}`;
-    const filepath = path.join(SCREENSHOT_DIR, filename);
+    const fileExt = format === 'pdf' ? 'pdf' : format === 'jpeg' ? 'jpg' : 'png';
+    const contentType = format === 'pdf' ? 'application/pdf' : format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    const timestamp = Date.now();
+    const urls = [];
+
+    for (const [index, clip] of regions.entries()) {
+      const suffix = regions.length > 1 ? `_${index + 1}` : '';
+      const filename = `screenshot_${id}_${timestamp}${suffix}.${fileExt}`;
+      const filepath = path.join(SCREENSHOT_DIR, filename);
+
+      // PDFs print the whole page; regions are rejected by the API
+      if (format === 'pdf') {
+        await renderPdf(page, filepath, options.pdf);
+        console.log(`   ✅ PDF saved: ${filename}`);
+      } else {
+        // Take screenshot
+        const screenshotOptions = {
+          path: filepath,
+          type: format === 'jpeg' ? 'jpeg' : 'png',
+        };
+
+        // Regions are in page coordinates, so they may lie below the fold
+        if (clip) {
+          screenshotOptions.clip = clip;
+          screenshotOptions.captureBeyondViewport = true;
+        } else {
+          screenshotOptions.fullPage = fullPage;
+        }
 
-    // Take screenshot
-    const screenshotOptions = {
-      path: filepath,
-      fullPage: fullPage,
-      type: format === 'jpeg' ? 'jpeg' : 'png',
-    };
-
-    // Add quality for JPEG
-    if (format === 'jpeg') {
-      screenshotOptions.quality = Math.min(100, Math.max(10, quality));
-    }
+        // Add quality for JPEG
+        if (format === 'jpeg') {
+          screenshotOptions.quality = Math.min(100, Math.max(10, quality));
+        }
 
-    await page.screenshot(screenshotOptions);
-    console.log(`   ✅ Screenshot saved: ${filename}`);
+        await page.screenshot(screenshotOptions);
+        console.log(`   ✅ Screenshot saved: ${filename}`);
+      }
 
-    // Upload to Supabase Storage
-    const fileBuffer = fs.readFileSync(filepath);
-    const storagePath = `screenshots/${user_id}/${filename}`;
+      // Upload to Supabase Storage
+      const fileBuffer = fs.readFileSync(filepath);
+      const storagePath = `screenshots/${user_id}/${filename}`;
 
-    const { error: uploadError } = await supabase.storage
-      .from('screenshots')
-      .upload(storagePath, fileBuffer, {
-        contentType: contentType,
-        upsert: true,
-      });
+      const { error: uploadError } = await supabase.storage
+        .from('screenshots')
+        .upload(storagePath, fileBuffer, {
+          contentType: contentType,
+          upsert: true,
+        });
 
-    if (uploadError) {
-      throw new Error(`Upload failed: ${uploadError.message}`);
-    }
+      // Clean up local file
+      fs.unlinkSync(filepath);
 
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('screenshots')
-      .getPublicUrl(storagePath);
+      if (uploadError) {
+        throw new CaptureError('upload_failed', `Upload failed: ${uploadError.message}`);
+      }
 
-    console.log(`   ✅ Uploaded to storage: ${storagePath}`);
+      // Get public URL
+      const { data: { publicUrl } } = supabase.storage
+        .from('screenshots')
+        .getPublicUrl(storagePath);
 
-    // Clean up local file
-    fs.unlinkSync(filepath);
+      console.log(`   ✅ Uploaded to storage: ${storagePath}`);
+      urls.push(publicUrl);
+    }
 
-    return { success: true, url: publicUrl };
+    return { success: true, url: urls[0], urls, actionResults };
   } catch (error) {
     console.error(`   ❌ Error: ${error.message}`);
-    return { success: false, error: error.message };
+    return { success: false, error: classifyError(error), actionResults };
   } finally {
-    await page.close();
+    await closePage(pageBrowser, page);
   }
 }
 
 async function processJob(job) {
   const { id } = job;
+  const stopHeartbeat = startHeartbeat(supabase, 'screenshot', id, WORKER_ID);
+  let actionResults = [];
 
   try {
-    // Update status to processing
-    await supabase
-      .from('screenshot_jobs')
-      .update({
-        status: 'processing',
-        started_at: new Date().toISOString(),
-      })
-      .eq('id', id);
-
     // Take screenshot
     const result = await takeScreenshot(job);
+    actionResults = result.actionResults;
 
     if (result.success) {
       // Update job as completed
-      const { error: updateError } = await supabase
+      const { data: completedJob, error: updateError } = await supabase
         .from('screenshot_jobs')
         .update({
           status: 'completed',
           screenshot_url: result.url,
+          screenshot_urls: result.urls,
+          action_results: actionResults,
+          error_message: null,
+          error_code: null,
+          lease_expires_at: null,
           completed_at: new Date().toISOString(),
         })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('status', 'processing')
+        .eq('worker_id', WORKER_ID)
+        .select()
+        .maybeSingle();
 
       if (updateError) {
         console.error(`   ❌ DB update failed: ${updateError.message}`);
+      } else if (!completedJob) {
+        console.log(`   🛑 Job ${id} was cancelled during capture`);
       } else {
         console.log(`   ✅ Job ${id} completed`);
+        await notifyJobFinished(supabase, 'screenshot', completedJob);
+        await queueBaselineDiff(supabase, completedJob);
       }
     } else {
-      throw new Error(result.error);
+      throw result.error;
     }
-  } catch (error) {
-    console.error(`   ❌ Job ${id} failed: ${error.message}`);
+  } catch (err) {
+    const error = classifyError(err);
+    const attempts = job.attempts || 1;
+    const maxAttempts = job.max_attempts || 1;
+
+    // Transient errors go back to the queue with exponential backoff
+    if (error.retryable && attempts < maxAttempts) {
+      const delay = Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+      console.warn(`   🔁 Job ${id} failed (${error.code}), retrying in ${Math.round(delay / 1000)}s (attempt ${attempts}/${maxAttempts}): ${error.message}`);
+
+      await supabase
+        .from('screenshot_jobs')
+        .update({
+          status: 'pending',
+          error_message: error.message,
+          error_code: error.code,
+          action_results: actionResults,
+          next_attempt_at: new Date(Date.now() + delay).toISOString(),
+          worker_id: null,
+          lease_expires_at: null,
+        })
+        .eq('id', id)
+        .eq('status', 'processing')
+        .eq('worker_id', WORKER_ID);
+      return;
+    }
+
+    console.error(`   ❌ Job ${id} failed (${error.code}) after ${attempts} attempt(s): ${error.message}`);
 
-    await supabase
+    const { data: failedJob } = await supabase
       .from('screenshot_jobs')
       .update({
         status: 'failed',
         error_message: error.message,
+        error_code: error.code,
+        action_results: actionResults,
+        lease_expires_at: null,
         completed_at: new Date().toISOString(),
       })
-      .eq('id', id);
+      .eq('id', id)
+      .eq('status', 'processing')
+      .eq('worker_id', WORKER_ID)
+      .select()
+      .maybeSingle();
+
+    await notifyJobFinished(supabase, 'screenshot', failedJob);
+  } finally {
+    stopHeartbeat();
   }
 }
 
-async function pollForJobs() {
-  try {
-    // Get pending screenshot jobs
-    const { data: jobs, error } = await supabase
-      .from('screenshot_jobs')
-      .select('*')
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true })
-      .limit(5);
+// Captures in flight
+const activeCaptures = new Set();
+let fillingSlots = false;
 
-    if (error) {
-      console.error('Error fetching jobs:', error.message);
-      return;
-    }
+/**
+ * Claim jobs until CAPTURE_CONCURRENCY captures are running
+ *
+ * Jobs are claimed one at a time as slots free up, so pauses and cancels
+ * apply to everything not yet started; other workers skip the locked rows.
+ */
+async function fillCaptureSlots() {
+  if (fillingSlots) return;
+  fillingSlots = true;
 
-    if (jobs && jobs.length > 0) {
-      console.log(`\n📋 Found ${jobs.length} pending screenshot job(s)`);
+  try {
+    while (activeCaptures.size < CAPTURE_CONCURRENCY) {
+      const { data: jobs, error } = await supabase.rpc('claim_screenshot_jobs', {
+        p_worker_id: WORKER_ID,
+        p_limit: 1,
+        p_lease_seconds: Math.ceil(JOB_LEASE / 1000),
+        p_max_per_host: MAX_CAPTURES_PER_HOST,
+      });
 
-      for (const job of jobs) {
-        await processJob(job);
+      if (error) {
+        console.error('Error claiming jobs:', error.message);
+        break;
       }
+
+      if (!jobs || jobs.length === 0) break;
+
+      console.log(`\n📋 Claimed screenshot job ${jobs[0].id} (${activeCaptures.size + 1}/${CAPTURE_CONCURRENCY} running)`);
+      const capture = processJob(jobs[0]).finally(() => {
+        activeCaptures.delete(capture);
+        // Start the next job straight away rather than on the next poll
+        fillCaptureSlots().catch((err) => console.error('Claim error:', err.message));
+      });
+      activeCaptures.add(capture);
     }
+  } finally {
+    fillingSlots = false;
+  }
+}
+
+async function pollForJobs() {
+  try {
+    // Requeue jobs left behind by workers that crashed
+    await reapExpiredJobs(supabase, 'screenshot');
+
+    await fillCaptureSlots();
+
+    // Compare screenshots queued through /api/v1/diff or the dashboard
+    await processPendingDiffs(supabase);
+
+    // Retry webhook deliveries whose backoff has elapsed
+    await processDueDeliveries(supabase);
   } catch (error) {
     console.error('Poll error:', error.message);
   }
@@ -504,20 +845,15 @@ async function main() {
 }
 
 // Graceful shutdown
-process.on('SIGINT', async () => {
+async function shutdown() {
   console.log('\nShutting down...');
-  if (browser) {
-    await browser.close();
-  }
+  await releaseWorkerJobs(supabase, 'screenshot', WORKER_ID);
+  // Includes retired browsers still finishing captures
+  await Promise.all([...openPages.keys()].map((openBrowser) => openBrowser.close().catch(() => {})));
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', async () => {
-  console.log('\nShutting down...');
-  if (browser) {
-    await browser.close();
-  }
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main().catch(console.error);
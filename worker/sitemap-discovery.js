@@ -0,0 +1,132 @@
+/**
+ * Sitemap discovery for the workers
+ *
+ * Mirrors the lookup done by api/sitemap/discover.ts: sitemap references in
+ * robots.txt first, then the common sitemap locations, expanding sitemap
+ * indexes one level deep.
+ */
+
+const USER_AGENT = 'ScreenshotPro Sitemap Crawler';
+const FETCH_TIMEOUT = 5000;
+
+// Sitemap locations to try
+const SITEMAP_PATHS = [
+  '/sitemap.xml',
+  '/sitemap_index.xml',
+  '/sitemaps.xml',
+  '/sitemap/',
+  '/sitemap/sitemap.xml',
+  '/wp-sitemap.xml',
+  '/sitemap-index.xml',
+  '/page-sitemap.xml',
+  '/post-sitemap.xml',
+];
+
+/**
+ * Fetch a URL as text, or null on error/non-2xx
+ */
+async function fetchText(url) {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    if (!response.ok) return null;
+    return await response.text();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract <loc> entries from sitemap XML
+ */
+function parseSitemapXml(xmlContent) {
+  const urls = [];
+  const locRegex = /<loc>(.*?)<\/loc>/gi;
+  let match;
+  while ((match = locRegex.exec(xmlContent)) !== null) {
+    urls.push(match[1]);
+  }
+  return urls;
+}
+
+/**
+ * Extract Sitemap: lines from robots.txt
+ */
+function parseSitemapFromRobotsTxt(robotsTxt) {
+  const sitemapUrls = [];
+  for (const line of robotsTxt.split('\n')) {
+    if (line.trim().toLowerCase().startsWith('sitemap:')) {
+      sitemapUrls.push(line.substring(line.indexOf(':') + 1).trim());
+    }
+  }
+  return sitemapUrls;
+}
+
+async function trySitemapUrl(url) {
+  const content = await fetchText(url);
+  return content === null ? null : parseSitemapXml(content);
+}
+
+/**
+ * Most entries ending in .xml means the sitemap is an index of sitemaps
+ */
+function isSitemapIndex(urls) {
+  if (urls.length === 0) return false;
+  const xmlCount = urls.filter((u) => u.endsWith('.xml')).length;
+  return xmlCount > urls.length * 0.5;
+}
+
+async function expandSitemapIndex(sitemapUrls) {
+  const allUrls = [];
+  for (const sitemapUrl of sitemapUrls.slice(0, 15)) {
+    const subUrls = await trySitemapUrl(sitemapUrl);
+    if (!subUrls || subUrls.length === 0) continue;
+
+    if (isSitemapIndex(subUrls)) {
+      // One level of nesting only
+      for (const nestedUrl of subUrls.slice(0, 5)) {
+        const nestedSubUrls = await trySitemapUrl(nestedUrl);
+        if (nestedSubUrls) allUrls.push(...nestedSubUrls);
+      }
+    } else {
+      allUrls.push(...subUrls);
+    }
+  }
+  return [...new Set(allUrls)];
+}
+
+/**
+ * Discover a site's URLs from its sitemap
+ * @returns {Promise<{ urls: string[], source: string | null }>}
+ */
+export async function discoverSitemapUrls(domain) {
+  let baseUrl = domain.trim();
+  if (!baseUrl.startsWith('http://') && !baseUrl.startsWith('https://')) {
+    baseUrl = `https://${baseUrl}`;
+  }
+  baseUrl = baseUrl.replace(/\/+$/, '');
+
+  const robotsTxt = await fetchText(`${baseUrl}/robots.txt`);
+  if (robotsTxt) {
+    const sitemapUrls = parseSitemapFromRobotsTxt(robotsTxt);
+    if (sitemapUrls.length > 0) {
+      const urls = await expandSitemapIndex(sitemapUrls);
+      if (urls.length > 0) return { urls, source: 'robots_txt' };
+    }
+  }
+
+  for (const path of SITEMAP_PATHS) {
+    const urls = await trySitemapUrl(`${baseUrl}${path}`);
+    if (!urls || urls.length === 0) continue;
+
+    const isIndex = isSitemapIndex(urls);
+    const foundUrls = isIndex ? await expandSitemapIndex(urls) : urls;
+    if (foundUrls.length > 0) {
+      return { urls: foundUrls, source: isIndex ? 'sitemap_index' : 'sitemap_xml' };
+    }
+  }
+
+  return { urls: [], source: null };
+}
@@ -0,0 +1,351 @@
+/**
+ * Visual diffs
+ *
+ * Compares two screenshots of the same URL and viewport queued in
+ * `screenshot_diffs`. Produces a diff image (the base screenshot faded, with
+ * changed pixels in red and changed regions outlined), the share of changed
+ * pixels and bounding boxes of the changed regions. Screenshots of different
+ * heights are padded, so added or removed content counts as changed.
+ * `processPendingDiffs` is called from the screenshot worker's poll tick.
+ *
+ * Captures of a page with an approved baseline (`screenshot_baselines`) are
+ * queued for a diff against it by `queueBaselineDiff`. Changed pages wait in
+ * the review queue (`review_status = 'pending'`); unchanged ones are cleared.
+ */
+
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+
+const DIFF_BATCH_SIZE = 5;
+const BASELINE_DIFF_THRESHOLD = 0.1;
+// Full-page screenshots are compared down to this height
+const MAX_DIFF_HEIGHT = 16384;
+// Changed pixels are grouped into regions on a grid of this cell size
+const REGION_CELL_SIZE = 32;
+const MAX_REGIONS = 50;
+const REGION_COLOR = [255, 0, 255];
+
+/**
+ * Decode a PNG or JPEG screenshot to RGBA
+ */
+function decodeImage(buffer) {
+  const isPng = buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47;
+  if (isPng) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  const image = jpeg.decode(buffer, { useTArray: true, maxMemoryUsageInMB: 1024 });
+  return { width: image.width, height: image.height, data: image.data };
+}
+
+/**
+ * Copy an image onto a transparent canvas of the given size
+ */
+function padImage(image, width, height) {
+  if (image.width === width && image.height === height) return image.data;
+
+  const data = new Uint8Array(width * height * 4);
+  const rowBytes = Math.min(image.width, width) * 4;
+  for (let y = 0; y < Math.min(image.height, height); y++) {
+    const start = y * image.width * 4;
+    data.set(image.data.subarray(start, start + rowBytes), y * width * 4);
+  }
+  return data;
+}
+
+/**
+ * Group changed pixels into bounding boxes
+ *
+ * Cells of the grid containing a changed pixel are flood-filled into
+ * connected groups (including diagonals); each group becomes one region.
+ */
+function findRegions(diff, width, height) {
+  const cols = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const changed = new Uint8Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      // pixelmatch draws changed pixels in pure red
+      if (diff[i] === 255 && diff[i + 1] === 0 && diff[i + 2] === 0) {
+        changed[Math.floor(y / REGION_CELL_SIZE) * cols + Math.floor(x / REGION_CELL_SIZE)] = 1;
+      }
+    }
+  }
+
+  const regions = [];
+  const visited = new Uint8Array(cols * rows);
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || visited[start]) continue;
+
+    let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop();
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+          const next = r * cols + c;
+          if (changed[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const x = minCol * REGION_CELL_SIZE;
+    const y = minRow * REGION_CELL_SIZE;
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxCol + 1) * REGION_CELL_SIZE) - x,
+      height: Math.min(height, (maxRow + 1) * REGION_CELL_SIZE) - y,
+    });
+  }
+
+  // Largest regions first
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_REGIONS);
+}
+
+/**
+ * Outline regions on the diff image
+ */
+function drawRegions(diff, width, regions) {
+  const setPixel = (x, y) => {
+    const i = (y * width + x) * 4;
+    diff[i] = REGION_COLOR[0];
+    diff[i + 1] = REGION_COLOR[1];
+    diff[i + 2] = REGION_COLOR[2];
+    diff[i + 3] = 255;
+  };
+
+  for (const region of regions) {
+    const right = region.x + region.width - 1;
+    const bottom = region.y + region.height - 1;
+    for (let x = region.x; x <= right; x++) {
+      setPixel(x, region.y);
+      setPixel(x, bottom);
+    }
+    for (let y = region.y; y <= bottom; y++) {
+      setPixel(region.x, y);
+      setPixel(right, y);
+    }
+  }
+}
+
+async function fetchImage(url) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch screenshot: HTTP ${response.status}`);
+  }
+  return decodeImage(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Compare two screenshots
+ */
+export async function compareScreenshots(baseUrl, compareUrl, threshold) {
+  const base = await fetchImage(baseUrl);
+  const compare = await fetchImage(compareUrl);
+
+  const width = Math.max(base.width, compare.width);
+  const height = Math.min(Math.max(base.height, compare.height), MAX_DIFF_HEIGHT);
+
+  const diff = new Uint8Array(width * height * 4);
+  const mismatchPixels = pixelmatch(
+    padImage(base, width, height),
+    padImage(compare, width, height),
+    diff,
+    width,
+    height,
+    { threshold }
+  );
+
+  const regions = findRegions(diff, width, height);
+  drawRegions(diff, width, regions);
+
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(diff.buffer);
+
+  return {
+    width,
+    height,
+    mismatchPixels,
+    totalPixels: width * height,
+    regions,
+    image: PNG.sync.write(png),
+  };
+}
+
+/**
+ * Compute a queued diff and store the result
+ */
+async function processDiff(supabase, diff) {
+  // Claim the diff; another worker may have picked it up already
+  const { data: claimed } = await supabase
+    .from('screenshot_diffs')
+    .update({ status: 'processing', started_at: new Date().toISOString() })
+    .eq('id', diff.id)
+    .eq('status', 'pending')
+    .select();
+
+  if (!claimed || claimed.length === 0) return;
+
+  console.log(`\n🔍 Diffing ${diff.url} (${diff.id})`);
+
+  try {
+    const { data: jobs, error: jobsError } = await supabase
+      .from('screenshot_jobs')
+      .select('id, screenshot_url')
+      .in('id', [diff.base_job_id, diff.compare_job_id]);
+
+    if (jobsError) throw jobsError;
+
+    const baseJob = jobs?.find((job) => job.id === diff.base_job_id);
+    const compareJob = jobs?.find((job) => job.id === diff.compare_job_id);
+    if (!baseJob?.screenshot_url || !compareJob?.screenshot_url) {
+      throw new Error('Screenshot is no longer available');
+    }
+
+    const result = await compareScreenshots(baseJob.screenshot_url, compareJob.screenshot_url, Number(diff.threshold));
+
+    const storagePath = `screenshots/${diff.user_id}/diffs/diff_${diff.id}.png`;
+    const { error: uploadError } = await supabase.storage
+      .from('screenshots')
+      .upload(storagePath, result.image, {
+        contentType: 'image/png',
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('screenshots')
+      .getPublicUrl(storagePath);
+
+    const mismatchPercentage = Math.round((result.mismatchPixels / result.totalPixels) * 100000) / 1000;
+
+    await supabase
+      .from('screenshot_diffs')
+      .update({
+        status: 'completed',
+        diff_url: publicUrl,
+        width: result.width,
+        height: result.height,
+        mismatch_pixels: result.mismatchPixels,
+        total_pixels: result.totalPixels,
+        mismatch_percentage: mismatchPercentage,
+        regions: result.regions,
+        // Nothing to review when the capture matches its baseline
+        ...(diff.review_status === 'pending' && result.mismatchPixels === 0 ? { review_status: 'unchanged' } : {}),
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', diff.id);
+
+    console.log(`   ✅ ${mismatchPercentage}% changed, ${result.regions.length} region(s)`);
+  } catch (error) {
+    console.error(`   ❌ Diff ${diff.id} failed: ${error.message}`);
+    await supabase
+      .from('screenshot_diffs')
+      .update({
+        status: 'failed',
+        error_message: error.message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', diff.id);
+  }
+}
+
+/**
+ * Process queued diffs
+ */
+export async function processPendingDiffs(supabase) {
+  const { data: diffs, error } = await supabase
+    .from('screenshot_diffs')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(DIFF_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error fetching diffs:', error.message);
+    return;
+  }
+
+  for (const diff of diffs || []) {
+    await processDiff(supabase, diff);
+  }
+}
+
+/**
+ * Device a capture is compared under, as the API's getDeviceType (api/_lib/diffs.ts)
+ */
+function getDeviceType(job) {
+  const deviceType = job.options?.deviceType || 'desktop';
+  const viewport = job.options?.viewport;
+  if (deviceType === 'custom' && viewport) {
+    return `custom-${viewport.width}x${viewport.height}@${viewport.deviceScaleFactor ?? 1}x`;
+  }
+  return deviceType;
+}
+
+/**
+ * Queue a diff of a completed capture against its page's baseline, if any
+ */
+export async function queueBaselineDiff(supabase, job) {
+  // PDFs have no pixels to compare
+  if (!job.project_id || !job.screenshot_url || job.options?.format === 'pdf') return;
+
+  const deviceType = getDeviceType(job);
+
+  try {
+    const { data: baseline, error } = await supabase
+      .from('screenshot_baselines')
+      .select('id, job_id')
+      .eq('project_id', job.project_id)
+      .eq('url', job.url)
+      .eq('device_type', deviceType)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!baseline || baseline.job_id === job.id) return;
+
+    const { error: insertError } = await supabase
+      .from('screenshot_diffs')
+      .upsert({
+        user_id: job.user_id,
+        project_id: job.project_id,
+        base_job_id: baseline.job_id,
+        compare_job_id: job.id,
+        baseline_id: baseline.id,
+        url: job.url,
+        device_type: deviceType,
+        threshold: BASELINE_DIFF_THRESHOLD,
+        status: 'pending',
+        review_status: 'pending',
+      }, { onConflict: 'base_job_id,compare_job_id,threshold', ignoreDuplicates: true });
+
+    if (insertError) throw insertError;
+
+    console.log(`   🔍 Queued diff against baseline ${baseline.id}`);
+  } catch (error) {
+    console.error(`   ⚠️  Failed to queue baseline diff for job ${job.id}: ${error.message}`);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Outgoing webhooks
+ *
+ * Shared by the screenshot and crawl workers. When a job reaches `completed`
+ * or `failed`, a delivery row is queued in `webhook_deliveries` for every
+ * active endpoint subscribed to the event (plus the job's `callback_url`, if
+ * any) and sent as a signed JSON POST. Failed deliveries are retried with
+ * exponential backoff by `processDueDeliveries`, called from each poll tick.
+ *
+ * Signature: X-ScreenshotPro-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ *
+ * The API only saves public URLs; the host is resolved again before each
+ * attempt, so a hostname re-pointed at a private address is not sent to, and
+ * redirects are not followed.
+ *
+ * Environment Variables:
+ * - WEBHOOK_MAX_ATTEMPTS: Attempts before a delivery is marked failed (default: 6)
+ * - WEBHOOK_TIMEOUT: Request timeout in milliseconds (default: 10000)
+ */
+
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const WEBHOOK_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '10000', 10);
+const WEBHOOK_BASE_DELAY = 30 * 1000; // 30s, 1m, 2m, 4m, 8m...
+const WEBHOOK_MAX_DELAY = 60 * 60 * 1000; // 1 hour
+
+// Job fields included in the payload for each job type
+const JOB_FIELDS = {
+  screenshot: ['id', 'url', 'status', 'screenshot_url', 'screenshot_urls', 'thumbnail_url', 'error_message', 'error_code', 'attempts', 'action_results', 'options', 'device_group_id', 'sitemap_job_id', 'project_id', 'created_at', 'started_at', 'completed_at'],
+  sitemap: ['id', 'project_id', 'domain', 'status', 'urls', 'source', 'error_message', 'created_at', 'completed_at'],
+  crawl: ['id', 'domain', 'status', 'sitemap_job_id', 'project_id', 'max_urls', 'crawl_depth', 'include_patterns', 'exclude_patterns', 'discovered_urls', 'error_message', 'created_at', 'started_at', 'completed_at'],
+};
+
+// Loopback, private, link-local and other non-public ranges (see api/_lib/webhookUrls.ts)
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+]) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Throw unless every address a webhook URL's host resolves to is public
+ */
+async function assertPublicHost(url) {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+
+  const blocked = host === 'localhost' || host.endsWith('.localhost') || addresses.some((address) =>
+    PRIVATE_RANGES.check(address, isIP(address) === 4 ? 'ipv4' : 'ipv6')
+  );
+  if (blocked) {
+    throw new Error(`Webhook host ${host} resolves to a private address`);
+  }
+}
+
+function pick(job, fields) {
+  const result = {};
+  for (const field of fields) {
+    if (field in job) result[field] = job[field];
+  }
+  return result;
+}
+
+function backoffDelay(attempts) {
+  return Math.min(WEBHOOK_BASE_DELAY * 2 ** Math.max(0, attempts - 1), WEBHOOK_MAX_DELAY);
+}
+
+/**
+ * Sign a payload body
+ */
+export function signPayload(secret, timestamp, body) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Resolve the signing secret for a delivery
+ */
+async function getSigningSecret(supabase, delivery) {
+  if (delivery.endpoint_id) {
+    const { data } = await supabase
+      .from('webhook_endpoints')
+      .select('secret')
+      .eq('id', delivery.endpoint_id)
+      .single();
+    return data?.secret || null;
+  }
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('webhook_secret')
+    .eq('id', delivery.user_id)
+    .single();
+  return data?.webhook_secret || null;
+}
+
+/**
+ * Attempt a single delivery
+ *
+ * The delivery is claimed by bumping `attempts` (guarded on the previous
+ * value), so two workers never send the same attempt twice. The next retry
+ * time is written up front, so a crash mid-request still gets retried.
+ */
+async function attemptDelivery(supabase, delivery) {
+  const attempts = (delivery.attempts || 0) + 1;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      attempts,
+      next_attempt_at: new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+    })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempts', delivery.attempts || 0)
+    .select('id');
+
+  if (claimError || !claimed || claimed.length === 0) {
+    return;
+  }
+
+  let responseStatus = null;
+  let errorMessage = null;
+
+  try {
+    const secret = await getSigningSecret(supabase, delivery);
+    if (!secret) {
+      throw new Error('No signing secret available');
+    }
+
+    await assertPublicHost(delivery.url);
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT);
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ScreenshotPro-Webhooks/1.0',
+          'X-ScreenshotPro-Event': delivery.event,
+          'X-ScreenshotPro-Delivery': delivery.id,
+          'X-ScreenshotPro-Timestamp': timestamp,
+          'X-ScreenshotPro-Signature': `sha256=${signPayload(secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      responseStatus = response.status;
+
+      if (!response.ok) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  } catch (error) {
+    errorMessage = error.name === 'AbortError'
+      ? `Request timed out after ${WEBHOOK_TIMEOUT}ms`
+      : error.message;
+  }
+
+  if (!errorMessage) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'delivered',
+        response_status: responseStatus,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      })
+      .eq('id', delivery.id);
+    console.log(`   🔔 Webhook ${delivery.event} delivered to ${delivery.url}`);
+    return;
+  }
+
+  const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: exhausted ? 'failed' : 'pending',
+      response_status: responseStatus,
+      last_error: errorMessage,
+    })
+    .eq('id', delivery.id);
+
+  console.error(`   ⚠️  Webhook ${delivery.event} to ${delivery.url} failed (attempt ${attempts}/${WEBHOOK_MAX_ATTEMPTS}): ${errorMessage}`);
+}
+
+/**
+ * Queue and send webhooks for a finished job
+ *
+ * @param {object} supabase - Supabase client (service role)
+ * @param {'screenshot' | 'sitemap' | 'crawl'} jobType
+ * @param {object} job - The job row after its final update
+ */
+export async function notifyJobFinished(supabase, jobType, job) {
+  if (!job || (job.status !== 'completed' && job.status !== 'failed')) {
+    return;
+  }
+
+  try {
+    const event = `${jobType}.${job.status}`;
+    const createdAt = new Date().toISOString();
+
+    // Registered endpoints subscribed to this event
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url')
+      .eq('user_id', job.user_id)
+      .eq('is_active', true)
+      .contains('events', [event]);
+
+    if (error) {
+      console.error('Failed to load webhook endpoints:', error.message);
+    }
+
+    const targets = (endpoints || []).map((endpoint) => ({ endpoint_id: endpoint.id, url: endpoint.url }));
+    if (job.callback_url && !targets.some((target) => target.url === job.callback_url)) {
+      targets.push({ endpoint_id: null, url: job.callback_url });
+    }
+
+    if (targets.length === 0) {
+      return;
+    }
+
+    const payload = {
+      event,
+      created_at: createdAt,
+      data: { [jobType]: pick(job, JOB_FIELDS[jobType]) },
+    };
+
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(targets.map((target) => ({
+        user_id: job.user_id,
+        endpoint_id: target.endpoint_id,
+        url: target.url,
+        event,
+        job_type: jobType,
+        job_id: job.id,
+        payload,
+      })))
+      .select();
+
+    if (insertError) {
+      console.error('Failed to queue webhook deliveries:', insertError.message);
+      return;
+    }
+
+    for (const delivery of deliveries || []) {
+      await attemptDelivery(supabase, delivery);
+    }
+  } catch (error) {
+    // Webhooks must never fail the job itself
+    console.error('Webhook dispatch error:', error.message);
+  }
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed
+ */
+export async function processDueDeliveries(supabase) {
+  try {
+    const { data: deliveries, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error.message);
+      return;
+    }
+
+    for (const delivery of deliveries || []) {
+      await attemptDelivery(supabase, delivery);
+    }
+  } catch (error) {
+    console.error('Webhook retry error:', error.message);
+  }
+}